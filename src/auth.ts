@@ -0,0 +1,131 @@
+/**
+ * Authentication - Maps API keys to identities and roles
+ *
+ * Keys are configured with either (or both):
+ * - AUTH_KEYS="key:user:role,key:user:role" (a key may contain ":", as the
+ *   user and role are taken from the end)
+ * - AUTH_KEYS_FILE=/path/to/keys.json ([{ "key", "user", "role" }])
+ *
+ * When no keys are configured, authentication is disabled and every caller
+ * is treated as an admin named after TASK_USER (or the OS user). That is
+ * meant for stdio; the HTTP transport then only listens on 127.0.0.1 unless
+ * ALLOW_UNAUTHENTICATED_HTTP=true.
+ */
+
+import fs from "fs-extra";
+import os from "os";
+import { createHash } from "crypto";
+import { z } from "zod";
+import { Identity, Role, ApiKeySchema } from "./types.js";
+
+// Identity used when authentication is disabled
+const DEFAULT_USER = process.env.TASK_USER || os.userInfo().username;
+
+// Rank of each role; a role may use every tool up to its rank
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+};
+
+// Minimum role required for each tool (unlisted tools require admin)
+const TOOL_PERMISSIONS: Record<string, Role> = {
+  list_tasks: "viewer",
+  search_tasks: "viewer",
+  get_task_stats: "viewer",
+  get_next_actions: "viewer",
+  list_workspaces: "viewer",
+  switch_workspace: "viewer",
+  get_task_history: "viewer",
+  trash: "viewer",
+  list_tags: "viewer",
+  export_tasks: "viewer",
+  create_task: "member",
+  update_task: "member",
+  complete_task: "member",
+  add_subtask: "member",
+  move_task: "member",
+  add_dependency: "member",
+  remove_dependency: "member",
+  assign_task: "member",
+  add_tags: "member",
+  remove_tags: "member",
+  restore_task: "member",
+  undo: "member",
+  redo: "member",
+  start_timer: "member",
+  stop_timer: "member",
+  log_time: "member",
+  snooze_reminder: "member",
+  delete_task: "admin",
+  clear_completed: "admin",
+  create_workspace: "admin",
+  // These change many tasks in one call
+  bulk_update: "admin",
+  rename_tag: "admin",
+  import_tasks: "admin",
+};
+
+/**
+ * Hash a key so lookups don't compare raw secrets
+ */
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Load configured API keys, indexed by key hash
+ */
+function loadKeys(): Map<string, Identity> {
+  const entries: z.infer<typeof ApiKeySchema>[] = [];
+
+  if (process.env.AUTH_KEYS) {
+    for (const item of process.env.AUTH_KEYS.split(",")) {
+      const parts = item.trim().split(":");
+      const role = parts.pop();
+      const user = parts.pop();
+      entries.push(ApiKeySchema.parse({ key: parts.join(":"), user, role }));
+    }
+  }
+
+  if (process.env.AUTH_KEYS_FILE) {
+    const data = fs.readJsonSync(process.env.AUTH_KEYS_FILE);
+    entries.push(...z.array(ApiKeySchema).parse(data));
+  }
+
+  return new Map(
+    entries.map((e) => [hashKey(e.key), { userId: e.user, role: e.role }])
+  );
+}
+
+const keys = loadKeys();
+
+// Authentication is only enforced once at least one key is configured
+export const AUTH_ENABLED = keys.size > 0;
+
+/**
+ * Resolve the identity for an API key or bearer token
+ *
+ * Returns undefined when authentication is enabled and the key is missing
+ * or unknown.
+ */
+export function authenticate(key: string | undefined): Identity | undefined {
+  if (!AUTH_ENABLED) {
+    return { userId: DEFAULT_USER, role: "admin" };
+  }
+  return key ? keys.get(hashKey(key)) : undefined;
+}
+
+/**
+ * Get the minimum role required to use a tool
+ */
+export function requiredRole(toolName: string): Role {
+  return TOOL_PERMISSIONS[toolName] ?? "admin";
+}
+
+/**
+ * Check whether a role may use a tool
+ */
+export function canUseTool(role: Role, toolName: string): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[requiredRole(toolName)];
+}
@@ -0,0 +1,178 @@
+/**
+ * Cross-process lock based on a lockfile
+ *
+ * The lock is held by whoever manages to create the lockfile (O_EXCL), so
+ * it works for any number of server processes sharing a data directory.
+ * Holders refresh the file's mtime while working; a lockfile that hasn't
+ * been touched for LOCK_STALE_MS was left by a crashed process and is
+ * taken over. Each holder writes a random token into the lockfile and only
+ * refreshes or removes a lockfile that still holds its token, so a holder
+ * that stalled past LOCK_STALE_MS never deletes the lock of whoever took
+ * over. The lock is re-entrant within one async call chain, so storage
+ * functions can lock on their own and inside a locked tool call.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import fs from "fs-extra";
+import os from "os";
+
+// Give up waiting for the lock after this long
+const LOCK_TIMEOUT_MS = parseInt(process.env.LOCK_TIMEOUT_MS || "10000", 10);
+
+// A lockfile untouched for this long belongs to a process that died
+const LOCK_STALE_MS = 30_000;
+
+// Delay between attempts to take the lock
+const RETRY_MS = 25;
+
+// Who holds a lock (written into the lockfile)
+interface LockOwner {
+  token: string; // unique per acquisition
+  pid: number;
+  hostname: string;
+  since: string; // ISO timestamp
+}
+
+export interface FileLock {
+  /** Run fn while holding the lock */
+  withLock<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Try to create the lockfile, returning our token, or undefined if another
+ * holder has it
+ */
+async function tryAcquire(lockPath: string): Promise<string | undefined> {
+  const owner: LockOwner = {
+    token: randomUUID(),
+    pid: process.pid,
+    hostname: os.hostname(),
+    since: new Date().toISOString(),
+  };
+  try {
+    await fs.writeFile(lockPath, JSON.stringify(owner), { flag: "wx" });
+    return owner.token;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read the owner recorded in a lockfile, or undefined if it is gone (or
+ * half-written)
+ */
+async function readOwner(file: string): Promise<LockOwner | undefined> {
+  try {
+    return (await fs.readJson(file)) as LockOwner;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Remove the lockfile if it still holds the given token
+ *
+ * The file is renamed aside first, which is atomic, and its token checked
+ * there; a lockfile that turns out to belong to someone else is put back.
+ */
+async function removeIfOwned(lockPath: string, token: string): Promise<void> {
+  const aside = `${lockPath}.${process.pid}.${randomUUID()}.stale`;
+  try {
+    await fs.rename(lockPath, aside);
+  } catch {
+    return; // Released in the meantime
+  }
+
+  const owner = await readOwner(aside);
+  if (owner?.token !== token) {
+    try {
+      await fs.link(aside, lockPath);
+    } catch (error) {
+      console.error(
+        `Could not restore lock ${lockPath} held by ${owner?.pid ?? "another process"}:`,
+        error
+      );
+    }
+  }
+  await fs.remove(aside);
+}
+
+/**
+ * Remove the lockfile if its holder stopped refreshing it
+ */
+async function clearStaleLock(lockPath: string): Promise<void> {
+  try {
+    // Read the token before the mtime: a lockfile replaced in between then
+    // looks fresh instead of passing its token off as stale
+    const owner = await readOwner(lockPath);
+    const { mtimeMs } = await fs.stat(lockPath);
+    if (Date.now() - mtimeMs > LOCK_STALE_MS && owner) {
+      console.error(`Removing stale lock ${lockPath}`);
+      await removeIfOwned(lockPath, owner.token);
+    }
+  } catch {
+    // Released in the meantime
+  }
+}
+
+/**
+ * Describe the current holder of a lock for error messages
+ */
+async function describeOwner(lockPath: string): Promise<string> {
+  const owner = await readOwner(lockPath);
+  return owner
+    ? `process ${owner.pid} on ${owner.hostname} since ${owner.since}`
+    : "another process";
+}
+
+/**
+ * Create a lock guarded by the given lockfile
+ */
+export function createFileLock(lockPath: string): FileLock {
+  const held = new AsyncLocalStorage<boolean>();
+
+  return {
+    async withLock(fn) {
+      if (held.getStore()) {
+        return fn();
+      }
+
+      const deadline = Date.now() + LOCK_TIMEOUT_MS;
+      let token: string | undefined;
+      while (!(token = await tryAcquire(lockPath))) {
+        if (Date.now() > deadline) {
+          throw new Error(
+            `Timed out waiting for ${lockPath}, held by ${await describeOwner(lockPath)}`
+          );
+        }
+        await clearStaleLock(lockPath);
+        await new Promise((resolve) =>
+          setTimeout(resolve, RETRY_MS + Math.random() * RETRY_MS)
+        );
+      }
+
+      // Keep the lock fresh so long operations aren't mistaken for crashes
+      const refresh = setInterval(async () => {
+        const owner = await readOwner(lockPath);
+        if (owner?.token !== token) {
+          console.error(`Lost lock ${lockPath} to another process`);
+          return;
+        }
+        const now = new Date();
+        fs.utimes(lockPath, now, now).catch(() => {});
+      }, LOCK_STALE_MS / 3);
+      refresh.unref();
+
+      try {
+        return await held.run(true, fn);
+      } finally {
+        clearInterval(refresh);
+        await removeIfOwned(lockPath, token);
+      }
+    },
+  };
+}
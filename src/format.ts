@@ -0,0 +1,165 @@
+import { Task, Priority, HistoryEntry } from "./types.js";
+import { describeRecurrence } from "./recurrence.js";
+import { formatTaskKey } from "./task-keys.js";
+
+// Extra context used when rendering a task
+export interface FormatOptions {
+  subtasks?: Task[]; // direct children, used for the completion roll-up
+  depth?: number; // nesting level when rendered inside a tree
+  blockers?: Task[]; // dependencies that are not completed yet
+  loggedMinutes?: number; // time logged on the task
+}
+
+/**
+ * Key and title of a task for messages, e.g. TASK-3 "Write docs"
+ */
+export function taskLabel(task: Task): string {
+  const key =
+    task.number !== undefined
+      ? formatTaskKey(task.number)
+      : `#${task.id.substring(0, 8)}`;
+  return `${key} "${task.title}"`;
+}
+
+/**
+ * Format a duration in minutes as hours and minutes (e.g. "1h 30m")
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/**
+ * Format a task for display
+ */
+export function formatTask(task: Task, options: FormatOptions = {}): string {
+  const depth = options.depth ?? 0;
+
+  const statusEmoji =
+    task.status === "completed"
+      ? "✅"
+      : task.status === "in_progress"
+        ? "⏳"
+        : "📋";
+
+  const priorityEmoji: Record<Priority, string> = {
+    high: "🔴",
+    medium: "🟡",
+    low: "🟢",
+  };
+
+  const label = task.number !== undefined ? formatTaskKey(task.number) : "Task";
+  let result = `${statusEmoji} ${label} #${task.id.substring(0, 8)}: ${task.title}\n`;
+  result += `   ${priorityEmoji[task.priority]} Priority: ${task.priority}\n`;
+
+  if (task.description) {
+    result += `   Description: ${task.description}\n`;
+  }
+  if (task.category) {
+    result += `   Category: ${task.category}\n`;
+  }
+  if (task.tags) {
+    result += `   🏷️ Tags: ${task.tags.join(", ")}\n`;
+  }
+  if (task.dueDate) {
+    result += `   Due: ${task.dueDate}\n`;
+  }
+  if (task.remindAt) {
+    result +=
+      task.remindAt.length > 0
+        ? `   ⏰ Reminders: ${task.remindAt.join(", ")} day(s) before due\n`
+        : "   ⏰ Reminders: only once overdue\n";
+  }
+  if (task.snoozedUntil && Date.parse(task.snoozedUntil) > Date.now()) {
+    result += `   💤 Snoozed until ${new Date(task.snoozedUntil).toLocaleString()}\n`;
+  }
+  if (task.recurrence) {
+    result += `   🔁 Repeats: ${describeRecurrence(task.recurrence)}\n`;
+  }
+  if (task.assignee) {
+    result += `   👤 Assignee: ${task.assignee}\n`;
+  }
+
+  const logged = options.loggedMinutes ?? 0;
+  if (logged > 0 && task.estimateMinutes) {
+    const percent = Math.round((logged / task.estimateMinutes) * 100);
+    result += `   ⏱️ Time: ${formatMinutes(logged)} logged of ${formatMinutes(task.estimateMinutes)} estimated (${percent}%)\n`;
+  } else if (logged > 0) {
+    result += `   ⏱️ Time: ${formatMinutes(logged)} logged\n`;
+  } else if (task.estimateMinutes) {
+    result += `   ⏱️ Estimate: ${formatMinutes(task.estimateMinutes)}\n`;
+  }
+  if (task.parentId && depth === 0) {
+    result += `   Parent: #${task.parentId.substring(0, 8)}\n`;
+  }
+
+  result += `   Status: ${task.status}\n`;
+
+  if (options.blockers && options.blockers.length > 0) {
+    const blockerList = options.blockers
+      .map((t) => `#${t.id.substring(0, 8)} (${t.title})`)
+      .join(", ");
+    result += `   🚫 Blocked by: ${blockerList}\n`;
+  }
+
+  if (options.subtasks && options.subtasks.length > 0) {
+    const done = options.subtasks.filter(
+      (t) => t.status === "completed"
+    ).length;
+    result += `   📂 Subtasks: ${done}/${options.subtasks.length} done\n`;
+  }
+
+  result += `   Created: ${new Date(task.createdAt).toLocaleString()}`;
+  result += task.createdBy ? ` by ${task.createdBy}\n` : "\n";
+
+  if (task.completedAt) {
+    result += `   Completed: ${new Date(task.completedAt).toLocaleString()}\n`;
+  }
+  if (task.deletedAt) {
+    result += `   🗑️ Deleted: ${new Date(task.deletedAt).toLocaleString()}\n`;
+  }
+  if (depth === 0) {
+    result += `   Version: ${task.version}\n`;
+  }
+
+  // Indent nested tasks so the tree structure is visible
+  if (depth > 0) {
+    const indent = "      ".repeat(depth);
+    result = result
+      .split("\n")
+      .map((line) => (line ? indent + line : line))
+      .join("\n");
+  }
+
+  return result;
+}
+
+/**
+ * Format a single history value for display
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "(none)";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Format a history entry for display
+ */
+export function formatHistoryEntry(entry: HistoryEntry): string {
+  const actionEmoji = { create: "✨", update: "✏️", delete: "🗑️" };
+
+  let result = `${actionEmoji[entry.action]} ${new Date(entry.timestamp).toLocaleString()} - ${entry.action} via ${entry.tool} by ${entry.actor}\n`;
+
+  if (entry.action === "update") {
+    for (const [field, change] of Object.entries(entry.changes)) {
+      result += `   ${field}: ${formatValue(change.before)} → ${formatValue(change.after)}\n`;
+    }
+  } else {
+    const title = entry.changes.title;
+    result += `   title: ${formatValue(title?.after ?? title?.before)}\n`;
+  }
+
+  return result;
+}
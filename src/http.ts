@@ -0,0 +1,308 @@
+/**
+ * HTTP Transport - Serves MCP over the SDK's streamable HTTP transport
+ *
+ * Endpoints:
+ * - POST/GET/DELETE /mcp - MCP messages, SSE streams and session teardown
+ * - GET /health - Liveness check for containers and load balancers
+ *
+ * Each client session gets its own transport and server instance, all
+ * sharing the same task storage. Requests authenticate with
+ * "Authorization: Bearer <key>" or "X-API-Key: <key>", and a session can
+ * only be used by the identity (user and role) that created it. Sessions
+ * without requests for SESSION_IDLE_MINUTES are closed.
+ *
+ * To keep web pages from reaching the server through DNS rebinding, /mcp
+ * only answers requests whose Host (and Origin, if sent) is an IP address,
+ * localhost or one of the allowed host names.
+ */
+
+import http from "http";
+import net from "net";
+import { randomUUID } from "crypto";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { authenticate } from "./auth.js";
+import type { Identity } from "./types.js";
+
+// Largest request body we accept (matches the SDK's own limit)
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Close sessions that have been idle this long (default: 30 minutes)
+const SESSION_IDLE_MS =
+  parseInt(process.env.SESSION_IDLE_MINUTES || "30", 10) * 60 * 1000;
+
+// How often idle sessions are looked for
+const SESSION_SWEEP_MS = 60 * 1000;
+
+// An open MCP session
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  identity: Identity;
+  lastSeen: number; // when the last request ended (ms)
+  openRequests: number; // requests in flight, including SSE streams
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(
+  res: http.ServerResponse,
+  statusCode: number,
+  body: unknown
+): void {
+  res.writeHead(statusCode, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Send a JSON-RPC error response
+ */
+function sendRpcError(
+  res: http.ServerResponse,
+  statusCode: number,
+  code: number,
+  message: string
+): void {
+  sendJson(res, statusCode, {
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null,
+  });
+}
+
+/**
+ * Extract the API key from the Authorization or X-API-Key header
+ */
+function getApiKey(req: http.IncomingMessage): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+
+  const apiKey = req.headers["x-api-key"];
+  return typeof apiKey === "string" ? apiKey : undefined;
+}
+
+/**
+ * Whether a Host or Origin header names the server rather than some other
+ * site; rebinding needs a host name, so IP addresses are always fine
+ */
+function isAllowedHost(
+  url: string | undefined,
+  allowedHosts: Set<string>
+): boolean {
+  if (!url) {
+    return false;
+  }
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return (
+    net.isIP(hostname.replace(/^\[(.*)\]$/, "$1")) !== 0 ||
+    hostname === "localhost" ||
+    allowedHosts.has(hostname)
+  );
+}
+
+/**
+ * Whether two identities are the same user with the same role
+ */
+function sameIdentity(a: Identity, b: Identity): boolean {
+  return a.userId === b.userId && a.role === b.role;
+}
+
+/**
+ * Hand a request to a session's transport, keeping it from expiring while
+ * the request (or its SSE stream) is open
+ */
+async function handleSessionRequest(
+  session: HttpSession,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  body?: unknown
+): Promise<void> {
+  session.openRequests++;
+  res.once("close", () => {
+    session.openRequests--;
+    session.lastSeen = Date.now();
+  });
+  await session.transport.handleRequest(req, res, body);
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+}
+
+/**
+ * Start the HTTP server and resolve once it is listening, with a function
+ * that closes every session and stops accepting connections
+ */
+export async function startHttpServer(
+  createServer: (identity: Identity) => Server,
+  port: number,
+  host: string,
+  allowedHosts: string[]
+): Promise<() => Promise<void>> {
+  // Active sessions by MCP session ID
+  const sessions = new Map<string, HttpSession>();
+  const allowed = new Set(allowedHosts.map((name) => name.toLowerCase()));
+
+  // Close sessions nobody has used for SESSION_IDLE_MS
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [id, session] of sessions) {
+      if (session.openRequests === 0 && session.lastSeen < cutoff) {
+        console.error(`HTTP session expired: ${id}`);
+        session.transport.close().catch((error) => {
+          console.error(`Failed to close session ${id}:`, error);
+        });
+      }
+    }
+  }, SESSION_SWEEP_MS);
+  sweep.unref();
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    try {
+      if (url.pathname === "/health") {
+        sendJson(res, 200, { status: "ok" });
+        return;
+      }
+
+      if (url.pathname !== "/mcp") {
+        sendJson(res, 404, { error: "Not found" });
+        return;
+      }
+
+      const origin = req.headers.origin;
+      if (
+        !isAllowedHost(`http://${req.headers.host ?? ""}`, allowed) ||
+        (origin !== undefined && !isAllowedHost(origin, allowed))
+      ) {
+        sendRpcError(res, 403, -32000, "Host or origin not allowed");
+        return;
+      }
+
+      const identity = authenticate(getApiKey(req));
+      if (!identity) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="task-manager"');
+        sendRpcError(res, 401, -32001, "Missing or invalid API key");
+        return;
+      }
+
+      // Route requests for an existing session to its transport
+      const sessionId = req.headers["mcp-session-id"];
+      if (typeof sessionId === "string") {
+        const session = sessions.get(sessionId);
+        if (!session || !sameIdentity(session.identity, identity)) {
+          sendRpcError(res, 404, -32001, "Session not found");
+          return;
+        }
+        await handleSessionRequest(session, req, res);
+        return;
+      }
+
+      // Without a session ID, only an initialize request is allowed
+      if (req.method !== "POST") {
+        sendRpcError(res, 400, -32000, "Missing mcp-session-id header");
+        return;
+      }
+
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendRpcError(
+          res,
+          400,
+          -32700,
+          `Parse error: ${error instanceof Error ? error.message : "Invalid body"}`
+        );
+        return;
+      }
+
+      if (!isInitializeRequest(body)) {
+        sendRpcError(
+          res,
+          400,
+          -32000,
+          "First request of a session must be initialize"
+        );
+        return;
+      }
+
+      // Start a new session
+      const session: HttpSession = {
+        transport: new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            sessions.set(id, session);
+            console.error(`HTTP session started: ${id} (${identity.userId})`);
+          },
+        }),
+        identity,
+        lastSeen: Date.now(),
+        openRequests: 0,
+      };
+      const { transport } = session;
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+          console.error(`HTTP session closed: ${transport.sessionId}`);
+        }
+      };
+
+      await createServer(identity).connect(transport);
+      await handleSessionRequest(session, req, res, body);
+    } catch (error) {
+      console.error("HTTP request error:", error);
+      if (!res.headersSent) {
+        sendRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  });
+
+  // A port in use or an address we can't bind fails startup
+  try {
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(port, host, () => {
+        httpServer.off("error", reject);
+        resolve();
+      });
+    });
+  } catch (error) {
+    clearInterval(sweep);
+    throw error;
+  }
+  console.error(`Task Manager MCP server running on http://${host}:${port}/mcp`);
+
+  return async () => {
+    clearInterval(sweep);
+    for (const session of sessions.values()) {
+      await session.transport.close();
+    }
+    await new Promise<void>((resolve, reject) =>
+      httpServer.close((error) => (error ? reject(error) : resolve()))
+    );
+  };
+}
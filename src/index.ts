@@ -7,19 +7,237 @@ import {
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
   ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import {
   createTask,
   listTasks,
   updateTask,
+  bulkUpdate,
   deleteTask,
   completeTask,
   searchTasks,
   getTaskStats,
   clearCompleted,
+  addSubtask,
+  moveTask,
+  addDependency,
+  removeDependency,
+  getNextActions,
+  createWorkspace,
+  switchWorkspace,
+  listWorkspaces,
+  assignTask,
+  addTags,
+  removeTags,
+  listTags,
+  renameTag,
+  exportTasks,
+  importTasks,
+  getTaskHistory,
+  listTrash,
+  restoreTask,
+  undo,
+  redo,
+  startTimer,
+  stopTimer,
+  logTime,
+  snoozeReminder,
 } from "./tools.js";
-import { loadTasks } from "./storage-router.js";
+import {
+  schema,
+  storageLock,
+  parseStorageType,
+  closeDatabase,
+} from "./storage-router.js";
+import { migrateStorage } from "./migrate-storage.js";
+import { startHttpServer } from "./http.js";
+import { OUTPUT_SCHEMAS } from "./output-schemas.js";
+import { PROMPTS, getPrompt } from "./prompts.js";
+import {
+  RESOURCES,
+  RESOURCE_TEMPLATES,
+  readResource,
+  createSubscriptions,
+  publishChanges,
+} from "./resources.js";
+import { onReminder, startReminderScheduler } from "./reminders.js";
+import { startTrashPurger } from "./trash.js";
+import {
+  AUTH_ENABLED,
+  authenticate,
+  canUseTool,
+  requiredRole,
+} from "./auth.js";
+import {
+  Identity,
+  Session,
+  DEFAULT_WORKSPACE,
+  DEFAULT_PAGE_SIZE,
+  SORT_FIELDS,
+  TRANSFER_FORMATS,
+} from "./types.js";
+
+// Transport configuration - "stdio" (default) or "http"
+const TRANSPORT = (process.env.TRANSPORT || "stdio").toLowerCase();
+const HTTP_PORT = parseInt(process.env.PORT || "3000", 10);
+
+// Address the HTTP transport listens on (default: every interface when API
+// keys are configured, 127.0.0.1 otherwise)
+const HTTP_HOST = process.env.HTTP_HOST;
+
+// Host names clients may reach the HTTP transport by, besides IP addresses
+// and localhost (comma-separated)
+const HTTP_ALLOWED_HOSTS = (process.env.HTTP_ALLOWED_HOSTS || "")
+  .split(",")
+  .map((name) => name.trim())
+  .filter(Boolean);
+
+// Serve HTTP on every interface even though no API keys are configured
+const ALLOW_UNAUTHENTICATED_HTTP =
+  process.env.ALLOW_UNAUTHENTICATED_HTTP === "true";
+
+// Query language summary (shared by list_tasks/search_tasks)
+const QUERY_SYNTAX =
+  'Terms like status:pending priority:>=medium due:<2026-11-01 owner:alice tag:backend category:none, words or "quoted phrases" matching title/description, -term to exclude, OR and parentheses';
+
+// JSON Schema for list filters (shared by list_tasks/export_tasks)
+const LIST_FILTER_PROPERTIES = {
+  status: {
+    type: "string",
+    enum: ["pending", "in_progress", "completed", "all"],
+    default: "all",
+    description: "Filter by status",
+  },
+  priority: {
+    type: "string",
+    enum: ["low", "medium", "high", "all"],
+    default: "all",
+    description: "Filter by priority",
+  },
+  category: {
+    type: "string",
+    description: "Filter by category",
+  },
+  tagsAny: {
+    type: "array",
+    items: { type: "string" },
+    description: "Only tasks with at least one of these tags",
+  },
+  tagsAll: {
+    type: "array",
+    items: { type: "string" },
+    description: "Only tasks with all of these tags",
+  },
+  assignee: {
+    type: "string",
+    description: "Filter by assignee",
+  },
+  mine: {
+    type: "boolean",
+    default: false,
+    description: "Only show tasks assigned to you",
+  },
+  query: {
+    type: "string",
+    description: `Query to narrow the list. ${QUERY_SYNTAX}`,
+  },
+};
+
+// JSON Schema for paging and sorting (shared by list_tasks/search_tasks)
+const PAGINATION_PROPERTIES = {
+  limit: {
+    type: "number",
+    description: `Maximum number of tasks to return (default: ${DEFAULT_PAGE_SIZE})`,
+    minimum: 1,
+    maximum: 500,
+  },
+  offset: {
+    type: "number",
+    description: "Number of tasks to skip",
+    minimum: 0,
+  },
+  cursor: {
+    type: "string",
+    description:
+      "Continuation token from a previous response; repeat the same filters and sorting",
+  },
+  sortBy: {
+    type: "string",
+    enum: [...SORT_FIELDS],
+    description: "Field to sort by (default: priority)",
+  },
+  sortOrder: {
+    type: "string",
+    enum: ["asc", "desc"],
+    description:
+      "Sort direction (default: high priority, soonest due date, or newest first)",
+  },
+};
+
+// JSON Schema for recurrence rules (shared by create/update/add_subtask)
+const RECURRENCE_SCHEMA = {
+  type: "object",
+  description: "Repeat schedule; completing the task creates the next occurrence",
+  properties: {
+    frequency: {
+      type: "string",
+      enum: ["daily", "weekly", "monthly"],
+    },
+    interval: {
+      type: "number",
+      minimum: 1,
+      default: 1,
+      description: "Repeat every N days/weeks/months",
+    },
+    byWeekday: {
+      type: "array",
+      items: {
+        type: "string",
+        enum: ["MO", "TU", "WE", "TH", "FR", "SA", "SU"],
+      },
+      description: "Weekdays to repeat on (daily/weekly only)",
+    },
+    until: {
+      type: "string",
+      pattern: "^\\d{4}-\\d{2}-\\d{2}$",
+      description: "Last possible due date (YYYY-MM-DD)",
+    },
+    count: {
+      type: "number",
+      minimum: 1,
+      description: "Total number of occurrences",
+    },
+  },
+  required: ["frequency"],
+};
+
+// JSON Schema for a list of tags (shared by create/update/add_subtask)
+const TAGS_SCHEMA = {
+  type: "array",
+  items: { type: "string" },
+  description: "Labels such as bug or backend (stored lowercase, no spaces)",
+};
+
+// JSON Schema for optimistic concurrency (shared by update/delete/complete)
+const EXPECTED_VERSION_SCHEMA = {
+  type: "number",
+  minimum: 1,
+  description:
+    "Version of the task you last read; the change is refused if it has changed since",
+};
+
+// JSON Schema for the file format of export_tasks/import_tasks
+const TRANSFER_FORMAT_SCHEMA = {
+  type: "string",
+  enum: [...TRANSFER_FORMATS],
+  description:
+    'File format: "csv", "markdown" (GitHub checklist), "todotxt", or "ical" (VTODO)',
+};
 
 // Tool definitions with JSON Schema
 const TOOLS = [
@@ -47,14 +265,28 @@ const TOOLS = [
           type: "string",
           description: "Task category (work/personal/etc)",
         },
+        tags: TAGS_SCHEMA,
         dueDate: {
           type: "string",
           pattern: "^\\d{4}-\\d{2}-\\d{2}$",
           description: "Due date in YYYY-MM-DD format",
         },
+        recurrence: RECURRENCE_SCHEMA,
+        estimateMinutes: {
+          type: "number",
+          minimum: 1,
+          description: "Expected effort in minutes",
+        },
+        remindAt: {
+          type: "array",
+          items: { type: "number", minimum: 0 },
+          description:
+            "Days before the due date to send reminders, e.g. [3, 0] (default: DEFAULT_REMIND_AT, normally [1])",
+        },
       },
       required: ["title"],
     },
+    outputSchema: OUTPUT_SCHEMAS.create_task,
   },
   {
     name: "list_tasks",
@@ -62,24 +294,11 @@ const TOOLS = [
     inputSchema: {
       type: "object",
       properties: {
-        status: {
-          type: "string",
-          enum: ["pending", "in_progress", "completed", "all"],
-          default: "all",
-          description: "Filter by status",
-        },
-        priority: {
-          type: "string",
-          enum: ["low", "medium", "high", "all"],
-          default: "all",
-          description: "Filter by priority",
-        },
-        category: {
-          type: "string",
-          description: "Filter by category",
-        },
+        ...LIST_FILTER_PROPERTIES,
+        ...PAGINATION_PROPERTIES,
       },
     },
+    outputSchema: OUTPUT_SCHEMAS.list_tasks,
   },
   {
     name: "update_task",
@@ -89,8 +308,7 @@ const TOOLS = [
       properties: {
         taskId: {
           type: "string",
-          description: "Task ID (use first 8 characters)",
-          minLength: 8,
+          description: "Task ID (key like TASK-42, or ID prefix)",
         },
         title: {
           type: "string",
@@ -109,6 +327,10 @@ const TOOLS = [
           type: "string",
           description: "New category",
         },
+        tags: {
+          ...TAGS_SCHEMA,
+          description: "Replace the task's tags (empty list removes them all)",
+        },
         dueDate: {
           type: "string",
           pattern: "^\\d{4}-\\d{2}-\\d{2}$",
@@ -119,24 +341,115 @@ const TOOLS = [
           enum: ["pending", "in_progress", "completed"],
           description: "New status",
         },
+        recurrence: {
+          ...RECURRENCE_SCHEMA,
+          type: ["object", "null"],
+          description: "New repeat schedule (null stops repeating)",
+        },
+        estimateMinutes: {
+          type: ["number", "null"],
+          minimum: 1,
+          description: "New estimate in minutes (null removes it)",
+        },
+        remindAt: {
+          type: ["array", "null"],
+          items: { type: "number", minimum: 0 },
+          description:
+            "Days before the due date to send reminders (null restores the default)",
+        },
+        expectedVersion: EXPECTED_VERSION_SCHEMA,
       },
       required: ["taskId"],
     },
+    outputSchema: OUTPUT_SCHEMAS.update_task,
+  },
+  {
+    name: "bulk_update",
+    description:
+      "Apply one change to many tasks at once, selected by ID list or filter",
+    inputSchema: {
+      type: "object",
+      properties: {
+        taskIds: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "IDs of the tasks to update (key like TASK-42, or ID prefix)",
+        },
+        filter: {
+          type: "object",
+          description: "Select tasks by status, priority and/or category",
+          properties: {
+            status: {
+              type: "string",
+              enum: ["pending", "in_progress", "completed"],
+            },
+            priority: {
+              type: "string",
+              enum: ["low", "medium", "high"],
+            },
+            category: {
+              type: "string",
+            },
+          },
+        },
+        patch: {
+          type: "object",
+          description: "Changes to apply to every selected task",
+          properties: {
+            status: {
+              type: "string",
+              enum: ["pending", "in_progress", "completed"],
+              description: "New status",
+            },
+            priority: {
+              type: "string",
+              enum: ["low", "medium", "high"],
+              description: "New priority",
+            },
+            category: {
+              type: "string",
+              description: "New category",
+            },
+            shiftDueDays: {
+              type: "number",
+              description:
+                "Move due dates by this many days (negative for earlier)",
+            },
+          },
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Preview the affected tasks without saving",
+          default: false,
+        },
+      },
+      required: ["patch"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.bulk_update,
   },
   {
     name: "delete_task",
-    description: "Delete a task by ID",
+    description: "Move a task to the trash by ID",
     inputSchema: {
       type: "object",
       properties: {
         taskId: {
           type: "string",
-          description: "Task ID (use first 8 characters)",
-          minLength: 8,
+          description: "Task ID (key like TASK-42, or ID prefix)",
+        },
+        subtaskPolicy: {
+          type: "string",
+          enum: ["cascade", "reparent"],
+          default: "reparent",
+          description:
+            "Delete subtasks too (cascade) or move them up to the deleted task's parent (reparent)",
         },
+        expectedVersion: EXPECTED_VERSION_SCHEMA,
       },
       required: ["taskId"],
     },
+    outputSchema: OUTPUT_SCHEMAS.delete_task,
   },
   {
     name: "complete_task",
@@ -146,27 +459,112 @@ const TOOLS = [
       properties: {
         taskId: {
           type: "string",
-          description: "Task ID (use first 8 characters)",
-          minLength: 8,
+          description: "Task ID (key like TASK-42, or ID prefix)",
+        },
+        subtaskPolicy: {
+          type: "string",
+          enum: ["block", "cascade", "warn"],
+          default: "block",
+          description:
+            "What to do with open subtasks: refuse (block), complete them too (cascade) or complete anyway (warn)",
+        },
+        expectedVersion: EXPECTED_VERSION_SCHEMA,
+      },
+      required: ["taskId"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.complete_task,
+  },
+  {
+    name: "add_subtask",
+    description: "Create a subtask under an existing task",
+    inputSchema: {
+      type: "object",
+      properties: {
+        parentId: {
+          type: "string",
+          description: "Parent task ID (key like TASK-42, or ID prefix)",
+        },
+        title: {
+          type: "string",
+          description: "Subtask title (required)",
+        },
+        description: {
+          type: "string",
+          description: "Detailed description",
+        },
+        priority: {
+          type: "string",
+          enum: ["low", "medium", "high"],
+          default: "medium",
+          description: "Subtask priority",
+        },
+        category: {
+          type: "string",
+          description: "Subtask category (work/personal/etc)",
+        },
+        tags: TAGS_SCHEMA,
+        dueDate: {
+          type: "string",
+          pattern: "^\\d{4}-\\d{2}-\\d{2}$",
+          description: "Due date in YYYY-MM-DD format",
+        },
+        recurrence: RECURRENCE_SCHEMA,
+        estimateMinutes: {
+          type: "number",
+          minimum: 1,
+          description: "Expected effort in minutes",
+        },
+        remindAt: {
+          type: "array",
+          items: { type: "number", minimum: 0 },
+          description:
+            "Days before the due date to send reminders, e.g. [3, 0] (default: DEFAULT_REMIND_AT, normally [1])",
+        },
+      },
+      required: ["parentId", "title"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.add_subtask,
+  },
+  {
+    name: "move_task",
+    description: "Move a task under another task, or back to the top level",
+    inputSchema: {
+      type: "object",
+      properties: {
+        taskId: {
+          type: "string",
+          description: "Task ID (key like TASK-42, or ID prefix)",
+        },
+        parentId: {
+          type: "string",
+          description: "New parent task ID (omit to move to the top level)",
         },
       },
       required: ["taskId"],
     },
+    outputSchema: OUTPUT_SCHEMAS.move_task,
   },
   {
     name: "search_tasks",
-    description: "Search tasks by title or description",
+    description: "Search tasks by title or description, with field filters",
     inputSchema: {
       type: "object",
       properties: {
         query: {
           type: "string",
-          description: "Search query",
+          description: QUERY_SYNTAX,
           minLength: 1,
         },
+        ...PAGINATION_PROPERTIES,
+        sortBy: {
+          type: "string",
+          enum: ["relevance", ...SORT_FIELDS],
+          description: "Field to sort by (default: relevance)",
+        },
       },
       required: ["query"],
     },
+    outputSchema: OUTPUT_SCHEMAS.search_tasks,
   },
   {
     name: "get_task_stats",
@@ -175,151 +573,896 @@ const TOOLS = [
       type: "object",
       properties: {},
     },
+    outputSchema: OUTPUT_SCHEMAS.get_task_stats,
   },
   {
     name: "clear_completed",
-    description: "Remove all completed tasks",
+    description: "Move all completed tasks to the trash",
     inputSchema: {
       type: "object",
       properties: {},
     },
+    outputSchema: OUTPUT_SCHEMAS.clear_completed,
   },
-];
-
-// Create the MCP server
-const server = new Server(
   {
-    name: "task-manager",
-    version: "1.0.0",
+    name: "add_dependency",
+    description: "Mark a task as blocked by another task",
+    inputSchema: {
+      type: "object",
+      properties: {
+        taskId: {
+          type: "string",
+          description:
+            "ID of the task that is blocked (key like TASK-42, or ID prefix)",
+        },
+        blockedById: {
+          type: "string",
+          description:
+            "ID of the task that must be completed first (key like TASK-42, or ID prefix)",
+        },
+      },
+      required: ["taskId", "blockedById"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.add_dependency,
   },
   {
-    capabilities: {
-      tools: {},
-      resources: {},
-      prompts: {},
+    name: "remove_dependency",
+    description: "Remove a blocking link between two tasks",
+    inputSchema: {
+      type: "object",
+      properties: {
+        taskId: {
+          type: "string",
+          description:
+            "ID of the blocked task (key like TASK-42, or ID prefix)",
+        },
+        blockedById: {
+          type: "string",
+          description:
+            "ID of the blocking task (key like TASK-42, or ID prefix)",
+        },
+      },
+      required: ["taskId", "blockedById"],
     },
-  }
-);
+    outputSchema: OUTPUT_SCHEMAS.remove_dependency,
+  },
+  {
+    name: "get_next_actions",
+    description:
+      "List unblocked, non-completed tasks ordered by priority and due date",
+    inputSchema: {
+      type: "object",
+      properties: {
+        category: {
+          type: "string",
+          description: "Only include tasks in this category",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of tasks to return",
+          minimum: 1,
+        },
+      },
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_next_actions,
+  },
+  {
+    name: "create_workspace",
+    description: "Create a new workspace",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          pattern: "^[a-z0-9][a-z0-9_-]*$",
+          description: "Workspace name (lowercase letters, digits, '-' or '_')",
+        },
+      },
+      required: ["name"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.create_workspace,
+  },
+  {
+    name: "switch_workspace",
+    description: "Switch to another workspace for the rest of this session",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Workspace name",
+        },
+      },
+      required: ["name"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.switch_workspace,
+  },
+  {
+    name: "list_workspaces",
+    description: "List all workspaces",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    outputSchema: OUTPUT_SCHEMAS.list_workspaces,
+  },
+  {
+    name: "assign_task",
+    description: "Assign a task to a user, or unassign it",
+    inputSchema: {
+      type: "object",
+      properties: {
+        taskId: {
+          type: "string",
+          description: "Task ID (key like TASK-42, or ID prefix)",
+        },
+        assignee: {
+          type: "string",
+          description: "User to assign the task to (omit to unassign)",
+        },
+      },
+      required: ["taskId"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.assign_task,
+  },
+  {
+    name: "add_tags",
+    description: "Add one or more tags to a task",
+    inputSchema: {
+      type: "object",
+      properties: {
+        taskId: {
+          type: "string",
+          description: "Task ID (key like TASK-42, or ID prefix)",
+        },
+        tags: {
+          ...TAGS_SCHEMA,
+          minItems: 1,
+        },
+      },
+      required: ["taskId", "tags"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.add_tags,
+  },
+  {
+    name: "remove_tags",
+    description: "Remove one or more tags from a task",
+    inputSchema: {
+      type: "object",
+      properties: {
+        taskId: {
+          type: "string",
+          description: "Task ID (key like TASK-42, or ID prefix)",
+        },
+        tags: {
+          ...TAGS_SCHEMA,
+          minItems: 1,
+        },
+      },
+      required: ["taskId", "tags"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.remove_tags,
+  },
+  {
+    name: "list_tags",
+    description: "List all tags in the workspace with task counts",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    outputSchema: OUTPUT_SCHEMAS.list_tags,
+  },
+  {
+    name: "rename_tag",
+    description:
+      "Rename a tag on every task, merging it into the new name if that tag already exists",
+    inputSchema: {
+      type: "object",
+      properties: {
+        from: {
+          type: "string",
+          description: "Current tag name",
+        },
+        to: {
+          type: "string",
+          description: "New tag name (an existing tag to merge into)",
+        },
+      },
+      required: ["from", "to"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.rename_tag,
+  },
+  {
+    name: "export_tasks",
+    description:
+      "Export tasks as CSV, a Markdown checklist, todo.txt, or iCalendar VTODO, using the same filters as list_tasks",
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: TRANSFER_FORMAT_SCHEMA,
+        ...LIST_FILTER_PROPERTIES,
+      },
+      required: ["format"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.export_tasks,
+  },
+  {
+    name: "import_tasks",
+    description:
+      "Import tasks from CSV, a Markdown checklist, todo.txt, or iCalendar VTODO. Entries with the same title and due date as an existing task are skipped",
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: TRANSFER_FORMAT_SCHEMA,
+        content: {
+          type: "string",
+          description: "Document to import",
+          minLength: 1,
+        },
+        dryRun: {
+          type: "boolean",
+          default: false,
+          description: "Report what would be imported without saving",
+        },
+      },
+      required: ["format", "content"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.import_tasks,
+  },
+  {
+    name: "get_task_history",
+    description:
+      "Show who changed a task, when, and which fields (works for deleted tasks too)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        taskId: {
+          type: "string",
+          description: "Task ID (key like TASK-42, or ID prefix)",
+        },
+        limit: {
+          type: "number",
+          description: "Only show the most recent N changes",
+          minimum: 1,
+        },
+      },
+      required: ["taskId"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_task_history,
+  },
+  {
+    name: "trash",
+    description:
+      "List deleted tasks in the current workspace (purged after the retention period)",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    outputSchema: OUTPUT_SCHEMAS.trash,
+  },
+  {
+    name: "restore_task",
+    description: "Restore a task (and subtasks deleted with it) from the trash",
+    inputSchema: {
+      type: "object",
+      properties: {
+        taskId: {
+          type: "string",
+          description: "Task ID (key like TASK-42, or ID prefix)",
+        },
+      },
+      required: ["taskId"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.restore_task,
+  },
+  {
+    name: "undo",
+    description:
+      "Revert the last N changes made in this session (including bulk operations). Refuses if the tasks were changed since, unless forced. Time tracking is not undoable",
+    inputSchema: {
+      type: "object",
+      properties: {
+        steps: {
+          type: "number",
+          description: "Number of operations to undo",
+          minimum: 1,
+          default: 1,
+        },
+        force: {
+          type: "boolean",
+          description:
+            "Overwrite changes made to the affected tasks since (default: false)",
+          default: false,
+        },
+      },
+    },
+    outputSchema: OUTPUT_SCHEMAS.undo,
+  },
+  {
+    name: "redo",
+    description: "Reapply the last N operations reverted by undo",
+    inputSchema: {
+      type: "object",
+      properties: {
+        steps: {
+          type: "number",
+          description: "Number of operations to redo",
+          minimum: 1,
+          default: 1,
+        },
+        force: {
+          type: "boolean",
+          description:
+            "Overwrite changes made to the affected tasks since (default: false)",
+          default: false,
+        },
+      },
+    },
+    outputSchema: OUTPUT_SCHEMAS.redo,
+  },
+  {
+    name: "start_timer",
+    description:
+      "Start timing work on a task (moves a pending task to in_progress; one running timer per user). Not undoable: stop the timer with stop_timer",
+    inputSchema: {
+      type: "object",
+      properties: {
+        taskId: {
+          type: "string",
+          description: "Task ID (key like TASK-42, or ID prefix)",
+        },
+        note: {
+          type: "string",
+          description: "What you are working on",
+        },
+      },
+      required: ["taskId"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.start_timer,
+  },
+  {
+    name: "stop_timer",
+    description:
+      "Stop your running timer and log the time on its task (not undoable)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        note: {
+          type: "string",
+          description: "What you did (replaces the note given at the start)",
+        },
+      },
+    },
+    outputSchema: OUTPUT_SCHEMAS.stop_timer,
+  },
+  {
+    name: "log_time",
+    description:
+      "Record time spent on a task without running a timer (not undoable)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        taskId: {
+          type: "string",
+          description: "Task ID (key like TASK-42, or ID prefix)",
+        },
+        minutes: {
+          type: "number",
+          minimum: 1,
+          maximum: 1440,
+          description: "Minutes spent, ending now",
+        },
+        note: {
+          type: "string",
+          description: "What you did",
+        },
+      },
+      required: ["taskId", "minutes"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.log_time,
+  },
+  {
+    name: "snooze_reminder",
+    description:
+      "Hold a task's reminders until later, then remind again (default: 60 minutes)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        taskId: {
+          type: "string",
+          description: "Task ID (key like TASK-42, or ID prefix)",
+        },
+        minutes: {
+          type: "number",
+          minimum: 1,
+          description: "Minutes to snooze for",
+        },
+        until: {
+          type: "string",
+          description: "Snooze until this date and time (ISO 8601)",
+        },
+      },
+      required: ["taskId"],
+    },
+    outputSchema: OUTPUT_SCHEMAS.snooze_reminder,
+  },
+];
+
+// Tools that never write to storage (and so run without the storage lock)
+const READ_ONLY_TOOLS = new Set([
+  "list_tasks",
+  "search_tasks",
+  "get_task_stats",
+  "get_next_actions",
+  "list_workspaces",
+  "switch_workspace",
+  "list_tags",
+  "export_tasks",
+  "get_task_history",
+  "trash",
+]);
+
+/**
+ * Run a tool by name
+ */
+async function dispatchTool(name: string, args: unknown, session: Session) {
+  switch (name) {
+    case "create_task":
+      return await createTask(args, session);
+
+    case "list_tasks":
+      return await listTasks(args, session);
+
+    case "update_task":
+      return await updateTask(args, session);
+
+    case "bulk_update":
+      return await bulkUpdate(args, session);
+
+    case "delete_task":
+      return await deleteTask(args, session);
+
+    case "complete_task":
+      return await completeTask(args, session);
+
+    case "search_tasks":
+      return await searchTasks(args, session);
+
+    case "get_task_stats":
+      return await getTaskStats(session);
+
+    case "clear_completed":
+      return await clearCompleted(session);
+
+    case "add_subtask":
+      return await addSubtask(args, session);
+
+    case "move_task":
+      return await moveTask(args, session);
+
+    case "add_dependency":
+      return await addDependency(args, session);
+
+    case "remove_dependency":
+      return await removeDependency(args, session);
+
+    case "get_next_actions":
+      return await getNextActions(args, session);
+
+    case "create_workspace":
+      return await createWorkspace(args, session);
 
-// Handle tool listing
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools: TOOLS,
-}));
+    case "switch_workspace":
+      return await switchWorkspace(args, session);
 
-// Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+    case "list_workspaces":
+      return await listWorkspaces(session);
 
-  try {
-    switch (name) {
-      case "create_task":
-        return await createTask(args);
+    case "assign_task":
+      return await assignTask(args, session);
 
-      case "list_tasks":
-        return await listTasks(args);
+    case "add_tags":
+      return await addTags(args, session);
 
-      case "update_task":
-        return await updateTask(args);
+    case "remove_tags":
+      return await removeTags(args, session);
 
-      case "delete_task":
-        return await deleteTask(args);
+    case "list_tags":
+      return await listTags(session);
 
-      case "complete_task":
-        return await completeTask(args);
+    case "rename_tag":
+      return await renameTag(args, session);
 
-      case "search_tasks":
-        return await searchTasks(args);
+    case "export_tasks":
+      return await exportTasks(args, session);
 
-      case "get_task_stats":
-        return await getTaskStats();
+    case "import_tasks":
+      return await importTasks(args, session);
 
-      case "clear_completed":
-        return await clearCompleted();
+    case "get_task_history":
+      return await getTaskHistory(args, session);
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+    case "trash":
+      return await listTrash(session);
+
+    case "restore_task":
+      return await restoreTask(args, session);
+
+    case "undo":
+      return await undo(args, session);
+
+    case "redo":
+      return await redo(args, session);
+
+    case "start_timer":
+      return await startTimer(args, session);
+
+    case "stop_timer":
+      return await stopTimer(args, session);
+
+    case "log_time":
+      return await logTime(args, session);
+
+    case "snooze_reminder":
+      return await snoozeReminder(args, session);
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
+/**
+ * Create an MCP server for one authenticated caller
+ */
+function createServer(identity: Identity): Server {
+  // Session state for this connection
+  const session: Session = {
+    ...identity,
+    workspaceId: DEFAULT_WORKSPACE,
+    undoStack: [],
+    redoStack: [],
+    replayedVersions: new Map(),
+  };
+
+  // Create the MCP server
+  const server = new Server(
+    {
+      name: "task-manager",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+        logging: {},
+      },
     }
-  } catch (error) {
-    // Handle Zod validation errors
-    if (error instanceof z.ZodError) {
-      // Format validation errors with proper quoting
-      const formattedErrors = error.errors.map((e) => {
-        let message = e.message;
-
-        // If the error includes a received value, quote it properly
-        if (e.code === "invalid_enum_value" && "received" in e) {
-          const received = e.received;
-          const expected = "options" in e ? e.options : [];
-          message = `Invalid value '${received}'. Expected one of: ${expected.map((v: any) => `'${v}'`).join(", ")}`;
-        }
-
-        return message;
-      });
+  );
+
+  // Resources this client subscribed to, notified when tool calls change them
+  const subscriptions = createSubscriptions((uri) =>
+    server.sendResourceUpdated({ uri })
+  );
+
+  // Reminders for the workspace the caller is in, as log messages
+  const stopReminders = onReminder(
+    () => session.workspaceId,
+    (reminder) =>
+      server.sendLoggingMessage({
+        level: reminder.kind === "overdue" ? "warning" : "info",
+        logger: "reminders",
+        data: reminder,
+      })
+  );
+
+  server.onclose = () => {
+    subscriptions.close();
+    stopReminders();
+  };
+
+  // Handle tool listing (only tools the caller's role may use)
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: TOOLS.filter((tool) => canUseTool(session.role, tool.name)),
+  }));
+
+  // Handle tool execution
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
 
+    if (!canUseTool(session.role, name)) {
       return {
         content: [
           {
             type: "text",
-            text: `❌ Validation error: ${formattedErrors.join(", ")}`,
+            text: `❌ Permission denied: ${session.userId} (${session.role}) cannot use ${name}, which requires the ${requiredRole(name)} role.`,
           },
         ],
+        isError: true,
       };
     }
 
-    // Handle other errors
-    return {
-      content: [
-        {
-          type: "text",
-          text: `❌ Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-        },
-      ],
-    };
+    try {
+      // Mutating tools hold the storage lock for their whole
+      // read-modify-write sequence
+      const call = () => dispatchTool(name, args, session);
+      if (READ_ONLY_TOOLS.has(name)) {
+        return await call();
+      }
+      const result = await storageLock.withLock(call);
+
+      // Tell subscribers about resources this call changed
+      publishChanges().catch((error) =>
+        console.error("Failed to publish resource changes:", error)
+      );
+      return result;
+    } catch (error) {
+      // Handle Zod validation errors
+      if (error instanceof z.ZodError) {
+        // Format validation errors with proper quoting
+        const formattedErrors = error.errors.map((e) => {
+          let message = e.message;
+
+          // If the error includes a received value, quote it properly
+          if (e.code === "invalid_enum_value" && "received" in e) {
+            const received = e.received;
+            const expected = "options" in e ? e.options : [];
+            message = `Invalid value '${received}'. Expected one of: ${expected.map((v: any) => `'${v}'`).join(", ")}`;
+          }
+
+          return message;
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `❌ Validation error: ${formattedErrors.join(", ")}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      // Handle other errors
+      return {
+        content: [
+          {
+            type: "text",
+            text: `❌ Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+
+  // Handle prompt listing
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: PROMPTS,
+  }));
+
+  // Handle prompt rendering (filled in with the caller's current tasks)
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    getPrompt(request.params.name, request.params.arguments, session)
+  );
+
+  // Handle resource listing
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: RESOURCES,
+  }));
+
+  // Handle resource template listing
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+
+  // Handle resource reading
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+    readResource(request.params.uri, session.workspaceId)
+  );
+
+  // Handle resource subscriptions (resolved in the current workspace)
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await subscriptions.subscribe(request.params.uri, session.workspaceId);
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  return server;
+}
+
+/**
+ * Whether a host name or address only accepts connections from this machine
+ */
+function isLoopback(host: string): boolean {
+  return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+/**
+ * On SIGINT or SIGTERM, stop the transport and close storage (checkpointing
+ * SQLite's write-ahead log) before exiting
+ */
+function shutdownOnSignal(stopTransport: () => Promise<void>): void {
+  const shutdown = async () => {
+    try {
+      await stopTransport();
+    } catch (error) {
+      console.error("Failed to stop the transport:", error);
+    }
+    closeDatabase?.();
+    process.exit(0);
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+/**
+ * Print how the stored data compares with this server's schema (--check),
+ * returning 0 when it is up to date and 1 otherwise
+ */
+async function checkSchema(): Promise<number> {
+  const status = await schema.schemaStatus();
+  console.log(`Storage: ${status.backend} (${status.location})`);
+  console.log(
+    `Schema version: ${status.version} (latest: ${status.latestVersion})`
+  );
+
+  if (status.version > status.latestVersion) {
+    console.log("❌ Data was written by a newer server; upgrade this one");
+    return 1;
   }
-});
+  if (status.pending.length === 0) {
+    console.log("✅ Up to date");
+    return 0;
+  }
+
+  console.log(`⏳ ${status.pending.length} pending migration(s):`);
+  for (const step of status.pending) {
+    console.log(`  ${step.version}. ${step.description}`);
+  }
+  return 1;
+}
 
-// Handle prompt listing (we don't have any prompts, return empty list)
-server.setRequestHandler(ListPromptsRequestSchema, async () => ({
-  prompts: [],
-}));
+/**
+ * Bring stored data up to the latest schema version
+ */
+async function migrateSchema(): Promise<void> {
+  const result = await schema.migrate();
+  if (result.backup) {
+    console.error(`Backed up data to ${result.backup}`);
+  }
+  for (const step of result.applied) {
+    console.error(`Applied migration ${step.version}: ${step.description}`);
+  }
+}
 
-// Handle resource listing
-server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-  resources: [
-    {
-      uri: "tasks://list",
-      name: "All Tasks (JSON)",
-      description: "Get all tasks in JSON format",
-      mimeType: "application/json",
-    },
-  ],
-}));
-
-// Handle resource reading
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-  const { uri } = request.params;
-
-  if (uri === "tasks://list") {
-    const storage = await loadTasks();
-    return {
-      contents: [
-        {
-          uri: "tasks://list",
-          text: JSON.stringify(storage.tasks, null, 2),
-          mimeType: "application/json",
-        },
-      ],
-    };
+/**
+ * Copy all data into the other backend (--migrate-storage <file|db>),
+ * printing counts and checksums and returning 0 when the copy is verified
+ */
+async function migrateStorageCommand(
+  target: string | undefined,
+  removeSource: boolean
+): Promise<number> {
+  if (!target || !["file", "db", "database"].includes(target)) {
+    console.error("Usage: --migrate-storage <file|db> [--remove-source]");
+    return 2;
   }
 
-  throw new Error(`Unknown resource: ${uri}`);
-});
+  const report = await migrateStorage(parseStorageType(target), removeSource);
+  console.log(`Copied ${report.from} storage to ${report.to} storage`);
+  for (const [name, check] of [
+    ["Tasks", report.tasks],
+    ["Workspaces", report.workspaces],
+    ["History", report.history],
+    ["Time entries", report.timeEntries],
+    ["Sent reminders", report.sentReminders],
+  ] as const) {
+    const ok =
+      check.source === check.target &&
+      check.sourceChecksum === check.targetChecksum;
+    console.log(
+      `${ok ? "✅" : "❌"} ${name}: ${check.source} → ${check.target} (sha256 ${check.sourceChecksum.slice(0, 12)} → ${check.targetChecksum.slice(0, 12)})`
+    );
+  }
+
+  const { nextTaskNumber } = report;
+  console.log(
+    `${nextTaskNumber.source === nextTaskNumber.target ? "✅" : "❌"} Next task number: ${nextTaskNumber.source} → ${nextTaskNumber.target}`
+  );
+
+  if (report.rejected.length > 0) {
+    console.log(`⚠️ ${report.rejected.length} task(s) rejected by the target:`);
+    for (const { id, reason } of report.rejected) {
+      console.log(`  ${id}: ${reason}`);
+    }
+  }
+
+  switch (report.source) {
+    case "removed":
+      console.log("🗑️ Source data removed");
+      break;
+    case "backed-up":
+      console.log("📦 Source kept as read-only backup:");
+      report.backupFiles.forEach((file) => console.log(`  ${file}`));
+      break;
+    case "kept":
+      console.log("Source data left in place; fix the problems above first");
+  }
+
+  if (report.source !== "kept") {
+    console.log(`Set STORAGE_TYPE=${report.to === "database" ? "db" : "file"}`);
+  }
+  return report.verified && report.rejected.length === 0 ? 0 : 1;
+}
 
 // Start the server
 async function main() {
+  // --check, --migrate and --migrate-storage work on the data, then exit
+  if (process.argv.includes("--check")) {
+    process.exitCode = await checkSchema();
+    return;
+  }
+  const migrateStorageIndex = process.argv.indexOf("--migrate-storage");
+  if (migrateStorageIndex !== -1) {
+    process.exitCode = await migrateStorageCommand(
+      process.argv[migrateStorageIndex + 1],
+      process.argv.includes("--remove-source")
+    );
+    return;
+  }
+  if (process.argv.includes("--migrate")) {
+    await migrateSchema();
+    console.error("Schema is up to date");
+    return;
+  }
+
+  // Upgrade data left by an older version before serving requests
+  await migrateSchema();
+  // Purges change what subscribed resources return, like tool calls
+  await startTrashPurger(publishChanges);
+  startReminderScheduler();
+
+  if (TRANSPORT === "http") {
+    // Without keys every caller is an admin, so stay off the network
+    const open = AUTH_ENABLED || ALLOW_UNAUTHENTICATED_HTTP;
+    const host = HTTP_HOST || (open ? "0.0.0.0" : "127.0.0.1");
+    if (!open && !isLoopback(host)) {
+      throw new Error(
+        `No API keys configured: refusing to listen on ${host}. Set AUTH_KEYS, or ALLOW_UNAUTHENTICATED_HTTP=true on a network you fully trust.`
+      );
+    }
+    if (!open) {
+      console.error(
+        `No API keys configured: listening on ${host} only. Set AUTH_KEYS to accept remote clients.`
+      );
+    }
+    const stopHttpServer = await startHttpServer(
+      createServer,
+      HTTP_PORT,
+      host,
+      HTTP_ALLOWED_HOSTS
+    );
+    shutdownOnSignal(stopHttpServer);
+    return;
+  }
+
+  // Stdio callers identify themselves with TASK_API_KEY
+  const identity = authenticate(process.env.TASK_API_KEY);
+  if (!identity) {
+    throw new Error(
+      "Authentication is enabled: set TASK_API_KEY to a valid key"
+    );
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer(identity).connect(transport);
   console.error("Task Manager MCP server running on stdio");
+  shutdownOnSignal(() => transport.close());
 }
 
 // Handle errors
@@ -0,0 +1,310 @@
+/**
+ * Copy the whole dataset between the JSON file and SQLite backends
+ *
+ * Used by `--migrate-storage <file|db>`. Both backends are opened side by
+ * side in DATA_DIR, and the target must not hold any tasks yet. Tasks are
+ * checked against StoredTaskSchema before writing, so records the target
+ * would refuse are reported instead of aborting the copy. The source is
+ * retired only when nothing was rejected and the counts and checksums read
+ * back from the target match; otherwise the target is emptied again, so
+ * the command can be retried.
+ */
+
+import { createHash } from "crypto";
+import fs from "fs-extra";
+import {
+  Task,
+  CopyCheck,
+  StorageBackend,
+  StorageMigrationReport,
+  StoredTaskSchema,
+} from "./types.js";
+import { StorageModule, loadStorageModule } from "./storage-router.js";
+import { backupPath } from "./migrations.js";
+
+/**
+ * JSON with sorted keys, leaving out empty values that a backend may drop
+ * (SQLite stores "" and [] as NULL)
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(
+        ([, v]) =>
+          v !== undefined &&
+          v !== null &&
+          v !== "" &&
+          !(Array.isArray(v) && v.length === 0)
+      )
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 over the canonical form of a list of records
+ */
+function checksum(records: unknown[]): string {
+  const hash = createHash("sha256");
+  for (const record of records) {
+    hash.update(canonicalJson(record) + "\n");
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Tasks in a stable order with link lists sorted, since SQLite doesn't keep
+ * the order dependencies were added in
+ */
+function comparableTasks(tasks: Task[]): Task[] {
+  return [...tasks]
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+    .map((task) => ({
+      ...task,
+      blockedBy: task.blockedBy && [...task.blockedBy].sort(),
+    }));
+}
+
+/**
+ * Compare record counts and checksums of both sides
+ */
+function compare(source: unknown[], target: unknown[]): CopyCheck {
+  return {
+    source: source.length,
+    target: target.length,
+    sourceChecksum: checksum(source),
+    targetChecksum: checksum(target),
+  };
+}
+
+/**
+ * Refuse to copy into a store that already holds data
+ */
+async function assertEmpty(
+  target: StorageModule,
+  to: StorageBackend
+): Promise<void> {
+  const existing = await target.countTasks({ deleted: "include" });
+  const existingHistory = (await target.getHistory("")).length;
+  const existingTime = (await target.queryTimeEntries()).length;
+  if (existing > 0 || existingHistory > 0 || existingTime > 0) {
+    throw new Error(
+      `The ${to} storage already holds ${existing} task(s), ${existingHistory} history entries and ${existingTime} time entries; migrate-storage only copies into an empty store`
+    );
+  }
+}
+
+/**
+ * Whether the target holds everything the source does
+ */
+function isComplete(report: StorageMigrationReport): boolean {
+  return report.verified && report.rejected.length === 0;
+}
+
+/**
+ * Thrown inside the target's lock to roll back an incomplete copy
+ */
+class IncompleteCopyError extends Error {
+  constructor(readonly report: StorageMigrationReport) {
+    super("The copy doesn't match the source");
+    this.name = "IncompleteCopyError";
+  }
+}
+
+/**
+ * Copy the dataset from source to target, read it back and compare
+ */
+async function copyDataset(
+  source: StorageModule,
+  target: StorageModule,
+  from: StorageBackend,
+  to: StorageBackend
+): Promise<StorageMigrationReport> {
+  // Read the whole dataset, including trashed tasks in every workspace
+  const tasks = await source.queryTasks({ deleted: "include" });
+  const workspaces = await source.listWorkspaces();
+  const history = await source.getHistory("");
+  const timeEntries = await source.queryTimeEntries();
+  const sentReminders = await source.querySentReminders();
+
+  const accepted: Task[] = [];
+  const rejected: StorageMigrationReport["rejected"] = [];
+  const seen = new Set<string>();
+  for (const task of tasks) {
+    const result = StoredTaskSchema.safeParse(task);
+    if (!result.success) {
+      rejected.push({
+        id: task.id || "(missing ID)",
+        reason: result.error.errors
+          .map((e) => `${e.path.join(".")}: ${e.message}`)
+          .join("; "),
+      });
+    } else if (seen.has(task.id)) {
+      rejected.push({ id: task.id, reason: "Duplicate task ID" });
+    } else {
+      seen.add(task.id);
+      accepted.push(result.data);
+    }
+  }
+
+  // The target already has its own default workspace
+  const targetWorkspaceIds = new Set(
+    (await target.listWorkspaces()).map((w) => w.id)
+  );
+  for (const workspace of workspaces) {
+    if (!targetWorkspaceIds.has(workspace.id)) {
+      await target.insertWorkspace(workspace);
+    }
+  }
+  await target.insertTasks(accepted);
+  // Numbers of purged tasks stay used, so their history keeps its meaning
+  const nextTaskNumber = await source.nextTaskNumber();
+  await target.reserveTaskNumbers(nextTaskNumber);
+  await target.appendHistory(history);
+  await target.insertTimeEntries(timeEntries);
+  await target.insertSentReminders(sentReminders);
+
+  // Read everything back from the target and compare
+  const report: StorageMigrationReport = {
+    from,
+    to,
+    tasks: compare(
+      comparableTasks(accepted),
+      comparableTasks(await target.queryTasks({ deleted: "include" }))
+    ),
+    workspaces: compare(
+      workspaces.map((w) => w.id).sort(),
+      (await target.listWorkspaces()).map((w) => w.id).sort()
+    ),
+    history: compare(history, await target.getHistory("")),
+    timeEntries: compare(timeEntries, await target.queryTimeEntries()),
+    sentReminders: compare(
+      sentReminders,
+      await target.querySentReminders()
+    ),
+    nextTaskNumber: {
+      source: nextTaskNumber,
+      target: await target.nextTaskNumber(),
+    },
+    rejected,
+    verified: false,
+    source: "kept",
+    backupFiles: [],
+  };
+  report.verified =
+    report.nextTaskNumber.source === report.nextTaskNumber.target &&
+    [
+      report.tasks,
+      report.workspaces,
+      report.history,
+      report.timeEntries,
+      report.sentReminders,
+    ].every(
+      (check) =>
+        check.source === check.target &&
+        check.sourceChecksum === check.targetChecksum
+    );
+
+  return report;
+}
+
+/**
+ * Copy the dataset under the target's lock, leaving the target empty again
+ * if the copy fails or doesn't match
+ */
+async function copyOrRollBack(
+  source: StorageModule,
+  target: StorageModule,
+  from: StorageBackend,
+  to: StorageBackend
+): Promise<StorageMigrationReport> {
+  try {
+    return await target.withLock(async () => {
+      try {
+        const report = await copyDataset(source, target, from, to);
+        if (!isComplete(report)) {
+          throw new IncompleteCopyError(report);
+        }
+        return report;
+      } catch (error) {
+        // SQLite rolls the transaction back; the file backend wrote as it went
+        if (to === "file") {
+          for (const file of target.dataFiles()) {
+            await fs.remove(file);
+          }
+        }
+        throw error;
+      }
+    });
+  } catch (error) {
+    if (error instanceof IncompleteCopyError) {
+      return error.report;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Move the source's files to DATA_DIR/backups and make them read-only, or
+ * delete them
+ */
+async function retireSource(
+  source: StorageModule,
+  report: StorageMigrationReport,
+  removeSource: boolean
+): Promise<void> {
+  const { version } = await source.schemaStatus();
+  source.closeDatabase?.();
+  for (const file of source.dataFiles()) {
+    if (!(await fs.pathExists(file))) continue;
+
+    if (removeSource) {
+      await fs.remove(file);
+    } else {
+      const backup = backupPath(file, version);
+      await fs.move(file, backup);
+      await fs.chmod(backup, 0o444);
+      report.backupFiles.push(backup);
+    }
+  }
+  report.source = removeSource ? "removed" : "backed-up";
+}
+
+/**
+ * Copy every task, workspace, history entry, time entry and sent reminder
+ * to the target backend, along with the next task number
+ *
+ * The source stays locked during the copy and until it is retired, so a
+ * server still running on it can't change it halfway or after it was
+ * copied. After a verified copy the source files are moved to
+ * DATA_DIR/backups and made read-only, or deleted with removeSource.
+ */
+export async function migrateStorage(
+  to: StorageBackend,
+  removeSource: boolean
+): Promise<StorageMigrationReport> {
+  const from: StorageBackend = to === "file" ? "database" : "file";
+  const source = await loadStorageModule(from);
+  const target = await loadStorageModule(to);
+
+  // Both sides must be readable by this version first
+  await source.migrate();
+  await target.migrate();
+
+  return source.withLock(async () => {
+    await assertEmpty(target, to);
+    const report = await copyOrRollBack(source, target, from, to);
+
+    // Leave the source alone if anything is missing from the target
+    if (isComplete(report)) {
+      await retireSource(source, report, removeSource);
+    }
+    return report;
+  });
+}
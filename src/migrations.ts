@@ -0,0 +1,391 @@
+/**
+ * Versioned schema migrations for both storage backends
+ *
+ * tasks.json records its version in a schemaVersion field and tasks.db in
+ * PRAGMA user_version; data written before versioning counts as version 0.
+ * Each step takes the data from version - 1 to its version, and steps run
+ * in order after the data has been copied to DATA_DIR/backups.
+ *
+ * To change what is stored, append a step to the backend's list. Never
+ * edit a step that has been released.
+ */
+
+import type Database from "better-sqlite3";
+import fs from "fs-extra";
+import path from "path";
+import {
+  TaskStorage,
+  MigrationInfo,
+  SchemaStatus,
+  DEFAULT_WORKSPACE,
+} from "./types.js";
+import { SEARCH_COLUMNS } from "./search.js";
+
+// A migration step applied to data of type T
+export interface Migration<T> extends MigrationInfo {
+  up: (target: T) => void;
+}
+
+// Steps for tasks.json (applied in memory, then written once)
+export const FILE_MIGRATIONS: Migration<TaskStorage>[] = [
+  {
+    version: 1,
+    description: "Move tasks into the default workspace and add a registry",
+    up: (storage) => {
+      for (const task of storage.tasks) {
+        task.workspaceId ??= DEFAULT_WORKSPACE;
+      }
+
+      storage.workspaces ??= [];
+      if (!storage.workspaces.some((w) => w.id === DEFAULT_WORKSPACE)) {
+        storage.workspaces.unshift({
+          id: DEFAULT_WORKSPACE,
+          createdBy: "system",
+          createdAt: storage.lastUpdated,
+        });
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Start every task at version 1",
+    up: (storage) => {
+      for (const task of storage.tasks) {
+        task.version ??= 1;
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "Number tasks in creation order for TASK-<n> keys",
+    up: (storage) => {
+      const ordered = [...storage.tasks].sort((a, b) =>
+        a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0
+      );
+      ordered.forEach((task, i) => (task.number = i + 1));
+      storage.nextTaskNumber = ordered.length + 1;
+    },
+  },
+  {
+    version: 4,
+    description: "Add a time log for timers and logged time",
+    up: (storage) => {
+      storage.timeEntries ??= [];
+    },
+  },
+  {
+    version: 5,
+    description: "Record reminders sent by the scheduler",
+    up: (storage) => {
+      storage.sentReminders ??= [];
+    },
+  },
+];
+
+/**
+ * Create the full-text index over title, description and category, kept in
+ * sync with the tasks table by triggers
+ *
+ * Each step passes its own tokenizer, so that a step keeps creating the
+ * index it always did and a later tokenizer change needs a step of its own.
+ */
+function createSearchIndex(db: Database.Database, tokenize: string): void {
+  const ftsColumns = SEARCH_COLUMNS.join(", ");
+  const hasFtsTable = db
+    .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?")
+    .get("tasks_fts");
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS tasks_fts USING fts5(
+      ${ftsColumns},
+      content = 'tasks',
+      content_rowid = 'rowid',
+      tokenize = '${tokenize}'
+    );
+    CREATE TRIGGER IF NOT EXISTS tasks_fts_insert AFTER INSERT ON tasks
+    BEGIN
+      INSERT INTO tasks_fts (rowid, ${ftsColumns})
+      VALUES (new.rowid, new.title, new.description, new.category);
+    END;
+    CREATE TRIGGER IF NOT EXISTS tasks_fts_delete AFTER DELETE ON tasks
+    BEGIN
+      INSERT INTO tasks_fts (tasks_fts, rowid, ${ftsColumns})
+      VALUES ('delete', old.rowid, old.title, old.description,
+        old.category);
+    END;
+    CREATE TRIGGER IF NOT EXISTS tasks_fts_update AFTER UPDATE ON tasks
+    BEGIN
+      INSERT INTO tasks_fts (tasks_fts, rowid, ${ftsColumns})
+      VALUES ('delete', old.rowid, old.title, old.description,
+        old.category);
+      INSERT INTO tasks_fts (rowid, ${ftsColumns})
+      VALUES (new.rowid, new.title, new.description, new.category);
+    END;
+  `);
+  if (!hasFtsTable) {
+    // Index tasks stored before the table was created
+    db.exec("INSERT INTO tasks_fts (tasks_fts) VALUES ('rebuild')");
+  }
+}
+
+// Steps for tasks.db (each one runs in its own transaction)
+export const DB_MIGRATIONS: Migration<Database.Database>[] = [
+  {
+    version: 1,
+    description: "Create tables and indexes, completing older databases",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tasks (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          description TEXT,
+          priority TEXT NOT NULL CHECK(priority IN ('low', 'medium', 'high')),
+          category TEXT,
+          dueDate TEXT,
+          status TEXT NOT NULL
+            CHECK(status IN ('pending', 'in_progress', 'completed')),
+          createdAt TEXT NOT NULL,
+          completedAt TEXT,
+          parentId TEXT,
+          recurrence TEXT,
+          seriesId TEXT,
+          occurrence INTEGER,
+          workspaceId TEXT NOT NULL DEFAULT 'default',
+          createdBy TEXT,
+          assignee TEXT,
+          deletedAt TEXT
+        )
+      `);
+
+      // Databases created before versioning may lack later columns
+      const addedColumns: Record<string, string> = {
+        parentId: "TEXT",
+        recurrence: "TEXT", // JSON-encoded RecurrenceRule
+        seriesId: "TEXT",
+        occurrence: "INTEGER",
+        workspaceId: "TEXT NOT NULL DEFAULT 'default'",
+        createdBy: "TEXT",
+        assignee: "TEXT",
+        deletedAt: "TEXT",
+      };
+      const columns = db.prepare("PRAGMA table_info(tasks)").all() as {
+        name: string;
+      }[];
+      const existingColumns = new Set(columns.map((c) => c.name));
+      for (const [name, type] of Object.entries(addedColumns)) {
+        if (!existingColumns.has(name)) {
+          db.exec(`ALTER TABLE tasks ADD COLUMN ${name} ${type}`);
+        }
+      }
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_status ON tasks(status);
+        CREATE INDEX IF NOT EXISTS idx_priority ON tasks(priority);
+        CREATE INDEX IF NOT EXISTS idx_category ON tasks(category);
+        CREATE INDEX IF NOT EXISTS idx_parent ON tasks(parentId);
+        CREATE INDEX IF NOT EXISTS idx_series ON tasks(seriesId);
+        CREATE INDEX IF NOT EXISTS idx_workspace ON tasks(workspaceId);
+        CREATE INDEX IF NOT EXISTS idx_assignee ON tasks(assignee);
+        CREATE INDEX IF NOT EXISTS idx_deleted ON tasks(deletedAt);
+      `);
+
+      // Workspace registry, always containing the default workspace
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS workspaces (
+          id TEXT PRIMARY KEY,
+          createdBy TEXT NOT NULL,
+          createdAt TEXT NOT NULL
+        )
+      `);
+      db.prepare(
+        "INSERT OR IGNORE INTO workspaces (id, createdBy, createdAt) VALUES (?, ?, ?)"
+      ).run(DEFAULT_WORKSPACE, "system", new Date().toISOString());
+
+      // Dependency links ("taskId is blocked by blockedById") and tags
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS task_dependencies (
+          taskId TEXT NOT NULL,
+          blockedById TEXT NOT NULL,
+          PRIMARY KEY (taskId, blockedById)
+        );
+        CREATE INDEX IF NOT EXISTS idx_blocked_by
+          ON task_dependencies(blockedById);
+
+        CREATE TABLE IF NOT EXISTS task_tags (
+          taskId TEXT NOT NULL,
+          tag TEXT NOT NULL,
+          PRIMARY KEY (taskId, tag)
+        );
+        CREATE INDEX IF NOT EXISTS idx_tag ON task_tags(tag);
+      `);
+
+      // Append-only history
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS task_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          taskId TEXT NOT NULL,
+          workspaceId TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          tool TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          action TEXT NOT NULL CHECK(action IN ('create', 'update', 'delete')),
+          changes TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_history_task ON task_history(taskId);
+      `);
+
+      createSearchIndex(db, "unicode61 remove_diacritics 2");
+    },
+  },
+  {
+    version: 2,
+    description: "Start every task at version 1",
+    up: (db) => {
+      db.exec(
+        "ALTER TABLE tasks ADD COLUMN version INTEGER NOT NULL DEFAULT 1"
+      );
+    },
+  },
+  {
+    version: 3,
+    description: "Number tasks in creation order for TASK-<n> keys",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE tasks ADD COLUMN number INTEGER;
+        UPDATE tasks SET number = (
+          SELECT n FROM (
+            SELECT id, ROW_NUMBER() OVER (ORDER BY createdAt, rowid) AS n
+            FROM tasks
+          ) numbered WHERE numbered.id = tasks.id
+        );
+        CREATE INDEX idx_number ON tasks(number);
+
+        -- Named counters; "task" holds the number the next new task gets
+        CREATE TABLE counters (
+          name TEXT PRIMARY KEY,
+          value INTEGER NOT NULL
+        );
+        INSERT INTO counters (name, value)
+          SELECT 'task', COUNT(*) + 1 FROM tasks;
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: "Add task estimates and a time log",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE tasks ADD COLUMN estimateMinutes INTEGER;
+
+        CREATE TABLE time_entries (
+          id TEXT PRIMARY KEY,
+          taskId TEXT NOT NULL,
+          workspaceId TEXT NOT NULL,
+          userId TEXT NOT NULL,
+          startedAt TEXT NOT NULL,
+          endedAt TEXT,
+          minutes INTEGER NOT NULL,
+          note TEXT
+        );
+        CREATE INDEX idx_time_task ON time_entries(taskId);
+
+        -- At most one running timer per user
+        CREATE UNIQUE INDEX idx_time_running
+          ON time_entries(userId) WHERE endedAt IS NULL;
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: "Add reminder settings and record sent reminders",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE tasks ADD COLUMN remindAt TEXT; -- JSON list of days
+        ALTER TABLE tasks ADD COLUMN snoozedUntil TEXT;
+
+        CREATE TABLE sent_reminders (
+          key TEXT PRIMARY KEY,
+          taskId TEXT NOT NULL,
+          workspaceId TEXT NOT NULL,
+          sentAt TEXT NOT NULL
+        );
+        CREATE INDEX idx_reminder_task ON sent_reminders(taskId);
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: "Rebuild the search index with stemming",
+    up: (db) => {
+      db.exec(`
+        DROP TRIGGER IF EXISTS tasks_fts_insert;
+        DROP TRIGGER IF EXISTS tasks_fts_delete;
+        DROP TRIGGER IF EXISTS tasks_fts_update;
+        DROP TABLE IF EXISTS tasks_fts;
+      `);
+      createSearchIndex(db, "porter unicode61 remove_diacritics 2");
+    },
+  },
+];
+
+/**
+ * Version reached after every step of a backend has run
+ */
+export function latestVersion(migrations: MigrationInfo[]): number {
+  return Math.max(0, ...migrations.map((m) => m.version));
+}
+
+/**
+ * Steps still to apply to data at a version, oldest first
+ */
+export function pendingMigrations<T>(
+  migrations: Migration<T>[],
+  version: number
+): Migration<T>[] {
+  return migrations
+    .filter((m) => m.version > version)
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Describe stored data against a backend's migrations
+ */
+export function describeSchema<T>(
+  backend: SchemaStatus["backend"],
+  location: string,
+  version: number,
+  migrations: Migration<T>[]
+): SchemaStatus {
+  return {
+    backend,
+    location,
+    version,
+    latestVersion: latestVersion(migrations),
+    pending: pendingMigrations(migrations, version).map(
+      ({ version, description }) => ({ version, description })
+    ),
+  };
+}
+
+/**
+ * Reject data written by a newer server, which this one can't read safely
+ */
+export function assertSupported(status: SchemaStatus): void {
+  if (status.version > status.latestVersion) {
+    throw new Error(
+      `${status.location} has schema version ${status.version}, but this server only supports up to ${status.latestVersion}; upgrade the server or restore a backup`
+    );
+  }
+}
+
+/**
+ * Path for a backup of a data file taken at a schema version, creating the
+ * backups directory next to it
+ */
+export function backupPath(dataFile: string, version: number): string {
+  const dir = path.join(path.dirname(dataFile), "backups");
+  fs.ensureDirSync(dir);
+
+  const { name, ext } = path.parse(dataFile);
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return path.join(dir, `${name}.v${version}.${stamp}${ext}`);
+}
@@ -0,0 +1,538 @@
+/**
+ * JSON Schemas for the structured content returned by each tool
+ *
+ * Every tool returns a human-readable text block plus a structuredContent
+ * object matching its outputSchema here. Error results (isError) carry
+ * text only. Optional task fields are omitted rather than set to null.
+ */
+
+// Task as stored (see Task in types.ts)
+const TASK_SCHEMA = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    workspaceId: { type: "string" },
+    title: { type: "string" },
+    description: { type: "string" },
+    priority: { type: "string", enum: ["low", "medium", "high"] },
+    category: { type: "string" },
+    tags: { type: "array", items: { type: "string" } },
+    dueDate: { type: "string", description: "YYYY-MM-DD" },
+    status: { type: "string", enum: ["pending", "in_progress", "completed"] },
+    createdAt: { type: "string", description: "ISO timestamp" },
+    completedAt: { type: "string", description: "ISO timestamp" },
+    parentId: { type: "string" },
+    blockedBy: { type: "array", items: { type: "string" } },
+    recurrence: {
+      type: "object",
+      properties: {
+        frequency: { type: "string", enum: ["daily", "weekly", "monthly"] },
+        interval: { type: "number" },
+        byWeekday: { type: "array", items: { type: "string" } },
+        until: { type: "string" },
+        count: { type: "number" },
+        monthDay: {
+          type: "number",
+          description: "Day of the month a monthly series keeps to",
+        },
+      },
+      required: ["frequency", "interval"],
+    },
+    seriesId: { type: "string" },
+    occurrence: { type: "number" },
+    createdBy: { type: "string" },
+    assignee: { type: "string" },
+    deletedAt: { type: "string", description: "ISO timestamp" },
+    version: { type: "number", description: "Incremented on every write" },
+    number: { type: "number", description: "Sequential, shown as TASK-<n>" },
+    estimateMinutes: { type: "number", description: "Expected effort" },
+    remindAt: {
+      type: "array",
+      items: { type: "number" },
+      description: "Days before the due date to send reminders",
+    },
+    snoozedUntil: { type: "string", description: "ISO timestamp" },
+  },
+  required: [
+    "id",
+    "workspaceId",
+    "title",
+    "priority",
+    "status",
+    "createdAt",
+    "version",
+  ],
+};
+
+const TASK_LIST_SCHEMA = { type: "array", items: TASK_SCHEMA };
+
+const WORKSPACE_SCHEMA = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    createdBy: { type: "string" },
+    createdAt: { type: "string" },
+  },
+  required: ["id", "createdBy", "createdAt"],
+};
+
+// Paging fields shared by list_tasks and search_tasks
+const PAGE_PROPERTIES = {
+  total: { type: "number", description: "Matches across all pages" },
+  offset: { type: "number", description: "Position of the first result" },
+  nextCursor: {
+    type: "string",
+    description: "Token for the next page (absent on the last page)",
+  },
+};
+
+// Result of undo and redo
+const OPERATIONS_SCHEMA = {
+  type: "object",
+  properties: {
+    operations: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          tool: { type: "string" },
+          changes: { type: "number", description: "Task changes replayed" },
+        },
+        required: ["tool", "changes"],
+      },
+    },
+  },
+  required: ["operations"],
+};
+
+// Time spent on a task (see TimeEntry in types.ts)
+const TIME_ENTRY_SCHEMA = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    taskId: { type: "string" },
+    workspaceId: { type: "string" },
+    userId: { type: "string" },
+    startedAt: { type: "string", description: "ISO timestamp" },
+    endedAt: {
+      type: "string",
+      description: "ISO timestamp (absent while the timer is running)",
+    },
+    minutes: { type: "number", description: "0 while the timer is running" },
+    note: { type: "string" },
+  },
+  required: ["id", "taskId", "workspaceId", "userId", "startedAt", "minutes"],
+};
+
+// Result of start_timer and log_time
+const TIME_ENTRY_RESULT_SCHEMA = {
+  type: "object",
+  properties: { entry: TIME_ENTRY_SCHEMA, task: TASK_SCHEMA },
+  required: ["entry", "task"],
+};
+
+// Result of tools that act on a single task
+const SINGLE_TASK_SCHEMA = {
+  type: "object",
+  properties: { task: TASK_SCHEMA },
+  required: ["task"],
+};
+
+const COUNTS_SCHEMA = {
+  type: "object",
+  additionalProperties: { type: "number" },
+};
+
+// Output schema of each tool, keyed by tool name
+export const OUTPUT_SCHEMAS = {
+  create_task: SINGLE_TASK_SCHEMA,
+  list_tasks: {
+    type: "object",
+    properties: {
+      tasks: TASK_LIST_SCHEMA,
+      ...PAGE_PROPERTIES,
+      summary: {
+        type: "object",
+        description: "Task counts by status across the workspace",
+        properties: {
+          pending: { type: "number" },
+          inProgress: { type: "number" },
+          completed: { type: "number" },
+        },
+        required: ["pending", "inProgress", "completed"],
+      },
+    },
+    required: ["tasks", "total", "offset", "summary"],
+  },
+  update_task: {
+    type: "object",
+    properties: {
+      task: TASK_SCHEMA,
+      nextOccurrence: TASK_SCHEMA,
+    },
+    required: ["task"],
+  },
+  bulk_update: {
+    type: "object",
+    properties: {
+      dryRun: { type: "boolean" },
+      tasks: TASK_LIST_SCHEMA,
+      notFound: { type: "array", items: { type: "string" } },
+      scheduled: {
+        ...TASK_LIST_SCHEMA,
+        description: "Next occurrences created for completed recurring tasks",
+      },
+    },
+    required: ["dryRun", "tasks", "notFound", "scheduled"],
+  },
+  delete_task: {
+    type: "object",
+    properties: {
+      task: TASK_SCHEMA,
+      subtaskPolicy: { type: "string", enum: ["cascade", "reparent"] },
+      subtasks: {
+        ...TASK_LIST_SCHEMA,
+        description: "Subtasks trashed (cascade) or moved up a level (reparent)",
+      },
+    },
+    required: ["task", "subtaskPolicy", "subtasks"],
+  },
+  complete_task: {
+    type: "object",
+    properties: {
+      task: TASK_SCHEMA,
+      subtasks: { ...TASK_LIST_SCHEMA, description: "Subtasks completed too" },
+      openSubtasks: {
+        ...TASK_LIST_SCHEMA,
+        description: "Subtasks left open (warn policy)",
+      },
+      nextOccurrences: TASK_LIST_SCHEMA,
+      unblocked: TASK_LIST_SCHEMA,
+    },
+    required: [
+      "task",
+      "subtasks",
+      "openSubtasks",
+      "nextOccurrences",
+      "unblocked",
+    ],
+  },
+  add_subtask: {
+    type: "object",
+    properties: { task: TASK_SCHEMA, parent: TASK_SCHEMA },
+    required: ["task", "parent"],
+  },
+  move_task: {
+    type: "object",
+    properties: {
+      task: TASK_SCHEMA,
+      parent: { ...TASK_SCHEMA, description: "Absent for the top level" },
+    },
+    required: ["task"],
+  },
+  search_tasks: {
+    type: "object",
+    properties: {
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            task: TASK_SCHEMA,
+            score: {
+              type: "number",
+              description: "BM25 relevance (0 when no text terms were given)",
+            },
+            snippet: { type: "string" },
+          },
+          required: ["task", "score"],
+        },
+      },
+      ...PAGE_PROPERTIES,
+    },
+    required: ["results", "total", "offset"],
+  },
+  get_task_stats: {
+    type: "object",
+    properties: {
+      total: { type: "number" },
+      completionRate: { type: "number", description: "Percentage" },
+      byStatus: COUNTS_SCHEMA,
+      byPriority: COUNTS_SCHEMA,
+      byCategory: COUNTS_SCHEMA,
+      byTag: COUNTS_SCHEMA,
+      overdue: { type: "number" },
+      dueSoon: { type: "number", description: "Open tasks due within 7 days" },
+      timeLogged: { type: "number", description: "Minutes logged" },
+      timeByCategory: {
+        ...COUNTS_SCHEMA,
+        description: "Minutes logged per category",
+      },
+      estimateAccuracy: {
+        type: "object",
+        description:
+          "Logged against estimated time over completed tasks with both (absent when there are none)",
+        properties: {
+          tasks: { type: "number" },
+          estimatedMinutes: { type: "number" },
+          loggedMinutes: { type: "number" },
+          ratio: {
+            type: "number",
+            description: "Logged ÷ estimated; above 1 means underestimated",
+          },
+        },
+        required: ["tasks", "estimatedMinutes", "loggedMinutes", "ratio"],
+      },
+      recurringSeries: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            seriesId: { type: "string" },
+            title: { type: "string" },
+            currentStreak: { type: "number" },
+            bestStreak: { type: "number" },
+            onTime: { type: "number" },
+            completed: { type: "number" },
+          },
+          required: [
+            "seriesId",
+            "title",
+            "currentStreak",
+            "bestStreak",
+            "onTime",
+            "completed",
+          ],
+        },
+      },
+    },
+    required: [
+      "total",
+      "completionRate",
+      "byStatus",
+      "byPriority",
+      "byCategory",
+      "byTag",
+      "overdue",
+      "dueSoon",
+      "recurringSeries",
+      "timeLogged",
+      "timeByCategory",
+    ],
+  },
+  clear_completed: {
+    type: "object",
+    properties: {
+      tasks: { ...TASK_LIST_SCHEMA, description: "Tasks moved to the trash" },
+      kept: {
+        ...TASK_LIST_SCHEMA,
+        description: "Completed tasks kept because of open subtasks",
+      },
+      remaining: { type: "number" },
+    },
+    required: ["tasks", "kept", "remaining"],
+  },
+  add_dependency: {
+    type: "object",
+    properties: { task: TASK_SCHEMA, blocker: TASK_SCHEMA },
+    required: ["task", "blocker"],
+  },
+  remove_dependency: {
+    type: "object",
+    properties: {
+      task: TASK_SCHEMA,
+      removedBlockerId: { type: "string" },
+    },
+    required: ["task", "removedBlockerId"],
+  },
+  get_next_actions: {
+    type: "object",
+    properties: { tasks: TASK_LIST_SCHEMA },
+    required: ["tasks"],
+  },
+  create_workspace: {
+    type: "object",
+    properties: { workspace: WORKSPACE_SCHEMA },
+    required: ["workspace"],
+  },
+  switch_workspace: {
+    type: "object",
+    properties: {
+      workspace: WORKSPACE_SCHEMA,
+      taskCount: { type: "number" },
+    },
+    required: ["workspace", "taskCount"],
+  },
+  list_workspaces: {
+    type: "object",
+    properties: {
+      workspaces: {
+        type: "array",
+        items: {
+          ...WORKSPACE_SCHEMA,
+          properties: {
+            ...WORKSPACE_SCHEMA.properties,
+            taskCount: { type: "number" },
+            current: { type: "boolean" },
+          },
+          required: [...WORKSPACE_SCHEMA.required, "taskCount", "current"],
+        },
+      },
+    },
+    required: ["workspaces"],
+  },
+  assign_task: SINGLE_TASK_SCHEMA,
+  add_tags: {
+    type: "object",
+    properties: {
+      task: TASK_SCHEMA,
+      added: { type: "array", items: { type: "string" } },
+    },
+    required: ["task", "added"],
+  },
+  remove_tags: {
+    type: "object",
+    properties: {
+      task: TASK_SCHEMA,
+      removed: { type: "array", items: { type: "string" } },
+    },
+    required: ["task", "removed"],
+  },
+  list_tags: {
+    type: "object",
+    properties: {
+      tags: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            tag: { type: "string" },
+            count: { type: "number" },
+            open: { type: "number", description: "Tasks not completed" },
+          },
+          required: ["tag", "count", "open"],
+        },
+      },
+    },
+    required: ["tags"],
+  },
+  rename_tag: {
+    type: "object",
+    properties: {
+      from: { type: "string" },
+      to: { type: "string" },
+      merged: {
+        type: "boolean",
+        description: "Whether the new name was already in use",
+      },
+      tasks: { ...TASK_LIST_SCHEMA, description: "Tasks rewritten" },
+    },
+    required: ["from", "to", "merged", "tasks"],
+  },
+  export_tasks: {
+    type: "object",
+    properties: {
+      format: { type: "string" },
+      mimeType: { type: "string" },
+      count: { type: "number", description: "Number of tasks exported" },
+      content: { type: "string", description: "The exported document" },
+    },
+    required: ["format", "mimeType", "count", "content"],
+  },
+  import_tasks: {
+    type: "object",
+    properties: {
+      dryRun: { type: "boolean" },
+      imported: TASK_LIST_SCHEMA,
+      duplicates: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            line: { type: "number" },
+            title: { type: "string" },
+            dueDate: { type: "string" },
+          },
+          required: ["line", "title"],
+        },
+      },
+      errors: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            line: { type: "number" },
+            message: { type: "string" },
+          },
+          required: ["line", "message"],
+        },
+      },
+    },
+    required: ["dryRun", "imported", "duplicates", "errors"],
+  },
+  get_task_history: {
+    type: "object",
+    properties: {
+      entries: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            taskId: { type: "string" },
+            workspaceId: { type: "string" },
+            timestamp: { type: "string" },
+            tool: { type: "string" },
+            actor: { type: "string" },
+            action: { type: "string", enum: ["create", "update", "delete"] },
+            changes: {
+              type: "object",
+              description: "Before/after values keyed by field",
+            },
+          },
+          required: [
+            "taskId",
+            "workspaceId",
+            "timestamp",
+            "tool",
+            "actor",
+            "action",
+            "changes",
+          ],
+        },
+      },
+    },
+    required: ["entries"],
+  },
+  trash: {
+    type: "object",
+    properties: {
+      tasks: TASK_LIST_SCHEMA,
+      retentionDays: { type: "number" },
+    },
+    required: ["tasks", "retentionDays"],
+  },
+  restore_task: {
+    type: "object",
+    properties: {
+      task: TASK_SCHEMA,
+      subtasks: { ...TASK_LIST_SCHEMA, description: "Subtasks restored too" },
+    },
+    required: ["task", "subtasks"],
+  },
+  undo: OPERATIONS_SCHEMA,
+  redo: OPERATIONS_SCHEMA,
+  start_timer: TIME_ENTRY_RESULT_SCHEMA,
+  stop_timer: {
+    type: "object",
+    properties: {
+      entry: TIME_ENTRY_SCHEMA,
+      task: {
+        ...TASK_SCHEMA,
+        description: "The timed task (absent if it has been purged)",
+      },
+    },
+    required: ["entry"],
+  },
+  log_time: TIME_ENTRY_RESULT_SCHEMA,
+  snooze_reminder: SINGLE_TASK_SCHEMA,
+};
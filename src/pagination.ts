@@ -0,0 +1,134 @@
+/**
+ * Sorting and paging shared by the storage backends and list tools
+ *
+ * Every sort ends with the task ID as a tie-breaker so that pages never
+ * overlap or skip tasks. Tasks without a value for the sort field (no due
+ * date, not completed) always come last. storage-db.ts builds the same
+ * order in SQL.
+ */
+
+import { createHash } from "crypto";
+import { Task, QueryOptions, SortField, SortOrder } from "./types.js";
+import { priorityRank } from "./query.js";
+
+// Natural direction of each sort field when sortOrder is omitted
+export const DEFAULT_SORT_ORDER: Record<SortField, SortOrder> = {
+  priority: "desc", // high first
+  dueDate: "asc", // soonest first
+  createdAt: "desc", // newest first
+  title: "asc",
+  completedAt: "desc", // most recently completed first
+};
+
+/**
+ * Compare two optional values, placing missing ones last in either order
+ */
+function compareValues<T extends string | number>(
+  a: T | undefined,
+  b: T | undefined,
+  order: SortOrder
+): number {
+  if (a === undefined || b === undefined) {
+    return (a === undefined ? 1 : 0) - (b === undefined ? 1 : 0);
+  }
+  const diff = a < b ? -1 : a > b ? 1 : 0;
+  return order === "asc" ? diff : -diff;
+}
+
+/**
+ * Compare tasks by a sort field, breaking ties by due date (for priority)
+ * and then by ID
+ */
+export function compareBy(
+  sortBy: SortField,
+  sortOrder: SortOrder = DEFAULT_SORT_ORDER[sortBy]
+): (a: Task, b: Task) => number {
+  return (a, b) => {
+    let diff: number;
+    switch (sortBy) {
+      case "priority":
+        diff =
+          compareValues(
+            priorityRank(a.priority),
+            priorityRank(b.priority),
+            sortOrder
+          ) || compareValues(a.dueDate, b.dueDate, "asc");
+        break;
+      case "title":
+        diff = compareValues(
+          a.title.toLowerCase(),
+          b.title.toLowerCase(),
+          sortOrder
+        );
+        break;
+      default:
+        diff = compareValues(a[sortBy], b[sortBy], sortOrder);
+    }
+    return diff || compareValues(a.id, b.id, "asc");
+  };
+}
+
+/**
+ * Sort (when sortBy is set) and slice tasks in memory
+ */
+export function paginate<T>(
+  items: T[],
+  options: QueryOptions,
+  getTask: (item: T) => Task
+): T[] {
+  if (options.sortBy) {
+    const compare = compareBy(options.sortBy, options.sortOrder);
+    items = [...items].sort((a, b) => compare(getTask(a), getTask(b)));
+  }
+
+  const offset = options.offset ?? 0;
+  return options.limit !== undefined
+    ? items.slice(offset, offset + options.limit)
+    : items.slice(offset);
+}
+
+/**
+ * Fingerprint of the arguments that define a result set, so a cursor
+ * can't be reused with different filters or sorting
+ */
+export function queryFingerprint(args: Record<string, unknown>): string {
+  return createHash("sha256")
+    .update(JSON.stringify(args))
+    .digest("base64url")
+    .slice(0, 12);
+}
+
+/**
+ * Encode a continuation token for the page starting at offset
+ */
+export function encodeCursor(offset: number, fingerprint: string): string {
+  return Buffer.from(JSON.stringify({ offset, fingerprint })).toString(
+    "base64url"
+  );
+}
+
+/**
+ * Decode a continuation token, returning the offset it points at
+ */
+export function decodeCursor(cursor: string, fingerprint: string): number {
+  let decoded: { offset?: unknown; fingerprint?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+
+  if (
+    typeof decoded.offset !== "number" ||
+    !Number.isInteger(decoded.offset) ||
+    decoded.offset < 0
+  ) {
+    throw new Error("Invalid cursor");
+  }
+  if (decoded.fingerprint !== fingerprint) {
+    throw new Error(
+      "Cursor belongs to a different query; repeat the same filters and sorting, or drop the cursor to start over"
+    );
+  }
+  return decoded.offset;
+}
@@ -0,0 +1,353 @@
+/**
+ * Built-in prompt templates filled in with live task data
+ *
+ * Each prompt reads the caller's current workspace and returns a single
+ * user message: what to do, followed by the relevant tasks. Arguments
+ * arrive as strings and are validated with the schemas in types.ts.
+ */
+
+import type {
+  GetPromptResult,
+  Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  Task,
+  Session,
+  DailyPlanPromptSchema,
+  StandupPromptSchema,
+  WeeklyReviewPromptSchema,
+  TriageInboxPromptSchema,
+} from "./types.js";
+import { getRepository } from "./storage-router.js";
+import { computeTaskStats, todayDate } from "./stats.js";
+import { shiftDate } from "./recurrence.js";
+import { formatTaskKey } from "./task-keys.js";
+
+// Tasks listed by triage_inbox unless a limit is given
+const DEFAULT_TRIAGE_LIMIT = 20;
+
+const CATEGORY_ARGUMENT = {
+  name: "category",
+  description: "Only include tasks in this category",
+};
+
+// Prompt definitions returned by prompts/list
+export const PROMPTS: Prompt[] = [
+  {
+    name: "daily_plan",
+    description:
+      "Plan the day from overdue tasks, tasks due today and work in progress",
+    arguments: [
+      CATEGORY_ARGUMENT,
+      { name: "date", description: "Day to plan (YYYY-MM-DD, default today)" },
+    ],
+  },
+  {
+    name: "standup",
+    description:
+      "Draft a standup update: what got done, what's in progress, what's blocked",
+    arguments: [
+      CATEGORY_ARGUMENT,
+      {
+        name: "since",
+        description:
+          "Report work completed since (YYYY-MM-DD, default yesterday)",
+      },
+    ],
+  },
+  {
+    name: "weekly_review",
+    description: "Review completion rate and slipped due dates over a period",
+    arguments: [
+      CATEGORY_ARGUMENT,
+      {
+        name: "from",
+        description: "First day (YYYY-MM-DD, default 6 days before to)",
+      },
+      { name: "to", description: "Last day (YYYY-MM-DD, default today)" },
+    ],
+  },
+  {
+    name: "triage_inbox",
+    description:
+      "Sort uncategorized tasks into categories, priorities and tags",
+    arguments: [
+      {
+        name: "limit",
+        description: `Maximum number of tasks to triage (default ${DEFAULT_TRIAGE_LIMIT})`,
+      },
+    ],
+  },
+];
+
+/**
+ * One-line summary of a task for prompt data
+ */
+function summarize(task: Task, extra: string[] = []): string {
+  const key =
+    task.number !== undefined ? `${formatTaskKey(task.number)} ` : "";
+  const details = [`${task.priority} priority`];
+  if (task.dueDate) details.push(`due ${task.dueDate}`);
+  if (task.category) details.push(`category ${task.category}`);
+  if (task.tags) details.push(`tags ${task.tags.join(", ")}`);
+  details.push(...extra);
+  return `- ${key}#${task.id.substring(0, 8)} ${task.title} (${details.join("; ")})`;
+}
+
+/**
+ * A headed list of tasks, or "None" when it is empty
+ */
+function section(
+  title: string,
+  tasks: Task[],
+  extra: (task: Task) => string[] = () => []
+): string {
+  const lines = tasks.map((t) => summarize(t, extra(t)));
+  return `## ${title} (${tasks.length})\n${lines.join("\n") || "None"}\n`;
+}
+
+/**
+ * Wrap prompt text in the result returned by prompts/get
+ */
+function userMessage(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+/**
+ * Open tasks that wait on at least one open task, with the blockers' titles
+ */
+function findBlocked(tasks: Task[]): Map<Task, Task[]> {
+  const open = new Map(
+    tasks.filter((t) => t.status !== "completed").map((t) => [t.id, t])
+  );
+  const blocked = new Map<Task, Task[]>();
+  for (const task of open.values()) {
+    const blockers = (task.blockedBy ?? []).flatMap((id) => {
+      const blocker = open.get(id);
+      return blocker ? [blocker] : [];
+    });
+    if (blockers.length > 0) {
+      blocked.set(task, blockers);
+    }
+  }
+  return blocked;
+}
+
+/**
+ * " in category X" for prompt text, or nothing
+ */
+function inCategory(category: string | undefined): string {
+  return category ? ` in category "${category}"` : "";
+}
+
+/**
+ * The date of a UTC timestamp in TIMEZONE, to compare with dates given to
+ * or picked by a prompt
+ */
+function localDate(timestamp: string): string {
+  return todayDate(new Date(timestamp));
+}
+
+/**
+ * daily_plan: overdue tasks, tasks due on the day and work in progress
+ */
+async function dailyPlan(args: unknown, session: Session) {
+  // Validate input
+  const validated = DailyPlanPromptSchema.parse(args);
+  const date = validated.date ?? todayDate();
+  const tasks = await getRepository(session.workspaceId).queryTasks({
+    category: validated.category,
+  });
+
+  const open = tasks.filter((t) => t.status !== "completed");
+  const overdue = open.filter((t) => t.dueDate && t.dueDate < date);
+  const dueToday = open.filter((t) => t.dueDate === date);
+  const inProgress = open.filter(
+    (t) =>
+      t.status === "in_progress" && !overdue.includes(t) && t.dueDate !== date
+  );
+
+  const text =
+    `Help me plan my work for ${date}${inCategory(validated.category)}. ` +
+    "Suggest an order to work in, flag anything that won't realistically fit " +
+    "in one day, and point out tasks that could be rescheduled.\n\n" +
+    section("Overdue", overdue) +
+    "\n" +
+    section("Due today", dueToday) +
+    "\n" +
+    section("Other tasks in progress", inProgress);
+
+  return userMessage(`Daily plan for ${date}`, text);
+}
+
+/**
+ * standup: tasks completed since a date, in progress and blocked
+ */
+async function standup(args: unknown, session: Session) {
+  // Validate input
+  const validated = StandupPromptSchema.parse(args);
+  const since = validated.since ?? shiftDate(todayDate(), -1);
+  const tasks = await getRepository(session.workspaceId).queryTasks({
+    category: validated.category,
+  });
+
+  const completed = tasks.filter(
+    (t) =>
+      t.status === "completed" &&
+      t.completedAt !== undefined &&
+      localDate(t.completedAt) >= since
+  );
+  const inProgress = tasks.filter((t) => t.status === "in_progress");
+  const blocked = findBlocked(tasks);
+
+  const text =
+    `Write my standup update${inCategory(validated.category)}: what I ` +
+    `finished since ${since}, what I'm working on, and what is blocked. ` +
+    "Keep it to a few short bullet points per heading.\n\n" +
+    section("Completed", completed, (t) => [
+      `completed ${localDate(t.completedAt!)}`,
+    ]) +
+    "\n" +
+    section("In progress", inProgress) +
+    "\n" +
+    section("Blocked", [...blocked.keys()], (t) => {
+      const titles = blocked.get(t)!.map((b) => `"${b.title}"`);
+      return [`waiting on ${titles.join(", ")}`];
+    });
+
+  return userMessage(`Standup since ${since}`, text);
+}
+
+/**
+ * weekly_review: completion numbers and slipped due dates over a period
+ */
+async function weeklyReview(args: unknown, session: Session) {
+  // Validate input
+  const validated = WeeklyReviewPromptSchema.parse(args);
+  const to = validated.to ?? todayDate();
+  const from = validated.from ?? shiftDate(to, -6);
+  const tasks = await getRepository(session.workspaceId).queryTasks({
+    category: validated.category,
+  });
+  const stats = computeTaskStats(tasks, to);
+
+  const completionDate = (t: Task) =>
+    t.completedAt !== undefined ? localDate(t.completedAt) : undefined;
+  const completed = tasks.filter((t) => {
+    const date = completionDate(t);
+    return date !== undefined && date >= from && date <= to;
+  });
+  const created = tasks.filter((t) => {
+    const date = localDate(t.createdAt);
+    return date >= from && date <= to;
+  });
+
+  // Due in the period but finished late or not at all
+  const slipped = tasks.filter((t) => {
+    if (!t.dueDate || t.dueDate < from || t.dueDate > to) return false;
+    const date = completionDate(t);
+    return date === undefined ? t.dueDate < to : date > t.dueDate;
+  });
+
+  let text =
+    `Review my work from ${from} to ${to}${inCategory(validated.category)}. ` +
+    "Summarize what got done, look for patterns in what slipped, and " +
+    "suggest what to focus on next.\n\n" +
+    "## Numbers\n" +
+    `- Completed in this period: ${completed.length}\n` +
+    `- Created in this period: ${created.length}\n` +
+    `- Overall completion rate: ${stats.completionRate.toFixed(1)}% of ${stats.total} tasks\n` +
+    `- Open: ${stats.byStatus.pending} pending, ${stats.byStatus.in_progress} in progress\n` +
+    `- Overdue as of ${to}: ${stats.overdue}\n`;
+  if (stats.recurringSeries.length > 0) {
+    text += stats.recurringSeries
+      .map(
+        (s) =>
+          `- Recurring "${s.title}": ${s.currentStreak} on time in a row (${s.onTime}/${s.completed} on time)\n`
+      )
+      .join("");
+  }
+  text +=
+    "\n" +
+    section("Completed", completed, (t) => [`completed ${completionDate(t)}`]) +
+    "\n" +
+    section("Slipped due dates", slipped, (t) => {
+      const date = completionDate(t);
+      return [date ? `completed late on ${date}` : `still ${t.status}`];
+    });
+
+  return userMessage(`Weekly review ${from} to ${to}`, text);
+}
+
+/**
+ * triage_inbox: open tasks without a category, oldest first
+ */
+async function triageInbox(args: unknown, session: Session) {
+  // Validate input
+  const validated = TriageInboxPromptSchema.parse(args);
+  const limit = validated.limit ?? DEFAULT_TRIAGE_LIMIT;
+  const tasks = await getRepository(session.workspaceId).queryTasks(
+    {},
+    { sortBy: "createdAt", sortOrder: "asc" }
+  );
+  const stats = computeTaskStats(tasks);
+
+  const inbox = tasks.filter((t) => t.status !== "completed" && !t.category);
+  const shown = inbox.slice(0, limit);
+
+  const list = (counts: Record<string, number>) =>
+    Object.keys(counts).sort().join(", ") || "none yet";
+
+  const text =
+    "Triage these uncategorized tasks. For each one, suggest a category " +
+    "(reuse an existing one where it fits), a priority, tags, and a due date " +
+    "if one is implied, or say if it should be deleted. Then apply the " +
+    "changes with update_task once I confirm.\n\n" +
+    `Existing categories: ${list(stats.byCategory)}\n` +
+    `Existing tags: ${list(stats.byTag)}\n\n` +
+    (shown.length < inbox.length
+      ? `Showing the oldest ${shown.length} of ${inbox.length}.\n\n`
+      : "") +
+    section("Uncategorized", shown, (t) =>
+      t.description ? [`notes: ${t.description}`] : []
+    );
+
+  return userMessage("Triage uncategorized tasks", text);
+}
+
+/**
+ * Render a prompt for the caller's workspace
+ */
+export async function getPrompt(
+  name: string,
+  args: Record<string, string> | undefined,
+  session: Session
+): Promise<GetPromptResult> {
+  try {
+    switch (name) {
+      case "daily_plan":
+        return await dailyPlan(args ?? {}, session);
+      case "standup":
+        return await standup(args ?? {}, session);
+      case "weekly_review":
+        return await weeklyReview(args ?? {}, session);
+      case "triage_inbox":
+        return await triageInbox(args ?? {}, session);
+      default:
+        throw new Error(`Unknown prompt: ${name}`);
+    }
+  } catch (error) {
+    // Report invalid arguments as one readable line
+    if (error instanceof z.ZodError) {
+      const messages = error.errors.map(
+        (e) => `${e.path.join(".") || "arguments"}: ${e.message}`
+      );
+      throw new Error(`Invalid arguments for ${name}: ${messages.join(", ")}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,387 @@
+/**
+ * Task query language
+ *
+ * A query is a list of terms that must all match, for example:
+ *
+ *   status:pending priority:>=medium due:<2026-11-01 "login bug" -category:personal
+ *
+ * - `field:value` compares a field; dates and priority also accept
+ *   `>`, `>=`, `<` and `<=` (e.g. `due:<=today`)
+ * - `field:none` matches tasks where the field is not set or empty
+ * - `tag:x` matches tasks with tag x among their tags (`tag:none`: untagged)
+ * - bare words and "quoted phrases" search the title, description and
+ *   category (see search.ts)
+ * - `-term` negates a term, `OR` joins alternatives, `( ... )` groups terms
+ *
+ * Queries are parsed into an AST that storage.ts evaluates in memory and
+ * storage-db.ts compiles to SQL.
+ */
+
+import { Task } from "./types.js";
+import { containsPhrase, phraseTokens } from "./search.js";
+import { todayDate } from "./stats.js";
+
+export type CompareOp = "=" | ">" | ">=" | "<" | "<=";
+
+// Fields that can be used as `field:value`
+export type QueryField =
+  | "status"
+  | "priority"
+  | "category"
+  | "tag"
+  | "assignee"
+  | "owner"
+  | "due"
+  | "created"
+  | "completed";
+
+export type QueryNode =
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | {
+      type: "compare";
+      field: QueryField;
+      op: CompareOp;
+      value: string | null; // null matches tasks without the field
+    }
+  | { type: "text"; value: string };
+
+type FieldKind = "enum" | "ordered" | "text" | "date";
+
+// How each field is validated and compared
+const FIELDS: Record<QueryField, { kind: FieldKind; values?: string[] }> = {
+  status: { kind: "enum", values: ["pending", "in_progress", "completed"] },
+  priority: { kind: "ordered", values: ["low", "medium", "high"] },
+  category: { kind: "text" },
+  tag: { kind: "text" },
+  assignee: { kind: "text" },
+  owner: { kind: "text" },
+  due: { kind: "date" },
+  created: { kind: "date" },
+  completed: { kind: "date" },
+};
+
+// Fields that may be missing on a task, and so accept `none`
+const OPTIONAL_FIELDS = new Set<QueryField>([
+  "category",
+  "tag",
+  "assignee",
+  "owner",
+  "due",
+  "completed",
+]);
+
+/**
+ * Rank of a priority for ordered comparisons
+ */
+export function priorityRank(priority: string): number {
+  return FIELDS.priority.values!.indexOf(priority);
+}
+
+type Token =
+  | { kind: "lparen" | "rparen" | "or" | "not"; position: number }
+  | { kind: "term"; text: string; phrase: boolean; position: number };
+
+/**
+ * Split a query string into tokens
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i]!;
+    const start = i;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ kind: char === "(" ? "lparen" : "rparen", position: i });
+      i++;
+    } else if (char === "-" && /\S/.test(input[i + 1] ?? " ")) {
+      tokens.push({ kind: "not", position: i });
+      i++;
+    } else {
+      // Read a word, keeping quoted sections (e.g. category:"home office")
+      let text = "";
+      const phrase = char === '"';
+      while (i < input.length && !/[\s()]/.test(input[i]!)) {
+        if (input[i] === '"') {
+          const end = input.indexOf('"', i + 1);
+          if (end === -1) {
+            throw new Error(
+              `Invalid query: unterminated quote at position ${i + 1}`
+            );
+          }
+          text += input.slice(i + 1, end);
+          i = end + 1;
+        } else {
+          text += input[i];
+          i++;
+        }
+      }
+
+      if (text === "OR" && !phrase) {
+        tokens.push({ kind: "or", position: start });
+      } else {
+        tokens.push({ kind: "term", text, phrase, position: start });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Resolve and validate the value of a `field:value` term
+ */
+function parseCompare(field: QueryField, rawValue: string): QueryNode {
+  const match = rawValue.match(/^(>=|<=|>|<|=)?(.*)$/s)!;
+  const op = (match[1] ?? "=") as CompareOp;
+  let value = match[2]!.trim();
+  const spec = FIELDS[field];
+
+  if (!value) {
+    throw new Error(`Invalid query: missing value for "${field}"`);
+  }
+
+  if (op !== "=" && spec.kind !== "ordered" && spec.kind !== "date") {
+    throw new Error(
+      `Invalid query: "${field}" only supports exact matches, not "${op}"`
+    );
+  }
+
+  if (value.toLowerCase() === "none") {
+    if (!OPTIONAL_FIELDS.has(field) || op !== "=") {
+      throw new Error(`Invalid query: "${field}:none" is not supported`);
+    }
+    return { type: "compare", field, op, value: null };
+  }
+
+  if (spec.values) {
+    value = value.toLowerCase();
+    if (!spec.values.includes(value)) {
+      throw new Error(
+        `Invalid query: "${value}" is not a valid ${field} (expected one of: ${spec.values.join(", ")})`
+      );
+    }
+  } else if (spec.kind === "date") {
+    if (value.toLowerCase() === "today") {
+      value = todayDate();
+    } else if (
+      !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+      isNaN(Date.parse(value))
+    ) {
+      throw new Error(
+        `Invalid query: "${value}" is not a valid date for "${field}" (use YYYY-MM-DD or today)`
+      );
+    }
+  }
+
+  return { type: "compare", field, op, value };
+}
+
+/**
+ * Turn a single term token into a node
+ */
+function parseTerm(token: Extract<Token, { kind: "term" }>): QueryNode {
+  // Bare words and quoted phrases are text searches
+  const fieldMatch = token.text.match(/^([a-z_]+):(.*)$/is);
+  if (token.phrase || !fieldMatch) {
+    return { type: "text", value: token.text };
+  }
+
+  const field = fieldMatch[1]!.toLowerCase();
+  if (!(field in FIELDS)) {
+    throw new Error(
+      `Invalid query: unknown field "${field}" at position ${token.position + 1} (known fields: ${Object.keys(FIELDS).join(", ")})`
+    );
+  }
+  return parseCompare(field as QueryField, fieldMatch[2]!);
+}
+
+/**
+ * Parse a query string into an AST
+ */
+export function parseQuery(input: string): QueryNode {
+  const tokens = tokenize(input);
+  let index = 0;
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (tokens[index]?.kind === "or") {
+      index++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0]! : { type: "or", children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = [];
+    while (
+      index < tokens.length &&
+      tokens[index]!.kind !== "or" &&
+      tokens[index]!.kind !== "rparen"
+    ) {
+      children.push(parseUnary());
+    }
+    if (children.length === 0) {
+      const token = tokens[index];
+      throw new Error(
+        token
+          ? `Invalid query: expected a term at position ${token.position + 1}`
+          : "Invalid query: expected a term at the end of the query"
+      );
+    }
+    return children.length === 1 ? children[0]! : { type: "and", children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = tokens[index]!;
+    index++;
+
+    if (token.kind === "not") {
+      if (index >= tokens.length) {
+        throw new Error('Invalid query: nothing to negate after "-"');
+      }
+      return { type: "not", child: parseUnary() };
+    }
+    if (token.kind === "lparen") {
+      const node = parseOr();
+      if (tokens[index]?.kind !== "rparen") {
+        throw new Error(
+          `Invalid query: missing ")" for "(" at position ${token.position + 1}`
+        );
+      }
+      index++;
+      return node;
+    }
+    if (token.kind !== "term") {
+      throw new Error(
+        `Invalid query: expected a term at position ${token.position + 1}`
+      );
+    }
+    return parseTerm(token);
+  };
+
+  if (tokens.length === 0) {
+    throw new Error("Invalid query: the query is empty");
+  }
+
+  const node = parseOr();
+  if (index < tokens.length) {
+    throw new Error(
+      `Invalid query: unexpected ")" at position ${tokens[index]!.position + 1}`
+    );
+  }
+  return node;
+}
+
+/**
+ * Text terms of a query, excluding negated ones, used to rank search results
+ */
+export function searchPhrases(node: QueryNode): string[] {
+  switch (node.type) {
+    case "and":
+    case "or":
+      return node.children.flatMap(searchPhrases);
+    case "text":
+      return phraseTokens(node.value).length > 0 ? [node.value] : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Value of a single-valued query field on a task (dates as YYYY-MM-DD),
+ * undefined when missing or empty, since SQLite stores "" as NULL
+ */
+function fieldValue(
+  task: Task,
+  field: Exclude<QueryField, "tag">
+): string | undefined {
+  return storedValue(task, field) || undefined;
+}
+
+/**
+ * Value of a single-valued query field as stored on a task
+ */
+function storedValue(
+  task: Task,
+  field: Exclude<QueryField, "tag">
+): string | undefined {
+  switch (field) {
+    case "status":
+      return task.status;
+    case "priority":
+      return task.priority;
+    case "category":
+      return task.category;
+    case "assignee":
+      return task.assignee;
+    case "owner":
+      return task.createdBy;
+    case "due":
+      return task.dueDate;
+    case "created":
+      return task.createdAt.split("T")[0];
+    case "completed":
+      return task.completedAt?.split("T")[0];
+  }
+}
+
+/**
+ * Apply a comparison operator to two comparable values
+ */
+function compare<T>(a: T, op: CompareOp, b: T): boolean {
+  switch (op) {
+    case "=":
+      return a === b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+  }
+}
+
+/**
+ * Evaluate a query against a task
+ */
+export function matchesQuery(task: Task, node: QueryNode): boolean {
+  switch (node.type) {
+    case "and":
+      return node.children.every((child) => matchesQuery(task, child));
+    case "or":
+      return node.children.some((child) => matchesQuery(task, child));
+    case "not":
+      return !matchesQuery(task, node.child);
+    case "text":
+      return containsPhrase(task, node.value);
+    case "compare": {
+      // Tags hold several values; match if any of them is the one asked for
+      if (node.field === "tag") {
+        return node.value === null
+          ? !task.tags?.length
+          : (task.tags ?? []).includes(node.value.toLowerCase());
+      }
+
+      const actual = fieldValue(task, node.field);
+      if (node.value === null) return actual === undefined;
+      if (actual === undefined) return false;
+
+      const kind = FIELDS[node.field].kind;
+      if (kind === "ordered") {
+        return compare(priorityRank(actual), node.op, priorityRank(node.value));
+      }
+      if (kind === "text") {
+        return actual.toLowerCase() === node.value.toLowerCase();
+      }
+      return compare(actual, node.op, node.value);
+    }
+  }
+}
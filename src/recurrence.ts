@@ -0,0 +1,142 @@
+import { RecurrenceRule, Weekday } from "./types.js";
+
+// Weekday codes indexed by Date.getUTCDay()
+const WEEKDAY_CODES: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a YYYY-MM-DD string as a UTC date
+ */
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+/**
+ * Format a UTC date as YYYY-MM-DD
+ */
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0]!;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days (negative moves it earlier)
+ */
+export function shiftDate(date: string, days: number): string {
+  return toDateString(new Date(parseDate(date).getTime() + days * DAY_MS));
+}
+
+/**
+ * Start of the (Monday-based) week containing a date, in days since epoch
+ */
+function weekStart(date: Date): number {
+  const days = Math.floor(date.getTime() / DAY_MS);
+  return days - ((date.getUTCDay() + 6) % 7);
+}
+
+/**
+ * Add months to a date, landing on `day` (the date's own day unless given)
+ * clamped to the last day of the target month
+ */
+function addMonths(date: Date, months: number, day = date.getUTCDate()): Date {
+  const target = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1)
+  );
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target;
+}
+
+/**
+ * Compute the date after `from` on which a rule fires next
+ */
+function nextDate(rule: RecurrenceRule, from: Date): Date {
+  if (rule.frequency === "monthly") {
+    return addMonths(from, rule.interval, rule.monthDay);
+  }
+
+  if (!rule.byWeekday) {
+    const step =
+      rule.frequency === "weekly" ? 7 * rule.interval : rule.interval;
+    return new Date(from.getTime() + step * DAY_MS);
+  }
+
+  // Walk forward day by day until we hit an allowed weekday in an active
+  // period (every `interval` days or weeks counted from `from`)
+  const fromDays = Math.floor(from.getTime() / DAY_MS);
+  for (let offset = 1; ; offset++) {
+    const candidate = new Date(from.getTime() + offset * DAY_MS);
+    const period =
+      rule.frequency === "weekly"
+        ? (weekStart(candidate) - weekStart(from)) / 7
+        : Math.floor(candidate.getTime() / DAY_MS) - fromDays;
+
+    if (
+      period % rule.interval === 0 &&
+      rule.byWeekday.includes(WEEKDAY_CODES[candidate.getUTCDay()]!)
+    ) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Pin a monthly rule to the day of the month its series started on, so an
+ * occurrence clamped to a short month (Jan 31 → Feb 28) doesn't move the
+ * ones after it (→ Mar 31)
+ */
+export function anchorRule(
+  rule: RecurrenceRule,
+  startDate: string
+): RecurrenceRule {
+  if (rule.frequency !== "monthly" || rule.monthDay !== undefined) {
+    return rule;
+  }
+  return { ...rule, monthDay: parseDate(startDate).getUTCDate() };
+}
+
+/**
+ * Get the due date of the occurrence following `occurrence` (1-based),
+ * or undefined when the series has ended
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  fromDate: string,
+  occurrence: number
+): string | undefined {
+  if (rule.count !== undefined && occurrence >= rule.count) {
+    return undefined;
+  }
+
+  const next = toDateString(nextDate(rule, parseDate(fromDate)));
+  if (rule.until && next > rule.until) {
+    return undefined;
+  }
+
+  return next;
+}
+
+/**
+ * Describe a recurrence rule in words, e.g. "every 2 weeks on MO, WE"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const units = { daily: "day", weekly: "week", monthly: "month" };
+  const unit = units[rule.frequency];
+
+  let result =
+    rule.interval === 1 ? `every ${unit}` : `every ${rule.interval} ${unit}s`;
+
+  if (rule.byWeekday) {
+    result += ` on ${rule.byWeekday.join(", ")}`;
+  }
+  if (rule.until) {
+    result += ` until ${rule.until}`;
+  }
+  if (rule.count !== undefined) {
+    result += `, ${rule.count} times`;
+  }
+
+  return result;
+}
@@ -0,0 +1,355 @@
+/**
+ * Background reminders for upcoming, due and overdue tasks
+ *
+ * Every REMINDER_INTERVAL_SECONDS the scheduler looks at the open tasks of
+ * each workspace someone is listening to and works out which reminders are
+ * due:
+ * - one for each of the task's remindAt offsets (days before the due date,
+ *   DEFAULT_REMIND_AT unless set), from that day until the due date
+ * - one once the due date has passed
+ * - one when a snooze set with snooze_reminder ends
+ * While a task is snoozed its reminders wait. Reminders that come due
+ * together for one task are sent as one. Days are counted in TIMEZONE (see
+ * stats.ts).
+ *
+ * Each reminder has a key naming the task, the kind and the due date, and
+ * sent keys are stored, so restarts and other servers sharing the data
+ * directory never send a reminder twice, while moving a due date arms new
+ * ones. A reminder that couldn't be delivered is tried again at the next
+ * check. Keys that can't come due again (the task is completed or gone, or
+ * its due date or snooze moved on) are pruned along with the trash. Reminders go to the connected clients whose current workspace
+ * holds the task, as MCP logging messages, and to REMINDER_WEBHOOK_URL if
+ * set. A workspace nobody is listening to is skipped until someone is.
+ */
+
+import { Task, SentReminder } from "./types.js";
+import {
+  getRepository,
+  workspaces,
+  reminders,
+  storageLock,
+} from "./storage-router.js";
+import { shiftDate } from "./recurrence.js";
+import { taskLabel } from "./format.js";
+import { formatTaskKey } from "./task-keys.js";
+import { todayDate } from "./stats.js";
+
+/**
+ * Parse a comma-separated list of whole days, e.g. "3,1"
+ */
+function parseOffsets(value: string): number[] {
+  const offsets = value
+    .split(",")
+    .filter((part) => part.trim())
+    .map((part) => Number(part.trim()));
+  if (offsets.some((days) => !Number.isInteger(days) || days < 0)) {
+    throw new Error(
+      `DEFAULT_REMIND_AT must be a comma-separated list of whole days, got "${value}"`
+    );
+  }
+  return offsets;
+}
+
+// Seconds between checks (0 turns the scheduler off)
+const REMINDER_INTERVAL_SECONDS = parseInt(
+  process.env.REMINDER_INTERVAL_SECONDS || "60",
+  10
+);
+
+// Days before the due date to remind about tasks without remindAt
+export const DEFAULT_REMIND_AT = parseOffsets(
+  process.env.DEFAULT_REMIND_AT ?? "1"
+);
+
+// URL that every reminder is POSTed to as JSON (optional)
+const REMINDER_WEBHOOK_URL = process.env.REMINDER_WEBHOOK_URL;
+
+// Give up on a webhook call after this long
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A reminder about one task, as sent to clients and the webhook
+export interface Reminder {
+  kind: "upcoming" | "due_today" | "overdue" | "snoozed";
+  message: string;
+  taskId: string;
+  taskKey?: string; // TASK-<n>
+  title: string;
+  dueDate?: string;
+  workspaceId: string;
+  sentAt: string; // ISO timestamp
+}
+
+// A connected client that wants reminders for its current workspace
+interface ReminderListener {
+  workspaceId: () => string;
+  notify: (reminder: Reminder) => Promise<void>;
+}
+
+const listeners = new Set<ReminderListener>();
+
+/**
+ * Deliver reminders for the workspace a client is in, returning a function
+ * that stops delivery (when the connection closes)
+ */
+export function onReminder(
+  workspaceId: () => string,
+  notify: (reminder: Reminder) => Promise<void>
+): () => void {
+  const listener = { workspaceId, notify };
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Keys of the reminders for a task that are due at a moment (sent or not)
+ */
+export function dueReminderKeys(task: Task, now: Date): string[] {
+  if (task.status === "completed") return [];
+  if (task.snoozedUntil && Date.parse(task.snoozedUntil) > now.getTime()) {
+    return [];
+  }
+
+  const today = todayDate(now);
+  const keys: string[] = [];
+  if (task.dueDate && today > task.dueDate) {
+    keys.push(`${task.id}:overdue:${task.dueDate}`);
+  } else if (task.dueDate) {
+    for (const days of task.remindAt ?? DEFAULT_REMIND_AT) {
+      if (today >= shiftDate(task.dueDate, -days)) {
+        keys.push(`${task.id}:due:${task.dueDate}:${days}`);
+      }
+    }
+  }
+  if (task.snoozedUntil) {
+    keys.push(`${task.id}:snooze:${task.snoozedUntil}`);
+  }
+  return keys;
+}
+
+/**
+ * Build the reminder sent for a task, worded by how close its due date is
+ */
+function buildReminder(task: Task, now: Date): Reminder {
+  const today = todayDate(now);
+  const label = taskLabel(task);
+
+  let kind: Reminder["kind"];
+  let message: string;
+  if (!task.dueDate) {
+    kind = "snoozed";
+    message = `⏰ Reminder: ${label}`;
+  } else if (task.dueDate < today) {
+    kind = "overdue";
+    message = `⚠️ ${label} is overdue (due ${task.dueDate})`;
+  } else if (task.dueDate === today) {
+    kind = "due_today";
+    message = `📅 ${label} is due today`;
+  } else {
+    const days = Math.round(
+      (Date.parse(task.dueDate) - Date.parse(today)) / DAY_MS
+    );
+    kind = "upcoming";
+    message = `📅 ${label} is due in ${days} day(s), on ${task.dueDate}`;
+  }
+
+  return {
+    kind,
+    message,
+    taskId: task.id,
+    taskKey:
+      task.number !== undefined ? formatTaskKey(task.number) : undefined,
+    title: task.title,
+    dueDate: task.dueDate,
+    workspaceId: task.workspaceId,
+    sentAt: now.toISOString(),
+  };
+}
+
+/**
+ * Send a reminder to listening clients and the webhook, logging failures
+ *
+ * Returns whether it was delivered: to the webhook when one is set, else
+ * to at least one client.
+ */
+async function deliver(reminder: Reminder): Promise<boolean> {
+  let notified = false;
+  for (const listener of listeners) {
+    if (listener.workspaceId() !== reminder.workspaceId) continue;
+    try {
+      await listener.notify(reminder);
+      notified = true;
+    } catch (error) {
+      console.error("Failed to deliver reminder:", error);
+    }
+  }
+
+  if (!REMINDER_WEBHOOK_URL) {
+    return notified;
+  }
+  try {
+    const response = await fetch(REMINDER_WEBHOOK_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(reminder),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.error(`Reminder webhook responded with ${response.status}`);
+    }
+    return response.ok;
+  } catch (error) {
+    console.error("Reminder webhook failed:", error);
+    return false;
+  }
+}
+
+/**
+ * Find reminders that are due and not sent yet, claim them and deliver
+ * them, returning those that were delivered
+ *
+ * Claims are recorded as sent reminders before delivery, so that servers
+ * sharing the data directory don't send the same reminder. A claim whose
+ * delivery fails is released again, so the next check retries it.
+ */
+export async function checkReminders(now = new Date()): Promise<Reminder[]> {
+  // Every workspace when a webhook listens, else the clients' workspaces
+  const watched = REMINDER_WEBHOOK_URL
+    ? (await workspaces.listWorkspaces()).map((w) => w.id)
+    : [...new Set([...listeners].map((l) => l.workspaceId()))];
+  if (watched.length === 0) {
+    return [];
+  }
+
+  // Claim reminders under the storage lock so only one server sends each
+  const due = await storageLock.withLock(async () => {
+    const candidates: { task: Task; keys: string[] }[] = [];
+    for (const workspaceId of watched) {
+      for (const task of await getRepository(workspaceId).queryTasks()) {
+        const keys = dueReminderKeys(task, now);
+        if (keys.length > 0) {
+          candidates.push({ task, keys });
+        }
+      }
+    }
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const sent = await reminders.querySentReminders(
+      candidates.map((c) => c.task.id)
+    );
+    const sentKeys = new Set(sent.map((r) => r.key));
+    const claimed: SentReminder[] = [];
+    const batch: { reminder: Reminder; keys: string[] }[] = [];
+    for (const { task, keys } of candidates) {
+      const fresh = keys.filter((key) => !sentKeys.has(key));
+      if (fresh.length === 0) continue;
+
+      const reminder = buildReminder(task, now);
+      claimed.push(
+        ...fresh.map((key) => ({
+          key,
+          taskId: task.id,
+          workspaceId: task.workspaceId,
+          sentAt: reminder.sentAt,
+        }))
+      );
+      batch.push({ reminder, keys: fresh });
+    }
+    await reminders.insertSentReminders(claimed);
+    return batch;
+  });
+
+  const delivered: Reminder[] = [];
+  const failedKeys: string[] = [];
+  for (const { reminder, keys } of due) {
+    if (await deliver(reminder)) {
+      delivered.push(reminder);
+    } else {
+      failedKeys.push(...keys);
+    }
+  }
+  if (failedKeys.length > 0) {
+    await storageLock.withLock(() => reminders.deleteSentReminders(failedKeys));
+  }
+  return delivered;
+}
+
+/**
+ * Whether a sent reminder can still come due: its task is open and still
+ * has the due date or snooze the reminder was for
+ */
+function canComeDue(sent: SentReminder, task: Task | undefined): boolean {
+  if (!task || task.status === "completed") {
+    return false;
+  }
+  const rest = sent.key.slice(task.id.length + 1);
+  return (
+    (task.dueDate !== undefined &&
+      (rest === `overdue:${task.dueDate}` ||
+        rest.startsWith(`due:${task.dueDate}:`))) ||
+    (task.snoozedUntil !== undefined && rest === `snooze:${task.snoozedUntil}`)
+  );
+}
+
+/**
+ * Forget sent reminders that can't come due again, returning how many were
+ * forgotten
+ */
+export async function pruneSentReminders(): Promise<number> {
+  return storageLock.withLock(async () => {
+    const byWorkspace = new Map<string, SentReminder[]>();
+    for (const sent of await reminders.querySentReminders()) {
+      const list = byWorkspace.get(sent.workspaceId) ?? [];
+      list.push(sent);
+      byWorkspace.set(sent.workspaceId, list);
+    }
+
+    const stale: string[] = [];
+    for (const [workspaceId, sent] of byWorkspace) {
+      // Trashed tasks can still be restored, so they count
+      const tasks = await getRepository(workspaceId).queryTasks({
+        ids: [...new Set(sent.map((r) => r.taskId))],
+        deleted: "include",
+      });
+      const byId = new Map(tasks.map((t) => [t.id, t]));
+      for (const record of sent) {
+        if (!canComeDue(record, byId.get(record.taskId))) {
+          stale.push(record.key);
+        }
+      }
+    }
+    if (stale.length > 0) {
+      await reminders.deleteSentReminders(stale);
+    }
+    return stale.length;
+  });
+}
+
+/**
+ * Check for reminders now and then every REMINDER_INTERVAL_SECONDS
+ */
+export function startReminderScheduler(): void {
+  if (!(REMINDER_INTERVAL_SECONDS > 0)) {
+    return;
+  }
+
+  let checking = false;
+  const tick = async () => {
+    // Skip a tick while a slow check is still running
+    if (checking) return;
+    checking = true;
+    try {
+      await checkReminders();
+    } catch (error) {
+      console.error("Reminder check failed:", error);
+    } finally {
+      checking = false;
+    }
+  };
+
+  setInterval(tick, REMINDER_INTERVAL_SECONDS * 1000).unref();
+  void tick();
+}
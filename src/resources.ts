@@ -0,0 +1,350 @@
+/**
+ * MCP resources: fixed task views, parameterized templates and change
+ * subscriptions
+ *
+ * Resources are read from the caller's current workspace. A client that
+ * subscribes to a URI gets notifications/resources/updated whenever a
+ * mutating tool call changes what that URI returns. Storage reports which
+ * tasks each write touched; after the call, only subscribed resources those
+ * tasks can appear in are read again and compared with the last version the
+ * subscriber was told about. Writes by other processes sharing the data
+ * directory are not reported, so they don't cause notifications.
+ */
+
+import { createHash } from "crypto";
+import type {
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  Status,
+  StorageChange,
+  Task,
+  TRANSFER_FORMATS,
+  TransferFormat,
+} from "./types.js";
+import {
+  getRepository,
+  onStorageChange,
+  timeEntries,
+} from "./storage-router.js";
+import { parseTaskKey } from "./task-keys.js";
+import { loadTaskHistory } from "./tools.js";
+import { serializeTasks, TRANSFER_MIME_TYPES } from "./transfer.js";
+import { computeTaskStats, todayDate } from "./stats.js";
+
+const STATUSES: Status[] = ["pending", "in_progress", "completed"];
+
+// Views without parameters, returned by resources/list
+export const RESOURCES: Resource[] = [
+  {
+    uri: "tasks://list",
+    name: "All Tasks (JSON)",
+    description: "Get all tasks in JSON format",
+    mimeType: "application/json",
+  },
+  {
+    uri: "tasks://overdue",
+    name: "Overdue Tasks (JSON)",
+    description: "Open tasks past their due date, oldest due date first",
+    mimeType: "application/json",
+  },
+  {
+    uri: "tasks://stats",
+    name: "Task Statistics (JSON)",
+    description: "The report returned by get_task_stats",
+    mimeType: "application/json",
+  },
+  ...TRANSFER_FORMATS.map((format) => ({
+    uri: `tasks://export/${format}`,
+    name: `All Tasks (${format})`,
+    description: `Export all tasks in ${format} format`,
+    mimeType: TRANSFER_MIME_TYPES[format],
+  })),
+];
+
+// Parameterized views, returned by resources/templates/list
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "tasks://task/{id}",
+    name: "Task (JSON)",
+    description: "One task by key (TASK-42), ID or ID prefix",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "tasks://category/{name}",
+    name: "Tasks in a Category (JSON)",
+    description: "Tasks in a category (case-insensitive)",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "tasks://status/{status}",
+    name: "Tasks by Status (JSON)",
+    description: `Tasks with a status: ${STATUSES.join(", ")}`,
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "tasks://{id}/history",
+    name: "Task History (JSON)",
+    description: "Change history of a task, oldest first",
+    mimeType: "application/json",
+  },
+];
+
+/**
+ * Wrap a value as the JSON contents of a resource
+ */
+function jsonContents(uri: string, value: unknown): ReadResourceResult {
+  return {
+    contents: [
+      {
+        uri,
+        text: JSON.stringify(value, null, 2),
+        mimeType: "application/json",
+      },
+    ],
+  };
+}
+
+/**
+ * Read a resource from a workspace
+ */
+export async function readResource(
+  uri: string,
+  workspaceId: string
+): Promise<ReadResourceResult> {
+  const repository = getRepository(workspaceId);
+
+  const taskMatch = uri.match(/^tasks:\/\/task\/([^/]+)$/);
+  if (taskMatch) {
+    const ref = decodeURIComponent(taskMatch[1]!);
+    const task = await repository.getTask(ref);
+    if (!task) {
+      throw new Error(`Task ${ref} not found`);
+    }
+    return jsonContents(uri, task);
+  }
+
+  const categoryMatch = uri.match(/^tasks:\/\/category\/([^/]+)$/);
+  if (categoryMatch) {
+    const category = decodeURIComponent(categoryMatch[1]!);
+    return jsonContents(uri, await repository.queryTasks({ category }));
+  }
+
+  const statusMatch = uri.match(/^tasks:\/\/status\/([^/]+)$/);
+  if (statusMatch) {
+    const status = statusMatch[1] as Status;
+    if (!STATUSES.includes(status)) {
+      throw new Error(
+        `Unknown status ${status}; expected one of ${STATUSES.join(", ")}`
+      );
+    }
+    return jsonContents(uri, await repository.queryTasks({ status }));
+  }
+
+  if (uri === "tasks://overdue") {
+    const today = todayDate();
+    const tasks = await repository.queryTasks(
+      {},
+      { sortBy: "dueDate", sortOrder: "asc" }
+    );
+    const overdue = tasks.filter(
+      (t) => t.status !== "completed" && t.dueDate && t.dueDate < today
+    );
+    return jsonContents(uri, overdue);
+  }
+
+  if (uri === "tasks://stats") {
+    const tasks = await repository.queryTasks();
+    const entries = await timeEntries.queryTimeEntries({ workspaceId });
+    return jsonContents(uri, computeTaskStats(tasks, todayDate(), entries));
+  }
+
+  const historyMatch = uri.match(/^tasks:\/\/([^/]+)\/history$/);
+  if (historyMatch) {
+    const ref = decodeURIComponent(historyMatch[1]!);
+    return jsonContents(uri, await loadTaskHistory(ref, workspaceId));
+  }
+
+  const exportMatch = uri.match(/^tasks:\/\/export\/([a-z]+)$/);
+  if (
+    exportMatch &&
+    (TRANSFER_FORMATS as readonly string[]).includes(exportMatch[1]!)
+  ) {
+    const format = exportMatch[1] as TransferFormat;
+    const tasks = await repository.queryTasks(
+      {},
+      { sortBy: "createdAt", sortOrder: "asc" }
+    );
+    return {
+      contents: [
+        {
+          uri,
+          text: serializeTasks(tasks, format),
+          mimeType: TRANSFER_MIME_TYPES[format],
+        },
+      ],
+    };
+  }
+
+  if (uri === "tasks://list") {
+    return jsonContents(uri, await repository.queryTasks());
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
+
+/**
+ * SHA-256 of a resource's contents
+ */
+function hashContents(result: ReadResourceResult): string {
+  return createHash("sha256")
+    .update(JSON.stringify(result.contents))
+    .digest("hex");
+}
+
+/**
+ * Fingerprint of what a resource currently returns (errors included, so a
+ * task disappearing counts as a change)
+ */
+async function fingerprint(uri: string, workspaceId: string): Promise<string> {
+  try {
+    return hashContents(await readResource(uri, workspaceId));
+  } catch (error) {
+    return `error: ${error instanceof Error ? error.message : error}`;
+  }
+}
+
+/**
+ * Whether a task reference (key, ID or ID prefix) can mean a task
+ */
+function refersTo(ref: string, task: Task): boolean {
+  const number = parseTaskKey(ref);
+  return number !== undefined
+    ? task.number === number
+    : task.id.startsWith(ref);
+}
+
+/**
+ * Whether a write can change what a resource returns, judged from the
+ * tasks it touched (before and after) without reading the resource
+ */
+function isAffected(uri: string, change: StorageChange): boolean {
+  const { tasks } = change;
+
+  // Only the statistics include logged time
+  if (uri === "tasks://stats") return true;
+  if (tasks.length === 0) return false;
+
+  const taskMatch = uri.match(/^tasks:\/\/task\/([^/]+)$/);
+  const historyMatch = uri.match(/^tasks:\/\/([^/]+)\/history$/);
+  const ref = taskMatch?.[1] ?? historyMatch?.[1];
+  if (ref !== undefined) {
+    return tasks.some((task) => refersTo(decodeURIComponent(ref), task));
+  }
+
+  const categoryMatch = uri.match(/^tasks:\/\/category\/([^/]+)$/);
+  if (categoryMatch) {
+    const category = decodeURIComponent(categoryMatch[1]!).toLowerCase();
+    return tasks.some((task) => task.category?.toLowerCase() === category);
+  }
+
+  const statusMatch = uri.match(/^tasks:\/\/status\/([^/]+)$/);
+  if (statusMatch) {
+    return tasks.some((task) => task.status === statusMatch[1]);
+  }
+
+  if (uri === "tasks://overdue") {
+    return tasks.some((task) => task.dueDate !== undefined);
+  }
+
+  // The list and exports show every task
+  return true;
+}
+
+// Writes since the last publishChanges()
+const pendingChanges: StorageChange[] = [];
+onStorageChange((change) => pendingChanges.push(change));
+
+// A subscribed resource and the fingerprint last reported for it
+interface Subscription {
+  workspaceId: string; // workspace the URI was subscribed from
+  fingerprint: string;
+}
+
+export interface ResourceSubscriptions {
+  /** Start notifying about a resource as read from a workspace */
+  subscribe(uri: string, workspaceId: string): Promise<void>;
+  unsubscribe(uri: string): void;
+  /** Drop every subscription (when the connection closes) */
+  close(): void;
+}
+
+// One connected client's subscriptions, keyed by URI
+interface Subscriber {
+  subscriptions: Map<string, Subscription>;
+  notify: (uri: string) => Promise<void>;
+}
+
+// Every client with a subscription channel open
+const subscribers = new Set<Subscriber>();
+
+/**
+ * Track one client's subscriptions, calling notify for each resource that
+ * changes
+ */
+export function createSubscriptions(
+  notify: (uri: string) => Promise<void>
+): ResourceSubscriptions {
+  const subscriber: Subscriber = { subscriptions: new Map(), notify };
+  const { subscriptions } = subscriber;
+  subscribers.add(subscriber);
+
+  return {
+    async subscribe(uri, workspaceId) {
+      // Reading first rejects unknown resources
+      const current = hashContents(await readResource(uri, workspaceId));
+      subscriptions.set(uri, { workspaceId, fingerprint: current });
+    },
+    unsubscribe(uri) {
+      subscriptions.delete(uri);
+    },
+    close() {
+      subscriptions.clear();
+      subscribers.delete(subscriber);
+    },
+  };
+}
+
+/**
+ * Re-read the subscribed resources that writes since the last call may have
+ * changed, and notify the clients whose resources now return something
+ * different
+ */
+export async function publishChanges(): Promise<void> {
+  const changes = pendingChanges.splice(0);
+  if (changes.length === 0) return;
+
+  for (const { subscriptions, notify } of subscribers) {
+    for (const [uri, subscription] of subscriptions) {
+      // One failing URI mustn't keep the others from being notified
+      try {
+        const affected = changes.some(
+          (change) =>
+            change.workspaceId === subscription.workspaceId &&
+            isAffected(uri, change)
+        );
+        if (!affected) continue;
+
+        const current = await fingerprint(uri, subscription.workspaceId);
+        if (current === subscription.fingerprint) continue;
+
+        subscription.fingerprint = current;
+        await notify(uri);
+      } catch (error) {
+        console.error(`Failed to notify about ${uri}:`, error);
+      }
+    }
+  }
+}
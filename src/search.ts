@@ -0,0 +1,312 @@
+/**
+ * Full-text search helpers
+ *
+ * Text is split into lowercase, Porter-stemmed tokens with diacritics
+ * removed from Latin letters, matching SQLite's "porter unicode61
+ * remove_diacritics 2" tokenizer, so "running" finds "run" and "cafe" finds
+ * "Café" (but "и" doesn't find "й"). A search phrase matches consecutive
+ * tokens, with the last one treated as a prefix ("log" finds "login").
+ *
+ * storage-db.ts ranks matches with FTS5's bm25(); storage.ts uses the
+ * in-memory inverted index below, which implements the same formula.
+ */
+
+import { stem } from "./stemmer.js";
+import { Task, SearchResult } from "./types.js";
+
+// Indexed task fields and their BM25 weights (a title hit counts most)
+export const SEARCH_COLUMNS = ["title", "description", "category"] as const;
+export const SEARCH_WEIGHTS = [3, 1, 2];
+
+// Marks placed around matched tokens in snippets
+export const HIGHLIGHT_START = "**";
+export const HIGHLIGHT_END = "**";
+
+// Number of tokens shown in a snippet
+export const SNIPPET_TOKENS = 12;
+
+// BM25 tuning constants (same defaults as FTS5)
+const K1 = 1.2;
+const B = 0.75;
+
+interface Token {
+  term: string;
+  start: number; // offsets into the original text
+  end: number;
+}
+
+// Occurrence of a phrase in one column of a document
+interface PhraseHit {
+  column: number;
+  position: number; // index of the first matching token
+  length: number; // number of tokens in the phrase
+}
+
+// Combining diacritics unicode61 keeps in tokens and removes; other marks
+// separate tokens, as punctuation does
+const DIACRITICS =
+  "\\u0300-\\u0304\\u0306-\\u030c\\u030f\\u0311\\u031b\\u0323-\\u0328\\u032d\\u032e\\u0330\\u0331";
+const DIACRITIC = new RegExp(`[${DIACRITICS}]`, "gu");
+
+// Runs of letters, digits, private-use characters and diacritics, as
+// unicode61 splits text
+const WORD = new RegExp(`[\\p{L}\\p{N}\\p{Co}${DIACRITICS}]+`, "gu");
+
+// Case folding unicode61 applies beyond toLowerCase()
+const EXTRA_FOLDS: Record<string, string> = {
+  "µ": "μ",
+  "ſ": "s",
+  "ς": "σ",
+  "ϐ": "β",
+  "ϑ": "θ",
+  "ϕ": "φ",
+  "ϖ": "π",
+  "ϰ": "κ",
+  "ϱ": "ρ",
+  "ϵ": "ε",
+  "\u1fbe": "ι",
+};
+
+/**
+ * Case-fold a word and remove its diacritics, which unicode61 strips from
+ * Latin letters only ("é" becomes "e", but "й" stays)
+ */
+function normalize(word: string): string {
+  return word
+    .replace(DIACRITIC, "")
+    .replace(/\p{Script=Latin}/gu, (c) =>
+      c.normalize("NFD").replace(/\p{M}/gu, "")
+    )
+    .toLowerCase()
+    .replace(/[µſςϐϑϕϖϰϱϵ\u1fbe]/gu, (c) => EXTRA_FOLDS[c]!);
+}
+
+/**
+ * Split text into normalized, stemmed tokens
+ */
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(WORD)].map((match) => ({
+    term: stem(normalize(match[0])),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+/**
+ * Normalized tokens of a search phrase (empty if it has no letters or
+ * digits), left unstemmed as FTS5 stems query terms itself
+ */
+export function phraseTokens(phrase: string): string[] {
+  return [...phrase.matchAll(WORD)]
+    .map((match) => normalize(match[0]))
+    .filter((term) => term.length > 0);
+}
+
+/**
+ * Stemmed terms of a search phrase, as they appear in tokenized text
+ */
+function phraseTerms(phrase: string): string[] {
+  return phraseTokens(phrase).map(stem);
+}
+
+/**
+ * Positions in a token list where a phrase starts
+ */
+function findPhrase(tokens: Token[], phrase: string[]): number[] {
+  const positions: number[] = [];
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    const matches = phrase.every((term, j) =>
+      j === phrase.length - 1
+        ? tokens[i + j]!.term.startsWith(term)
+        : tokens[i + j]!.term === term
+    );
+    if (matches) positions.push(i);
+  }
+  return positions;
+}
+
+/**
+ * Text of each indexed column of a task
+ */
+function columnTexts(task: Task): string[] {
+  return SEARCH_COLUMNS.map((column) => task[column] ?? "");
+}
+
+/**
+ * Check whether a task's title, description or category contains a phrase
+ */
+export function containsPhrase(task: Task, phrase: string): boolean {
+  const terms = phraseTerms(phrase);
+  return (
+    terms.length === 0 ||
+    columnTexts(task).some(
+      (text) => findPhrase(tokenize(text), terms).length > 0
+    )
+  );
+}
+
+/**
+ * Render a window of a column around its first match, highlighting matches
+ */
+function buildSnippet(
+  text: string,
+  tokens: Token[],
+  hits: PhraseHit[]
+): string {
+  const first = Math.min(...hits.map((h) => h.position));
+  const start = Math.max(0, Math.min(first, tokens.length - SNIPPET_TOKENS));
+  const end = Math.min(tokens.length, start + SNIPPET_TOKENS);
+
+  // A multi-term phrase is highlighted as one span
+  const spanStarts = new Set(hits.map((h) => h.position));
+  const spanEnds = new Set(hits.map((h) => h.position + h.length - 1));
+
+  let snippet = start > 0 ? "…" : "";
+  let offset = start > 0 ? tokens[start]!.start : 0;
+  for (let i = start; i < end; i++) {
+    const token = tokens[i]!;
+    snippet += text.slice(offset, token.start);
+    if (spanStarts.has(i)) snippet += HIGHLIGHT_START;
+    snippet += text.slice(token.start, token.end);
+    if (spanEnds.has(i)) snippet += HIGHLIGHT_END;
+    offset = token.end;
+  }
+  snippet += end < tokens.length ? "…" : text.slice(offset);
+  return snippet;
+}
+
+/**
+ * In-memory inverted index over the searchable fields of a set of tasks
+ */
+interface SearchIndex {
+  docs: { task: Task; columns: Token[][]; length: number }[];
+  postings: Map<string, Set<number>>; // term -> indexes into docs
+  averageLength: number;
+}
+
+/**
+ * Build an inverted index over tasks
+ */
+export function buildSearchIndex(tasks: Task[]): SearchIndex {
+  const postings = new Map<string, Set<number>>();
+  let totalLength = 0;
+
+  const docs = tasks.map((task, index) => {
+    const columns = columnTexts(task).map(tokenize);
+    const length = columns.reduce((sum, tokens) => sum + tokens.length, 0);
+    totalLength += length;
+
+    for (const tokens of columns) {
+      for (const token of tokens) {
+        let docIds = postings.get(token.term);
+        if (!docIds) {
+          docIds = new Set();
+          postings.set(token.term, docIds);
+        }
+        docIds.add(index);
+      }
+    }
+    return { task, columns, length };
+  });
+
+  return {
+    docs,
+    postings,
+    averageLength: docs.length > 0 ? totalLength / docs.length : 0,
+  };
+}
+
+/**
+ * Indexes of documents that may contain a phrase, from the postings of its
+ * first term (a prefix when the phrase is a single term)
+ */
+function candidateDocs(index: SearchIndex, phrase: string[]): Set<number> {
+  const [first] = phrase;
+  if (phrase.length > 1) {
+    return index.postings.get(first!) ?? new Set();
+  }
+
+  const docIds = new Set<number>();
+  for (const [term, ids] of index.postings) {
+    if (term.startsWith(first!)) {
+      ids.forEach((id) => docIds.add(id));
+    }
+  }
+  return docIds;
+}
+
+/**
+ * Rank tasks matching any of the phrases with BM25, best first
+ *
+ * `allowed` limits results to tasks that passed the other filters, while
+ * corpus statistics come from every indexed task (like an FTS5 table).
+ */
+export function rankTasks(
+  index: SearchIndex,
+  phrases: string[],
+  allowed: Set<string>
+): SearchResult[] {
+  const scores = new Map<number, number>();
+  const hits = new Map<number, PhraseHit[]>();
+
+  for (const phrase of phrases.map(phraseTerms)) {
+    if (phrase.length === 0) continue;
+
+    // Weighted hit frequency of the phrase in each matching document
+    const frequencies = new Map<number, number>();
+    for (const docId of candidateDocs(index, phrase)) {
+      const doc = index.docs[docId]!;
+      let frequency = 0;
+      doc.columns.forEach((tokens, column) => {
+        for (const position of findPhrase(tokens, phrase)) {
+          frequency += SEARCH_WEIGHTS[column]!;
+          hits.set(docId, [
+            ...(hits.get(docId) ?? []),
+            { column, position, length: phrase.length },
+          ]);
+        }
+      });
+      if (frequency > 0) frequencies.set(docId, frequency);
+    }
+
+    const docCount = index.docs.length;
+    const idf = Math.max(
+      Math.log((docCount - frequencies.size + 0.5) / (frequencies.size + 0.5)),
+      1e-6
+    );
+
+    for (const [docId, frequency] of frequencies) {
+      const doc = index.docs[docId]!;
+      const norm = 1 - B + (B * doc.length) / index.averageLength;
+      const score = (idf * frequency * (K1 + 1)) / (frequency + K1 * norm);
+      scores.set(docId, (scores.get(docId) ?? 0) + score);
+    }
+  }
+
+  const results: SearchResult[] = [];
+  for (const [docId, score] of scores) {
+    const doc = index.docs[docId]!;
+    if (!allowed.has(doc.task.id)) continue;
+
+    // Show the column with the most matches, preferring earlier columns
+    const docHits = hits.get(docId)!;
+    const counts = doc.columns.map(
+      (_, column) => docHits.filter((h) => h.column === column).length
+    );
+    const column = counts.indexOf(Math.max(...counts));
+    const snippet = buildSnippet(
+      columnTexts(doc.task)[column]!,
+      doc.columns[column]!,
+      docHits.filter((h) => h.column === column)
+    );
+
+    results.push({ task: doc.task, score, snippet });
+  }
+
+  return results.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.task.createdAt.localeCompare(b.task.createdAt) ||
+      a.task.id.localeCompare(b.task.id)
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * Task statistics shared by get_task_stats and the review prompts
+ */
+
+import { Task, TaskStatsReport, TimeEntry } from "./types.js";
+import { shiftDate } from "./recurrence.js";
+
+// Time zone whose calendar decides which day it is when due dates are
+// compared with today (an IANA name such as "Europe/Berlin")
+const TIMEZONE = process.env.TIMEZONE || "UTC";
+
+const dateParts = new Intl.DateTimeFormat("en-US", {
+  timeZone: TIMEZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+/**
+ * The date at a moment (now unless given) in TIMEZONE, as YYYY-MM-DD
+ */
+export function todayDate(now = new Date()): string {
+  const parts = Object.fromEntries(
+    dateParts.formatToParts(now).map((part) => [part.type, part.value])
+  );
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+/**
+ * Minutes logged per task ID (running timers count as nothing yet)
+ */
+export function sumMinutesByTask(entries: TimeEntry[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const entry of entries) {
+    totals.set(entry.taskId, (totals.get(entry.taskId) ?? 0) + entry.minutes);
+  }
+  return totals;
+}
+
+/**
+ * Aggregate counts, completion rate, due dates, recurring streaks and
+ * logged time over a list of tasks, judging due dates against `today`
+ * (YYYY-MM-DD); time entries for other tasks are ignored
+ */
+export function computeTaskStats(
+  tasks: Task[],
+  today: string = todayDate(),
+  timeEntries: TimeEntry[] = []
+): TaskStatsReport {
+  // Calculate statistics
+  const total = tasks.length;
+  const byStatus = {
+    pending: tasks.filter((t) => t.status === "pending").length,
+    in_progress: tasks.filter((t) => t.status === "in_progress").length,
+    completed: tasks.filter((t) => t.status === "completed").length,
+  };
+
+  const byPriority = {
+    high: tasks.filter((t) => t.priority === "high").length,
+    medium: tasks.filter((t) => t.priority === "medium").length,
+    low: tasks.filter((t) => t.priority === "low").length,
+  };
+
+  // Category and tag counts
+  const byCategory: Record<string, number> = {};
+  const byTag: Record<string, number> = {};
+  tasks.forEach((t) => {
+    if (t.category) {
+      byCategory[t.category] = (byCategory[t.category] ?? 0) + 1;
+    }
+    t.tags?.forEach((tag) => {
+      byTag[tag] = (byTag[tag] ?? 0) + 1;
+    });
+  });
+
+  // Check for overdue and upcoming tasks
+  const oneWeekFromNow = shiftDate(today, 7);
+
+  const overdue = tasks.filter(
+    (t) => t.status !== "completed" && t.dueDate && t.dueDate < today
+  ).length;
+
+  const dueSoon = tasks.filter(
+    (t) =>
+      t.status !== "completed" &&
+      t.dueDate &&
+      t.dueDate >= today &&
+      t.dueDate <= oneWeekFromNow
+  ).length;
+
+  const completionRate =
+    total > 0 ? Math.round((byStatus.completed / total) * 1000) / 10 : 0;
+
+  // On-time streaks for recurring series
+  const series = new Map<string, Task[]>();
+  tasks.forEach((t) => {
+    if (t.seriesId) {
+      series.set(t.seriesId, [...(series.get(t.seriesId) || []), t]);
+    }
+  });
+
+  const recurringSeries: TaskStatsReport["recurringSeries"] = [];
+  series.forEach((occurrences, seriesId) => {
+    const finished = occurrences
+      .filter((t) => t.status === "completed" && t.completedAt && t.dueDate)
+      .sort((a, b) => (a.occurrence ?? 1) - (b.occurrence ?? 1));
+    if (finished.length === 0) return;
+
+    let current = 0;
+    let best = 0;
+    let onTime = 0;
+    finished.forEach((t) => {
+      if (t.completedAt!.split("T")[0]! <= t.dueDate!) {
+        onTime++;
+        current++;
+        best = Math.max(best, current);
+      } else {
+        current = 0;
+      }
+    });
+
+    const latest = occurrences.reduce((a, b) =>
+      (b.occurrence ?? 1) > (a.occurrence ?? 1) ? b : a
+    );
+    recurringSeries.push({
+      seriesId,
+      title: latest.title,
+      currentStreak: current,
+      bestStreak: best,
+      onTime,
+      completed: finished.length,
+    });
+  });
+  recurringSeries.sort((a, b) => a.title.localeCompare(b.title));
+
+  // Logged time per category, and against estimates once tasks are done
+  const minutesByTask = sumMinutesByTask(timeEntries);
+  let timeLogged = 0;
+  const timeByCategory: Record<string, number> = {};
+  let estimateAccuracy: TaskStatsReport["estimateAccuracy"];
+  tasks.forEach((t) => {
+    const minutes = minutesByTask.get(t.id) ?? 0;
+    timeLogged += minutes;
+    if (t.category && minutes > 0) {
+      timeByCategory[t.category] = (timeByCategory[t.category] ?? 0) + minutes;
+    }
+    if (t.status === "completed" && t.estimateMinutes && minutes > 0) {
+      estimateAccuracy ??= {
+        tasks: 0,
+        estimatedMinutes: 0,
+        loggedMinutes: 0,
+        ratio: 0,
+      };
+      estimateAccuracy.tasks++;
+      estimateAccuracy.estimatedMinutes += t.estimateMinutes;
+      estimateAccuracy.loggedMinutes += minutes;
+    }
+  });
+  if (estimateAccuracy) {
+    estimateAccuracy.ratio =
+      Math.round(
+        (estimateAccuracy.loggedMinutes / estimateAccuracy.estimatedMinutes) *
+          100
+      ) / 100;
+  }
+
+  return {
+    total,
+    completionRate,
+    byStatus,
+    byPriority,
+    byCategory,
+    byTag,
+    overdue,
+    dueSoon,
+    recurringSeries,
+    timeLogged,
+    timeByCategory,
+    estimateAccuracy,
+  };
+}
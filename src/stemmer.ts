@@ -0,0 +1,258 @@
+/**
+ * Porter stemmer matching SQLite's FTS5 "porter" tokenizer
+ *
+ * FTS5 stems the UTF-8 bytes of each token and leaves tokens shorter than 3
+ * or longer than 64 bytes alone. Terms are stemmed the same way here, one
+ * character per byte, so the in-memory index and tasks_fts agree on every
+ * term ("running" and "runs" both become "run").
+ */
+
+// Token lengths in bytes that FTS5 stems
+const MIN_STEM_BYTES = 3;
+const MAX_STEM_BYTES = 64;
+
+// Suffix replacements for steps 2 and 3, applied when the stem has m > 0
+const STEP2_SUFFIXES: [string, string][] = [
+  ["ational", "ate"],
+  ["tional", "tion"],
+  ["enci", "ence"],
+  ["anci", "ance"],
+  ["izer", "ize"],
+  ["bli", "ble"],
+  ["alli", "al"],
+  ["entli", "ent"],
+  ["eli", "e"],
+  ["ousli", "ous"],
+  ["ization", "ize"],
+  ["ation", "ate"],
+  ["ator", "ate"],
+  ["alism", "al"],
+  ["iveness", "ive"],
+  ["fulness", "ful"],
+  ["ousness", "ous"],
+  ["aliti", "al"],
+  ["iviti", "ive"],
+  ["biliti", "ble"],
+  ["logi", "log"],
+];
+
+const STEP3_SUFFIXES: [string, string][] = [
+  ["icate", "ic"],
+  ["ative", ""],
+  ["alize", "al"],
+  ["iciti", "ic"],
+  ["ical", "ic"],
+  ["ful", ""],
+  ["ness", ""],
+];
+
+// Suffixes removed by step 4 when the stem has m > 1 ("ion" is handled
+// separately, as it also needs the stem to end in "s" or "t")
+const STEP4_SUFFIXES = [
+  "al",
+  "ance",
+  "ence",
+  "er",
+  "ic",
+  "able",
+  "ible",
+  "ant",
+  "ement",
+  "ment",
+  "ent",
+  "ou",
+  "ism",
+  "ate",
+  "iti",
+  "ous",
+  "ive",
+  "ize",
+];
+
+/**
+ * Check whether a character is a vowel ("y" only when `yIsVowel` is set)
+ */
+function isVowel(c: string, yIsVowel: boolean): boolean {
+  return "aeiou".includes(c) || (yIsVowel && c === "y");
+}
+
+/**
+ * Length of the shortest prefix containing a vowel followed by a
+ * consonant, or 0 if there is none
+ */
+function gobbleVC(stem: string, prevConsonant: boolean): number {
+  let consonant = prevConsonant;
+  let i = 0;
+  for (; i < stem.length; i++) {
+    consonant = !isVowel(stem[i]!, consonant);
+    if (!consonant) break;
+  }
+  for (i++; i < stem.length; i++) {
+    consonant = !isVowel(stem[i]!, consonant);
+    if (consonant) return i + 1;
+  }
+  return 0;
+}
+
+/**
+ * Check whether a stem's measure m is greater than 0
+ */
+function measureAbove0(stem: string): boolean {
+  return gobbleVC(stem, false) > 0;
+}
+
+/**
+ * Check whether a stem's measure m is exactly 1
+ */
+function measureIs1(stem: string): boolean {
+  const n = gobbleVC(stem, false);
+  return n > 0 && gobbleVC(stem.slice(n), true) === 0;
+}
+
+/**
+ * Check whether a stem's measure m is greater than 1
+ */
+function measureAbove1(stem: string): boolean {
+  const n = gobbleVC(stem, false);
+  return n > 0 && gobbleVC(stem.slice(n), true) > 0;
+}
+
+/**
+ * Check whether a stem contains a vowel
+ */
+function hasVowel(stem: string): boolean {
+  return [...stem].some((c, i) => isVowel(c, i > 0));
+}
+
+/**
+ * Check whether a stem ends consonant-vowel-consonant, where the last
+ * consonant is not "w", "x" or "y"
+ */
+function endsCVC(stem: string): boolean {
+  if ("wxy".includes(stem[stem.length - 1] ?? "")) return false;
+
+  let mask = 0;
+  let consonant = false;
+  for (const c of stem) {
+    consonant = !isVowel(c, consonant);
+    mask = ((mask << 1) | (consonant ? 1 : 0)) & 0b111;
+  }
+  return mask === 0b101;
+}
+
+/**
+ * Check whether a word ends in a suffix that leaves a non-empty stem
+ */
+function hasSuffix(word: string, suffix: string): boolean {
+  return word.length > suffix.length && word.endsWith(suffix);
+}
+
+/**
+ * Replace the longest matching suffix of a list when `condition` holds for
+ * the stem in front of it
+ */
+function replaceSuffix(
+  word: string,
+  suffixes: [string, string][],
+  condition: (stem: string) => boolean
+): string {
+  const match = suffixes
+    .filter(([suffix]) => hasSuffix(word, suffix))
+    .sort(([a], [b]) => b.length - a.length)[0];
+  if (!match) return word;
+
+  const stem = word.slice(0, -match[0].length);
+  return condition(stem) ? stem + match[1] : word;
+}
+
+/**
+ * Steps 1a to 1c: plurals, "-ed", "-ing" and a final "y"
+ */
+function step1(word: string): string {
+  if (hasSuffix(word, "sses") || hasSuffix(word, "ies")) {
+    word = word.slice(0, -2);
+  } else if (hasSuffix(word, "s") && !word.endsWith("ss")) {
+    word = word.slice(0, -1);
+  }
+
+  let removed = false;
+  if (hasSuffix(word, "eed")) {
+    if (measureAbove0(word.slice(0, -3))) word = word.slice(0, -1);
+  } else if (hasSuffix(word, "ed") && hasVowel(word.slice(0, -2))) {
+    word = word.slice(0, -2);
+    removed = true;
+  } else if (hasSuffix(word, "ing") && hasVowel(word.slice(0, -3))) {
+    word = word.slice(0, -3);
+    removed = true;
+  }
+
+  if (removed) {
+    if (["at", "bl", "iz"].some((suffix) => hasSuffix(word, suffix))) {
+      word += "e";
+    } else {
+      const last = word[word.length - 1]!;
+      if (
+        !isVowel(last, false) &&
+        !"lsz".includes(last) &&
+        last === word[word.length - 2]
+      ) {
+        word = word.slice(0, -1);
+      } else if (measureIs1(word) && endsCVC(word)) {
+        word += "e";
+      }
+    }
+  }
+
+  if (word.endsWith("y") && hasVowel(word.slice(0, -1))) {
+    word = word.slice(0, -1) + "i";
+  }
+  return word;
+}
+
+/**
+ * Step 4: remove a suffix from a stem with m > 1
+ */
+function step4(word: string): string {
+  if (hasSuffix(word, "ion")) {
+    const stem = word.slice(0, -3);
+    return measureAbove1(stem) && /[st]$/.test(stem) ? stem : word;
+  }
+  return replaceSuffix(
+    word,
+    STEP4_SUFFIXES.map((suffix) => [suffix, ""]),
+    measureAbove1
+  );
+}
+
+/**
+ * Step 5: drop a final "e" and reduce a final "ll"
+ */
+function step5(word: string): string {
+  if (word.endsWith("e")) {
+    const stem = word.slice(0, -1);
+    if (measureAbove1(stem) || (measureIs1(stem) && !endsCVC(stem))) {
+      word = stem;
+    }
+  }
+  if (word.endsWith("ll") && measureAbove1(word.slice(0, -1))) {
+    word = word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Stem a lowercase token
+ */
+export function stem(term: string): string {
+  // One character per UTF-8 byte, as FTS5 sees the token
+  const bytes = Buffer.from(term, "utf8").toString("latin1");
+  if (bytes.length < MIN_STEM_BYTES || bytes.length > MAX_STEM_BYTES) {
+    return term;
+  }
+
+  let word = step1(bytes);
+  word = replaceSuffix(word, STEP2_SUFFIXES, measureAbove0);
+  word = replaceSuffix(word, STEP3_SUFFIXES, measureAbove0);
+  word = step5(step4(word));
+  return Buffer.from(word, "latin1").toString("utf8");
+}
@@ -1,8 +1,39 @@
 import Database from "better-sqlite3";
+import { AsyncLocalStorage } from "async_hooks";
 import path from "path";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
-import { Task, TaskStorage, Priority } from "./types.js";
+import {
+  Task,
+  Status,
+  TaskFilter,
+  Workspace,
+  HistoryEntry,
+  TimeEntry,
+  TimeEntryFilter,
+  SentReminder,
+  SearchPage,
+  QueryOptions,
+  SchemaStatus,
+  MigrationResult,
+} from "./types.js";
+import { QueryNode, QueryField, priorityRank } from "./query.js";
+import {
+  SEARCH_WEIGHTS,
+  HIGHLIGHT_START,
+  HIGHLIGHT_END,
+  SNIPPET_TOKENS,
+  phraseTokens,
+} from "./search.js";
+import { DEFAULT_SORT_ORDER } from "./pagination.js";
+import { MAX_CANDIDATES, parseTaskKey, pickTask } from "./task-keys.js";
+import {
+  DB_MIGRATIONS,
+  describeSchema,
+  assertSupported,
+  pendingMigrations,
+  backupPath,
+} from "./migrations.js";
 
 // Get current directory (ESM compatibility)
 const __filename = fileURLToPath(import.meta.url);
@@ -12,55 +43,323 @@ const __dirname = dirname(__filename);
 const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, "..", "data");
 const DB_FILE = path.join(DATA_DIR, "tasks.db");
 
-// Initialize database
+// Initialize database (tables are created by migrate(), see migrations.ts)
 const db = new Database(DB_FILE);
 
-// Create tasks table if it doesn't exist
-db.exec(`
-  CREATE TABLE IF NOT EXISTS tasks (
-    id TEXT PRIMARY KEY,
-    title TEXT NOT NULL,
-    description TEXT,
-    priority TEXT NOT NULL CHECK(priority IN ('low', 'medium', 'high')),
-    category TEXT,
-    dueDate TEXT,
-    status TEXT NOT NULL CHECK(status IN ('pending', 'in_progress', 'completed')),
-    createdAt TEXT NOT NULL,
-    completedAt TEXT
-  )
-`);
+// INSERT OR REPLACE only fires delete triggers (which keep the full-text
+// index in sync) when recursive triggers are enabled
+db.pragma("recursive_triggers = ON");
 
-// Create index for faster queries
-db.exec(`
-  CREATE INDEX IF NOT EXISTS idx_status ON tasks(status);
-  CREATE INDEX IF NOT EXISTS idx_priority ON tasks(priority);
-  CREATE INDEX IF NOT EXISTS idx_category ON tasks(category);
-`);
+// Write-ahead logging lets the read connection below read while a write
+// transaction is open
+db.pragma("journal_mode = WAL");
+
+// Reads made outside withLock use their own connection, so they only see
+// committed data and never wait for a writer
+const readDb = new Database(DB_FILE, { readonly: true });
+
+// Columns selected for every task query (dependencies and tags are folded
+// into lists)
+const TASK_COLUMNS = `
+  tasks.*,
+  (SELECT group_concat(blockedById) FROM task_dependencies d
+    WHERE d.taskId = tasks.id) AS blockedBy,
+  (SELECT group_concat(tag) FROM (SELECT tag FROM task_tags t
+    WHERE t.taskId = tasks.id ORDER BY tag)) AS tags
+`;
+
+// Raw row as returned by better-sqlite3 (optional columns come back as NULL)
+type TaskRow = Record<string, unknown>;
 
 /**
- * Load all tasks from database
+ * Convert a database row to a Task, dropping NULL columns
  */
-export async function loadTasks(): Promise<TaskStorage> {
-  const stmt = db.prepare("SELECT * FROM tasks");
-  const rows = stmt.all() as Task[];
+function rowToTask(row: TaskRow): Task {
+  const task: TaskRow = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (value !== null) {
+      task[key] = value;
+    }
+  }
+  if (typeof task.blockedBy === "string") {
+    task.blockedBy = task.blockedBy.split(",");
+  }
+  if (typeof task.tags === "string") {
+    task.tags = task.tags.split(",");
+  }
+  if (typeof task.recurrence === "string") {
+    task.recurrence = JSON.parse(task.recurrence);
+  }
+  if (typeof task.remindAt === "string") {
+    task.remindAt = JSON.parse(task.remindAt);
+  }
+  return task as unknown as Task;
+}
 
+// SQL expression for each single-valued query language field (dates as
+// YYYY-MM-DD). Empty strings count as missing, as they do in memory:
+// writeTask() stores them as NULL, but rows from older versions may hold them.
+const QUERY_COLUMNS: Record<Exclude<QueryField, "tag">, string> = {
+  status: "status",
+  priority: "priority",
+  category: "NULLIF(category, '')",
+  assignee: "NULLIF(assignee, '')",
+  owner: "NULLIF(createdBy, '')",
+  due: "NULLIF(dueDate, '')",
+  created: "substr(createdAt, 1, 10)",
+  completed: "NULLIF(substr(completedAt, 1, 10), '')",
+};
+
+// Rank of each priority, matching priorityRank()
+const PRIORITY_RANK_SQL =
+  "CASE priority WHEN 'low' THEN 0 WHEN 'medium' THEN 1 WHEN 'high' THEN 2 END";
+
+/**
+ * FTS5 phrase matching consecutive terms, the last one as a prefix
+ */
+function toFtsPhrase(terms: string[]): string {
+  return `"${terms.join(" ")}"*`;
+}
+
+/**
+ * Compile a query AST into a parameterized SQL condition
+ */
+function compileQuery(node: QueryNode, params: unknown[]): string {
+  switch (node.type) {
+    case "and":
+    case "or":
+      return `(${node.children
+        .map((child) => compileQuery(child, params))
+        .join(node.type === "and" ? " AND " : " OR ")})`;
+    case "not":
+      return `NOT ${compileQuery(node.child, params)}`;
+    case "text": {
+      const terms = phraseTokens(node.value);
+      if (terms.length === 0) {
+        return "1";
+      }
+      params.push(toFtsPhrase(terms));
+      return (
+        "tasks.rowid IN " +
+        "(SELECT rowid FROM tasks_fts WHERE tasks_fts MATCH ?)"
+      );
+    }
+    case "compare": {
+      if (node.field === "tag") {
+        if (node.value === null) {
+          return "id NOT IN (SELECT taskId FROM task_tags)";
+        }
+        params.push(node.value.toLowerCase());
+        return "id IN (SELECT taskId FROM task_tags WHERE tag = ?)";
+      }
+
+      const column = QUERY_COLUMNS[node.field];
+      if (node.value === null) {
+        return `${column} IS NULL`;
+      }
+
+      // Missing values never match, so negating a comparison includes them
+      if (node.field === "priority") {
+        params.push(priorityRank(node.value));
+        return `(${PRIORITY_RANK_SQL} ${node.op} ?)`;
+      }
+      if (["category", "assignee", "owner"].includes(node.field)) {
+        params.push(node.value);
+        return `(${column} IS NOT NULL AND LOWER(${column}) = LOWER(?))`;
+      }
+      params.push(node.value);
+      return `(${column} IS NOT NULL AND ${column} ${node.op} ?)`;
+    }
+  }
+}
+
+/**
+ * Comma-separated "?" placeholders for a list of values
+ */
+function placeholders(values: unknown[]): string {
+  return values.map(() => "?").join(", ");
+}
+
+/**
+ * Build a parameterized WHERE clause from a filter, plus any extra clauses
+ */
+function buildWhere(
+  filter: TaskFilter,
+  clauses: string[] = [],
+  params: unknown[] = []
+): { sql: string; params: unknown[] } {
+  if (filter.deleted === "only") {
+    clauses.push("deletedAt IS NOT NULL");
+  } else if (filter.deleted !== "include") {
+    clauses.push("deletedAt IS NULL");
+  }
+  if (filter.ids) {
+    clauses.push(`id IN (${placeholders(filter.ids)})`);
+    params.push(...filter.ids);
+  }
+  if (filter.workspaceId) {
+    clauses.push("workspaceId = ?");
+    params.push(filter.workspaceId);
+  }
+  if (filter.status) {
+    clauses.push("status = ?");
+    params.push(filter.status);
+  }
+  if (filter.priority) {
+    clauses.push("priority = ?");
+    params.push(filter.priority);
+  }
+  if (filter.category) {
+    clauses.push("LOWER(category) = LOWER(?)");
+    params.push(filter.category);
+  }
+  if (filter.tagsAny) {
+    clauses.push(
+      `id IN (SELECT taskId FROM task_tags WHERE tag IN (${placeholders(filter.tagsAny)}))`
+    );
+    params.push(...filter.tagsAny);
+  }
+  if (filter.tagsAll) {
+    const tags = [...new Set(filter.tagsAll)];
+    clauses.push(
+      `id IN (SELECT taskId FROM task_tags WHERE tag IN (${placeholders(tags)})
+        GROUP BY taskId HAVING COUNT(*) = ?)`
+    );
+    params.push(...tags, tags.length);
+  }
+  if (filter.parentId === null) {
+    clauses.push("parentId IS NULL");
+  } else if (filter.parentId !== undefined) {
+    clauses.push("parentId = ?");
+    params.push(filter.parentId);
+  }
+  if (filter.parentIds) {
+    clauses.push(`parentId IN (${placeholders(filter.parentIds)})`);
+    params.push(...filter.parentIds);
+  }
+  if (filter.blockedBy) {
+    clauses.push(
+      "id IN (SELECT taskId FROM task_dependencies WHERE blockedById = ?)"
+    );
+    params.push(filter.blockedBy);
+  }
+  if (filter.seriesId) {
+    clauses.push("seriesId = ?");
+    params.push(filter.seriesId);
+  }
+  if (filter.assignee) {
+    clauses.push("assignee = ?");
+    params.push(filter.assignee);
+  }
+  if (filter.query) {
+    clauses.push(compileQuery(filter.query, params));
+  }
+
+  return {
+    sql: clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "",
+    params,
+  };
+}
+
+/**
+ * Build an ORDER BY clause matching compareBy() in pagination.ts
+ */
+function buildOrderBy(options: QueryOptions, defaultOrder?: string): string {
+  if (!options.sortBy) {
+    return defaultOrder ? `ORDER BY ${defaultOrder}` : "";
+  }
+
+  const direction = (
+    options.sortOrder ?? DEFAULT_SORT_ORDER[options.sortBy]
+  ).toUpperCase();
+  let order: string;
+  switch (options.sortBy) {
+    case "priority":
+      order = `${PRIORITY_RANK_SQL} ${direction}, dueDate IS NULL, dueDate`;
+      break;
+    case "title":
+      order = `LOWER(title) ${direction}`;
+      break;
+    default:
+      // Missing values sort last in either direction
+      order = `${options.sortBy} IS NULL, ${options.sortBy} ${direction}`;
+  }
+  return `ORDER BY ${order}, tasks.id`;
+}
+
+/**
+ * Build a LIMIT/OFFSET clause for paged queries
+ */
+function buildLimit(options: QueryOptions): { sql: string; params: unknown[] } {
+  if (options.limit === undefined && !options.offset) {
+    return { sql: "", params: [] };
+  }
   return {
-    tasks: rows,
-    lastUpdated: new Date().toISOString(),
+    sql: "LIMIT ? OFFSET ?",
+    params: [options.limit ?? -1, options.offset ?? 0],
   };
 }
 
 /**
- * Save a single task to database (insert or update)
+ * Prepare a statement on first use, since its tables only exist once
+ * migrate() has run
+ */
+function lazyStatement(sql: string): () => Database.Statement {
+  let stmt: Database.Statement | undefined;
+  return () => (stmt ??= db.prepare(sql));
+}
+
+const upsertStmt = lazyStatement(`
+  INSERT OR REPLACE INTO tasks (
+    id, title, description, priority, category, dueDate, status, createdAt, completedAt,
+    parentId, recurrence, seriesId, occurrence, workspaceId, createdBy, assignee,
+    deletedAt, version, number, estimateMinutes, remindAt, snoozedUntil
+  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+`);
+
+// Number for the next new task (past every stored one, even if the
+// counter is behind after copying tasks in)
+const NEXT_NUMBER_SQL = `
+  SELECT MAX(
+    COALESCE((SELECT value FROM counters WHERE name = 'task'), 1),
+    (SELECT COALESCE(MAX(number), 0) + 1 FROM tasks)
+  ) AS next
+`;
+const nextNumberStmt = lazyStatement(NEXT_NUMBER_SQL);
+const saveNextNumberStmt = lazyStatement(
+  "INSERT OR REPLACE INTO counters (name, value) VALUES ('task', ?)"
+);
+
+const deleteDependenciesStmt = lazyStatement(
+  "DELETE FROM task_dependencies WHERE taskId = ?"
+);
+const insertDependencyStmt = lazyStatement(
+  "INSERT OR IGNORE INTO task_dependencies (taskId, blockedById) VALUES (?, ?)"
+);
+
+const deleteTagsStmt = lazyStatement("DELETE FROM task_tags WHERE taskId = ?");
+const insertTagStmt = lazyStatement(
+  "INSERT OR IGNORE INTO task_tags (taskId, tag) VALUES (?, ?)"
+);
+
+/**
+ * Remove dependency links and tags that point at tasks which no longer exist
  */
-export async function saveTask(task: Task): Promise<void> {
-  const stmt = db.prepare(`
-    INSERT OR REPLACE INTO tasks (
-      id, title, description, priority, category, dueDate, status, createdAt, completedAt
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+function pruneLinks(): void {
+  db.exec(`
+    DELETE FROM task_dependencies
+    WHERE taskId NOT IN (SELECT id FROM tasks)
+       OR blockedById NOT IN (SELECT id FROM tasks);
+    DELETE FROM task_tags WHERE taskId NOT IN (SELECT id FROM tasks);
   `);
+}
 
-  stmt.run(
+/**
+ * Insert or replace a single task row along with its dependency links and
+ * tags
+ */
+const writeTask = db.transaction((task: Task) => {
+  upsertStmt().run(
     task.id,
     task.title,
     task.description || null,
@@ -69,91 +368,590 @@ export async function saveTask(task: Task): Promise<void> {
     task.dueDate || null,
     task.status,
     task.createdAt,
-    task.completedAt || null
+    task.completedAt || null,
+    task.parentId || null,
+    task.recurrence ? JSON.stringify(task.recurrence) : null,
+    task.seriesId || null,
+    task.occurrence ?? null,
+    task.workspaceId,
+    task.createdBy || null,
+    task.assignee || null,
+    task.deletedAt || null,
+    task.version,
+    task.number ?? null,
+    task.estimateMinutes ?? null,
+    task.remindAt ? JSON.stringify(task.remindAt) : null,
+    task.snoozedUntil || null
   );
+
+  deleteDependenciesStmt().run(task.id);
+  for (const blockedById of task.blockedBy ?? []) {
+    insertDependencyStmt().run(task.id, blockedById);
+  }
+
+  deleteTagsStmt().run(task.id);
+  for (const tag of task.tags ?? []) {
+    insertTagStmt().run(task.id, tag);
+  }
+});
+
+/**
+ * Insert new tasks, numbering those without a number
+ */
+const insertNewTasks = db.transaction((batch: Task[]) => {
+  let { next } = nextNumberStmt().get() as { next: number };
+  for (const task of batch) {
+    task.number ??= next;
+    next = Math.max(next, task.number + 1);
+    writeTask(task);
+  }
+  saveNextNumberStmt().run(next);
+});
+
+/**
+ * The number the next new task gets
+ */
+export async function nextTaskNumber(): Promise<number> {
+  const conn = reader();
+  const { next } = conn.prepare(NEXT_NUMBER_SQL).get() as { next: number };
+  return next;
 }
 
 /**
- * Save multiple tasks (used for compatibility with file storage)
- */
-export async function saveTasks(storage: TaskStorage): Promise<void> {
-  const transaction = db.transaction((tasks: Task[]) => {
-    for (const task of tasks) {
-      const stmt = db.prepare(`
-        INSERT OR REPLACE INTO tasks (
-          id, title, description, priority, category, dueDate, status, createdAt, completedAt
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `);
-
-      stmt.run(
-        task.id,
-        task.title,
-        task.description || null,
-        task.priority,
-        task.category || null,
-        task.dueDate || null,
-        task.status,
-        task.createdAt,
-        task.completedAt || null
-      );
+ * Make sure new tasks get numbers from `next` on, at least
+ */
+export async function reserveTaskNumbers(next: number): Promise<void> {
+  await waitForOtherTransactions();
+  const { next: current } = nextNumberStmt().get() as { next: number };
+  saveNextNumberStmt().run(Math.max(current, next));
+}
+
+/**
+ * Find a task by key, full ID or ID prefix (throws if a prefix is ambiguous)
+ */
+export async function getTask(
+  ref: string,
+  filter: TaskFilter = {}
+): Promise<Task | undefined> {
+  const conn = reader();
+  const number = parseTaskKey(ref);
+  const where =
+    number !== undefined
+      ? buildWhere(filter, ["number = ?"], [number])
+      : buildWhere(filter, ["substr(id, 1, ?) = ?"], [ref.length, ref]);
+  const stmt = conn.prepare(
+    `SELECT ${TASK_COLUMNS} FROM tasks ${where.sql} LIMIT ${MAX_CANDIDATES}`
+  );
+  const rows = stmt.all(...where.params) as TaskRow[];
+  return pickTask(ref, rows.map(rowToTask));
+}
+
+/**
+ * Query tasks matching a filter
+ */
+export async function queryTasks(
+  filter: TaskFilter = {},
+  options: QueryOptions = {}
+): Promise<Task[]> {
+  const conn = reader();
+  const where = buildWhere(filter);
+  const limit = buildLimit(options);
+  const stmt = conn.prepare(`
+    SELECT ${TASK_COLUMNS} FROM tasks ${where.sql}
+    ${buildOrderBy(options)} ${limit.sql}
+  `);
+  const rows = stmt.all(...where.params, ...limit.params) as TaskRow[];
+  return rows.map(rowToTask);
+}
+
+/**
+ * Rank tasks matching any phrase and the filter with FTS5's BM25
+ */
+export async function searchTasks(
+  phrases: string[],
+  filter: TaskFilter = {},
+  options: QueryOptions = {}
+): Promise<SearchPage> {
+  const conn = reader();
+  const match = phrases
+    .map(phraseTokens)
+    .filter((terms) => terms.length > 0)
+    .map(toFtsPhrase)
+    .join(" OR ");
+  if (!match) {
+    return { results: [], total: 0 };
+  }
+
+  const where = buildWhere(filter);
+  const from = `
+    FROM tasks
+    JOIN (
+      SELECT
+        rowid,
+        bm25(tasks_fts, ${SEARCH_WEIGHTS.join(", ")}) AS score,
+        snippet(tasks_fts, -1, ?, ?, '…', ${SNIPPET_TOKENS}) AS snippet
+      FROM tasks_fts
+      WHERE tasks_fts MATCH ?
+    ) matches ON matches.rowid = tasks.rowid
+    ${where.sql}
+  `;
+  const params = [HIGHLIGHT_START, HIGHLIGHT_END, match, ...where.params];
+
+  const limit = buildLimit(options);
+  const orderBy = buildOrderBy(
+    options,
+    "matches.score, tasks.createdAt, tasks.id"
+  );
+  const rows = conn
+    .prepare(
+      `SELECT ${TASK_COLUMNS}, matches.score, matches.snippet ${from} ${orderBy} ${limit.sql}`
+    )
+    .all(...params, ...limit.params) as TaskRow[];
+  const { count } = conn
+    .prepare(`SELECT COUNT(*) AS count ${from}`)
+    .get(...params) as { count: number };
+
+  return {
+    results: rows.map(({ score, snippet, ...row }) => ({
+      task: rowToTask(row),
+      score: -(score as number), // bm25() is negative, lower is better
+      snippet: snippet as string,
+    })),
+    total: count,
+  };
+}
+
+/**
+ * Count tasks matching a filter
+ */
+export async function countTasks(filter: TaskFilter = {}): Promise<number> {
+  const conn = reader();
+  const where = buildWhere(filter);
+  const stmt = conn.prepare(`SELECT COUNT(*) AS count FROM tasks ${where.sql}`);
+  const row = stmt.get(...where.params) as { count: number };
+  return row.count;
+}
+
+/**
+ * Count tasks matching a filter by status
+ */
+export async function countByStatus(
+  filter: TaskFilter = {}
+): Promise<Record<Status, number>> {
+  const conn = reader();
+  const where = buildWhere(filter);
+  const rows = conn
+    .prepare(
+      `SELECT status, COUNT(*) AS count FROM tasks ${where.sql} GROUP BY status`
+    )
+    .all(...where.params) as { status: Status; count: number }[];
+
+  const counts: Record<Status, number> = {
+    pending: 0,
+    in_progress: 0,
+    completed: 0,
+  };
+  for (const { status, count } of rows) {
+    counts[status] = count;
+  }
+  return counts;
+}
+
+/**
+ * Insert a new task
+ */
+export async function insertTask(task: Task): Promise<void> {
+  await waitForOtherTransactions();
+  insertNewTasks([task]);
+}
+
+/**
+ * Insert several new tasks in a single transaction
+ */
+export async function insertTasks(tasks: Task[]): Promise<void> {
+  await waitForOtherTransactions();
+  insertNewTasks(tasks);
+}
+
+/**
+ * Update an existing task
+ */
+export async function updateTask(task: Task): Promise<void> {
+  await waitForOtherTransactions();
+  writeTask(task);
+}
+
+/**
+ * Update several tasks in a single transaction
+ */
+export async function updateTasks(tasks: Task[]): Promise<void> {
+  await waitForOtherTransactions();
+  const transaction = db.transaction((batch: Task[]) => {
+    for (const task of batch) {
+      writeTask(task);
     }
   });
 
-  transaction(storage.tasks);
+  transaction(tasks);
 }
 
 /**
  * Delete a task from database
  */
 export async function deleteTask(taskId: string): Promise<boolean> {
+  await waitForOtherTransactions();
   const stmt = db.prepare("DELETE FROM tasks WHERE id = ?");
   const result = stmt.run(taskId);
+  pruneLinks();
   return result.changes > 0;
 }
 
 /**
- * Format a task for display (same as file storage)
+ * Delete every task matching a filter
  */
-export function formatTask(task: Task): string {
-  const statusEmoji =
-    task.status === "completed"
-      ? "✅"
-      : task.status === "in_progress"
-        ? "⏳"
-        : "📋";
+export async function deleteTasks(filter: TaskFilter): Promise<number> {
+  await waitForOtherTransactions();
+  const where = buildWhere(filter);
+  const stmt = db.prepare(`DELETE FROM tasks ${where.sql}`);
+  const result = stmt.run(...where.params);
+  pruneLinks();
+  return result.changes;
+}
 
-  const priorityEmoji: Record<Priority, string> = {
-    high: "🔴",
-    medium: "🟡",
-    low: "🟢",
-  };
+/**
+ * Find a workspace by ID
+ */
+export async function getWorkspace(id: string): Promise<Workspace | undefined> {
+  const conn = reader();
+  const stmt = conn.prepare("SELECT * FROM workspaces WHERE id = ?");
+  return stmt.get(id) as Workspace | undefined;
+}
 
-  let result = `${statusEmoji} Task #${task.id.substring(0, 8)}: ${task.title}\n`;
-  result += `   ${priorityEmoji[task.priority]} Priority: ${task.priority}\n`;
+/**
+ * List all workspaces
+ */
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const conn = reader();
+  const stmt = conn.prepare("SELECT * FROM workspaces ORDER BY createdAt");
+  return stmt.all() as Workspace[];
+}
 
-  if (task.description) {
-    result += `   Description: ${task.description}\n`;
+/**
+ * Register a new workspace
+ */
+export async function insertWorkspace(workspace: Workspace): Promise<void> {
+  await waitForOtherTransactions();
+  const stmt = db.prepare(
+    "INSERT INTO workspaces (id, createdBy, createdAt) VALUES (?, ?, ?)"
+  );
+  stmt.run(workspace.id, workspace.createdBy, workspace.createdAt);
+}
+
+const insertHistoryStmt = lazyStatement(`
+  INSERT INTO task_history (
+    taskId, workspaceId, timestamp, tool, actor, action, changes
+  ) VALUES (?, ?, ?, ?, ?, ?, ?)
+`);
+
+/**
+ * Append entries to the history table in a single transaction
+ */
+export async function appendHistory(entries: HistoryEntry[]): Promise<void> {
+  await waitForOtherTransactions();
+  const transaction = db.transaction((batch: HistoryEntry[]) => {
+    for (const e of batch) {
+      insertHistoryStmt().run(
+        e.taskId,
+        e.workspaceId,
+        e.timestamp,
+        e.tool,
+        e.actor,
+        e.action,
+        JSON.stringify(e.changes)
+      );
+    }
+  });
+
+  transaction(entries);
+}
+
+/**
+ * Read history entries for a task (full ID or prefix), oldest first
+ */
+export async function getHistory(
+  taskIdPrefix: string,
+  workspaceId?: string
+): Promise<HistoryEntry[]> {
+  const conn = reader();
+  const where = workspaceId ? "AND workspaceId = ?" : "";
+  const stmt = conn.prepare(`
+    SELECT taskId, workspaceId, timestamp, tool, actor, action, changes
+    FROM task_history
+    WHERE substr(taskId, 1, ?) = ? ${where}
+    ORDER BY id
+  `);
+  const params: unknown[] = [taskIdPrefix.length, taskIdPrefix];
+  if (workspaceId) {
+    params.push(workspaceId);
+  }
+
+  const rows = stmt.all(...params) as (Omit<HistoryEntry, "changes"> & {
+    changes: string;
+  })[];
+
+  return rows.map((row) => ({ ...row, changes: JSON.parse(row.changes) }));
+}
+
+const upsertTimeEntryStmt = lazyStatement(`
+  INSERT OR REPLACE INTO time_entries (
+    id, taskId, workspaceId, userId, startedAt, endedAt, minutes, note
+  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+`);
+
+/**
+ * Insert or replace a time entry row
+ */
+function writeTimeEntry(entry: TimeEntry): void {
+  upsertTimeEntryStmt().run(
+    entry.id,
+    entry.taskId,
+    entry.workspaceId,
+    entry.userId,
+    entry.startedAt,
+    entry.endedAt ?? null,
+    entry.minutes,
+    entry.note || null
+  );
+}
+
+/**
+ * List time entries matching a filter, oldest first
+ */
+export async function queryTimeEntries(
+  filter: TimeEntryFilter = {}
+): Promise<TimeEntry[]> {
+  const conn = reader();
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+  if (filter.workspaceId) {
+    clauses.push("workspaceId = ?");
+    params.push(filter.workspaceId);
   }
-  if (task.category) {
-    result += `   Category: ${task.category}\n`;
+  if (filter.taskIds) {
+    clauses.push(`taskId IN (${placeholders(filter.taskIds)})`);
+    params.push(...filter.taskIds);
   }
-  if (task.dueDate) {
-    result += `   Due: ${task.dueDate}\n`;
+  if (filter.userId) {
+    clauses.push("userId = ?");
+    params.push(filter.userId);
   }
+  if (filter.running !== undefined) {
+    clauses.push(filter.running ? "endedAt IS NULL" : "endedAt IS NOT NULL");
+  }
+
+  const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+  const rows = conn
+    .prepare(`SELECT * FROM time_entries ${where} ORDER BY startedAt, id`)
+    .all(...params) as TaskRow[];
+
+  // Drop NULL columns, as for tasks
+  return rows.map(
+    (row) =>
+      Object.fromEntries(
+        Object.entries(row).filter(([, value]) => value !== null)
+      ) as unknown as TimeEntry
+  );
+}
+
+/**
+ * Insert time entries in a single transaction
+ */
+export async function insertTimeEntries(entries: TimeEntry[]): Promise<void> {
+  await waitForOtherTransactions();
+  const transaction = db.transaction((batch: TimeEntry[]) => {
+    batch.forEach(writeTimeEntry);
+  });
+
+  transaction(entries);
+}
+
+/**
+ * Replace an existing time entry
+ */
+export async function updateTimeEntry(entry: TimeEntry): Promise<void> {
+  await waitForOtherTransactions();
+  writeTimeEntry(entry);
+}
 
-  result += `   Status: ${task.status}\n`;
-  result += `   Created: ${new Date(task.createdAt).toLocaleString()}\n`;
+const insertSentReminderStmt = lazyStatement(`
+  INSERT OR IGNORE INTO sent_reminders (key, taskId, workspaceId, sentAt)
+  VALUES (?, ?, ?, ?)
+`);
+
+/**
+ * List sent reminders, optionally only those for some tasks, oldest first
+ */
+export async function querySentReminders(
+  taskIds?: string[]
+): Promise<SentReminder[]> {
+  const conn = reader();
+  const where = taskIds ? `WHERE taskId IN (${placeholders(taskIds)})` : "";
+  const stmt = conn.prepare(
+    `SELECT * FROM sent_reminders ${where} ORDER BY sentAt, key`
+  );
+  return stmt.all(...(taskIds ?? [])) as SentReminder[];
+}
+
+/**
+ * Record sent reminders in a single transaction
+ */
+export async function insertSentReminders(
+  reminders: SentReminder[]
+): Promise<void> {
+  await waitForOtherTransactions();
+  const transaction = db.transaction((batch: SentReminder[]) => {
+    for (const r of batch) {
+      insertSentReminderStmt().run(r.key, r.taskId, r.workspaceId, r.sentAt);
+    }
+  });
+
+  transaction(reminders);
+}
+
+/**
+ * Forget sent reminders by key
+ */
+export async function deleteSentReminders(keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+  await waitForOtherTransactions();
+  db.prepare(
+    `DELETE FROM sent_reminders WHERE key IN (${placeholders(keys)})`
+  ).run(...keys);
+}
+
+// Set while a call chain holds the write transaction below
+const lockHolder = new AsyncLocalStorage<boolean>();
+
+// Tail of the queue of callers waiting for the write transaction
+let lockQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Connection for a read: the write connection inside withLock, so a call
+ * sees its own uncommitted writes, and the read connection everywhere else
+ * (read-only tools, resources, prompts), so nothing reads writes that may
+ * still be rolled back
+ */
+function reader(): Database.Database {
+  return lockHolder.getStore() ? db : readDb;
+}
 
-  if (task.completedAt) {
-    result += `   Completed: ${new Date(task.completedAt).toLocaleString()}\n`;
+/**
+ * Wait until no other caller has the write transaction open, so a write
+ * made outside withLock isn't added to it. The statements after it run
+ * synchronously, so nothing can start in between.
+ */
+async function waitForOtherTransactions(): Promise<void> {
+  while (db.inTransaction && !lockHolder.getStore()) {
+    await lockQueue;
+  }
+}
+
+/**
+ * Run a read-modify-write sequence inside one IMMEDIATE transaction
+ *
+ * Callers in this process take turns (they share one connection), and the
+ * transaction's write lock keeps other processes out until it commits. If
+ * fn throws, its writes are rolled back. Nested calls join the outer one;
+ * writes from outside wait for the commit or rollback, while reads from
+ * outside go ahead on the read connection. Closing the database inside fn
+ * ends the transaction (fn must not have written anything then).
+ */
+export function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  if (lockHolder.getStore()) {
+    return fn();
   }
 
+  const run = async () => {
+    db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = await lockHolder.run(true, fn);
+      // Retiring the database after --migrate-storage closes it in here
+      if (db.open) {
+        db.exec("COMMIT");
+      }
+      return result;
+    } catch (error) {
+      if (db.inTransaction) {
+        db.exec("ROLLBACK");
+      }
+      throw error;
+    }
+  };
+  const result = lockQueue.then(run, run);
+  lockQueue = result.catch(() => {});
   return result;
 }
 
+/**
+ * Files holding this backend's data
+ */
+export function dataFiles(): string[] {
+  return [DB_FILE];
+}
+
+/**
+ * Compare the database's user_version with the latest migration
+ */
+export async function schemaStatus(): Promise<SchemaStatus> {
+  const version = db.pragma("user_version", { simple: true }) as number;
+  return describeSchema("database", DB_FILE, version, DB_MIGRATIONS);
+}
+
+/**
+ * Apply pending migrations, each in its own transaction, after backing up
+ * a database that already has tables
+ */
+export async function migrate(): Promise<MigrationResult> {
+  const status = await schemaStatus();
+  assertSupported(status);
+  const pending = pendingMigrations(DB_MIGRATIONS, status.version);
+  if (pending.length === 0) {
+    return { applied: [] };
+  }
+
+  let backup: string | undefined;
+  const { count } = db
+    .prepare("SELECT COUNT(*) AS count FROM sqlite_master")
+    .get() as { count: number };
+  if (count > 0) {
+    backup = backupPath(DB_FILE, status.version);
+    db.prepare("VACUUM INTO ?").run(backup);
+  }
+
+  const applyStep = db.transaction((step: (typeof pending)[number]) => {
+    // Another server sharing the database may have applied it meanwhile
+    const current = db.pragma("user_version", { simple: true }) as number;
+    if (current >= step.version) {
+      return false;
+    }
+    step.up(db);
+    db.pragma(`user_version = ${step.version}`);
+    return true;
+  });
+  const applied: MigrationResult["applied"] = [];
+  for (const step of pending) {
+    if (applyStep.immediate(step)) {
+      applied.push({ version: step.version, description: step.description });
+    }
+  }
+
+  return { applied, backup };
+}
+
 /**
  * Close database connection (for graceful shutdown)
  */
 export function closeDatabase(): void {
+  readDb.close();
   db.close();
 }
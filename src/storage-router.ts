@@ -6,29 +6,247 @@
  * - "database" or "db" - Uses SQLite database
  */
 
-import type { TaskStorage } from "./types.js";
+import type {
+  AuditContext,
+  FieldChange,
+  HistoryEntry,
+  HistoryRepository,
+  ReminderRepository,
+  SchemaRepository,
+  StorageBackend,
+  StorageChange,
+  StorageLock,
+  Task,
+  TaskFilter,
+  TaskRepository,
+  TimeEntryRepository,
+  VersionChange,
+  WorkspaceRepository,
+} from "./types.js";
+
+// Both storage modules implement the task, workspace, history, time,
+// reminder and schema repositories and a lock for read-modify-write
+// sequences
+export type StorageModule = TaskRepository &
+  WorkspaceRepository &
+  HistoryRepository &
+  TimeEntryRepository &
+  ReminderRepository &
+  SchemaRepository &
+  StorageLock & {
+    dataFiles: () => string[]; // files holding the backend's data
+    nextTaskNumber: () => Promise<number>; // number the next new task gets
+    reserveTaskNumbers: (next: number) => Promise<void>; // skip up to next
+    closeDatabase?: () => void;
+  };
+
+/**
+ * Map a STORAGE_TYPE value to a backend ("file" unless it names SQLite)
+ */
+export function parseStorageType(value: string): StorageBackend {
+  const type = value.toLowerCase();
+  return type === "database" || type === "db" ? "database" : "file";
+}
+
+/**
+ * Import the storage module of a backend
+ */
+export async function loadStorageModule(
+  backend: StorageBackend
+): Promise<StorageModule> {
+  return backend === "database"
+    ? await import("./storage-db.js")
+    : await import("./storage.js");
+}
 
 // Determine storage type from environment
-const STORAGE_TYPE = (process.env.STORAGE_TYPE || "file").toLowerCase();
+export const STORAGE_BACKEND = parseStorageType(
+  process.env.STORAGE_TYPE || "file"
+);
 
 // Import the appropriate storage module
-let storageModule: any;
-
-if (STORAGE_TYPE === "database" || STORAGE_TYPE === "db") {
-  console.error("Using SQLite database storage");
-  storageModule = await import("./storage-db.js");
-} else {
-  console.error("Using JSON file storage");
-  storageModule = await import("./storage.js");
+console.error(
+  STORAGE_BACKEND === "database"
+    ? "Using SQLite database storage"
+    : "Using JSON file storage"
+);
+const storageModule = await loadStorageModule(STORAGE_BACKEND);
+
+const changeListeners = new Set<(change: StorageChange) => void>();
+
+/**
+ * Call a listener after every write to tasks or time entries made by this
+ * process, returning a function that stops the calls
+ */
+export function onStorageChange(
+  listener: (change: StorageChange) => void
+): () => void {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+}
+
+/**
+ * Tell the change listeners about a write
+ */
+function emitChange(change: StorageChange): void {
+  for (const listener of changeListeners) {
+    listener(change);
+  }
+}
+
+/**
+ * Compute field-level changes between two versions of a task
+ */
+function diffTasks(
+  before: Task | undefined,
+  after: Task | undefined
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+
+  // Versions change with every write, so they aren't worth recording
+  fields.delete("version");
+
+  for (const field of fields) {
+    const oldValue = (before as Record<string, unknown> | undefined)?.[field];
+    const newValue = (after as Record<string, unknown> | undefined)?.[field];
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = { before: oldValue, after: newValue };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Get a repository whose lookups are confined to one workspace
+ *
+ * When an audit context is given, every mutation is also appended to the
+ * task history with a field-level diff.
+ */
+export function getRepository(
+  workspaceId: string,
+  audit?: AuditContext
+): TaskRepository {
+  const scoped = (filter: TaskFilter = {}) => ({ ...filter, workspaceId });
+
+  // Build history entries for tasks changing from `before` to `after`
+  const record = async (
+    action: HistoryEntry["action"],
+    pairs: [Task | undefined, Task | undefined][]
+  ) => {
+    emitChange({
+      workspaceId,
+      tasks: pairs.flat().filter((task): task is Task => task !== undefined),
+    });
+    if (!audit) return;
+
+    const timestamp = new Date().toISOString();
+    const entries: HistoryEntry[] = [];
+    const versions: Record<string, VersionChange> = {};
+    for (const [before, after] of pairs) {
+      const changes = diffTasks(before, after);
+      if (Object.keys(changes).length > 0) {
+        versions[(after ?? before)!.id] = {
+          before: before?.version ?? null,
+          after: after?.version ?? null,
+        };
+        entries.push({
+          taskId: (after ?? before)!.id,
+          workspaceId,
+          timestamp,
+          tool: audit.tool,
+          actor: audit.actor,
+          action,
+          changes,
+        });
+      }
+    }
+    if (entries.length > 0) {
+      await storageModule.appendHistory(entries);
+      audit.onRecord?.(entries, versions);
+    }
+  };
+
+  // Load the stored versions of tasks about to change (even if trashed)
+  const loadCurrent = (taskIds: string[]) =>
+    Promise.all(
+      taskIds.map((id) =>
+        storageModule.getTask(id, scoped({ deleted: "include" }))
+      )
+    );
+
+  return {
+    getTask: (ref, filter) => storageModule.getTask(ref, scoped(filter)),
+    queryTasks: (filter, options) =>
+      storageModule.queryTasks(scoped(filter), options),
+    countTasks: (filter) => storageModule.countTasks(scoped(filter)),
+    countByStatus: (filter) => storageModule.countByStatus(scoped(filter)),
+    searchTasks: (phrases, filter, options) =>
+      storageModule.searchTasks(phrases, scoped(filter), options),
+    insertTask: async (task) => {
+      const stored = { ...task, workspaceId, version: 1 };
+      await storageModule.insertTask(stored);
+      task.number = stored.number; // assigned by the backend
+      await record("create", [[undefined, stored]]);
+    },
+    insertTasks: async (tasks) => {
+      const stored = tasks.map((t) => ({ ...t, workspaceId, version: 1 }));
+      await storageModule.insertTasks(stored);
+      tasks.forEach((t, i) => (t.number = stored[i]!.number));
+      await record("create", stored.map((t) => [undefined, t]));
+    },
+    updateTask: async (task) => {
+      const [before] = await loadCurrent([task.id]);
+      task.version = (before?.version ?? 0) + 1;
+      await storageModule.updateTask(task);
+      await record("update", [[before, task]]);
+    },
+    updateTasks: async (tasks) => {
+      const before = await loadCurrent(tasks.map((t) => t.id));
+      tasks.forEach((t, i) => (t.version = (before[i]?.version ?? 0) + 1));
+      await storageModule.updateTasks(tasks);
+      await record("update", tasks.map((t, i) => [before[i], t]));
+    },
+    deleteTask: async (taskId) => {
+      const [before] = await loadCurrent([taskId]);
+      const deleted = await storageModule.deleteTask(taskId);
+      if (deleted) {
+        await record("delete", [[before, undefined]]);
+      }
+      return deleted;
+    },
+    deleteTasks: async (filter) => {
+      const before = await storageModule.queryTasks(scoped(filter));
+      const count = await storageModule.deleteTasks(scoped(filter));
+      await record("delete", before.map((t) => [t, undefined]));
+      return count;
+    },
+  };
 }
 
 // Export unified interface
-export const loadTasks: () => Promise<TaskStorage> = storageModule.loadTasks;
-export const saveTasks: (storage: TaskStorage) => Promise<void> =
-  storageModule.saveTasks;
-export const formatTask: (task: any) => string = storageModule.formatTask;
+export const workspaces: WorkspaceRepository = storageModule;
+export const history: HistoryRepository = storageModule;
+export const timeEntries: TimeEntryRepository = {
+  queryTimeEntries: (filter) => storageModule.queryTimeEntries(filter),
+  insertTimeEntries: async (entries) => {
+    await storageModule.insertTimeEntries(entries);
+    for (const workspaceId of new Set(entries.map((e) => e.workspaceId))) {
+      emitChange({ workspaceId, tasks: [] });
+    }
+  },
+  updateTimeEntry: async (entry) => {
+    await storageModule.updateTimeEntry(entry);
+    emitChange({ workspaceId: entry.workspaceId, tasks: [] });
+  },
+};
+export const reminders: ReminderRepository = storageModule;
+export const schema: SchemaRepository = storageModule;
+export const storageLock: StorageLock = storageModule;
 
 // Optional: database-specific exports (won't exist for file storage)
-export const saveTask = storageModule.saveTask || undefined;
-export const deleteTask = storageModule.deleteTask || undefined;
-export const closeDatabase = storageModule.closeDatabase || undefined;
+export const closeDatabase = storageModule.closeDatabase;
@@ -2,7 +2,35 @@ import fs from "fs-extra";
 import path from "path";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
-import { Task, TaskStorage, Priority } from "./types.js";
+import {
+  Task,
+  Status,
+  TaskStorage,
+  TaskFilter,
+  SearchPage,
+  QueryOptions,
+  Workspace,
+  HistoryEntry,
+  TimeEntry,
+  TimeEntryFilter,
+  SentReminder,
+  SchemaStatus,
+  MigrationResult,
+  DEFAULT_WORKSPACE,
+} from "./types.js";
+import { matchesQuery } from "./query.js";
+import { buildSearchIndex, rankTasks } from "./search.js";
+import { paginate } from "./pagination.js";
+import {
+  FILE_MIGRATIONS,
+  latestVersion,
+  describeSchema,
+  assertSupported,
+  pendingMigrations,
+  backupPath,
+} from "./migrations.js";
+import { createFileLock } from "./file-lock.js";
+import { parseTaskKey, pickTask } from "./task-keys.js";
 
 // Get current directory (ESM compatibility)
 const __filename = fileURLToPath(import.meta.url);
@@ -11,74 +39,676 @@ const __dirname = dirname(__filename);
 // Storage configuration - environment-aware
 const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, "..", "data");
 const TASKS_FILE = path.join(DATA_DIR, "tasks.json");
+const HISTORY_FILE = path.join(DATA_DIR, "history.jsonl");
+const LOCK_FILE = path.join(DATA_DIR, "tasks.json.lock");
+const QUARANTINE_DIR = path.join(DATA_DIR, "quarantine");
 
 // Ensure data directory exists
 fs.ensureDirSync(DATA_DIR);
 
+// Serializes writers across every process sharing DATA_DIR
+const lock = createFileLock(LOCK_FILE);
+
+// Version of the tasks.json format this server reads and writes
+const SCHEMA_VERSION = latestVersion(FILE_MIGRATIONS);
+
 /**
- * Load tasks from JSON file
+ * Storage for a data directory without a tasks file
+ */
+function emptyStorage(): TaskStorage {
+  const now = new Date().toISOString();
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    tasks: [],
+    workspaces: [
+      { id: DEFAULT_WORKSPACE, createdBy: "system", createdAt: now },
+    ],
+    timeEntries: [],
+    sentReminders: [],
+    lastUpdated: now,
+  };
+}
+
+/**
+ * Move an unreadable tasks file into the quarantine directory, returning
+ * its new path
+ */
+async function quarantine(): Promise<string> {
+  await fs.ensureDir(QUARANTINE_DIR);
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const target = path.join(QUARANTINE_DIR, `tasks.${stamp}.json`);
+  await fs.move(TASKS_FILE, target);
+  return target;
+}
+
+/**
+ * Read and parse the tasks file: undefined if there is none, or the error
+ * that kept it from being parsed
  */
-export async function loadTasks(): Promise<TaskStorage> {
+async function parseStorageFile(): Promise<TaskStorage | Error | undefined> {
+  let text: string;
   try {
-    if (await fs.pathExists(TASKS_FILE)) {
-      const data = await fs.readJson(TASKS_FILE);
-      return data as TaskStorage;
+    text = await fs.readFile(TASKS_FILE, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
     }
+    throw error;
+  }
+
+  try {
+    const data = JSON.parse(text) as TaskStorage;
+    if (!Array.isArray(data?.tasks)) {
+      throw new Error("no tasks list");
+    }
+    return data;
   } catch (error) {
-    console.error("Error loading tasks:", error);
+    return error as Error;
   }
+}
 
-  // Return empty storage if file doesn't exist or error occurs
-  return {
-    tasks: [],
-    lastUpdated: new Date().toISOString(),
-  };
+// Whether the warning about a missing tasks file next to quarantined
+// files has been logged
+let warnedMissing = false;
+
+/**
+ * Read the tasks file, or undefined for a new data directory
+ *
+ * A file that can't be parsed is quarantined and reported rather than
+ * treated as empty, which would let the next save overwrite it. That only
+ * happens under the lock, after reading the file again, so a reader never
+ * moves away a file a writer has just put in place. A missing tasks file
+ * next to quarantined ones starts an empty store, with a warning.
+ */
+async function readStorageFile(): Promise<TaskStorage | undefined> {
+  let data = await parseStorageFile();
+  if (data instanceof Error) {
+    data = await withLock(async () => {
+      const again = await parseStorageFile();
+      if (!(again instanceof Error)) {
+        return again;
+      }
+      const moved = await quarantine();
+      throw new Error(
+        `${TASKS_FILE} is corrupt (${again.message}) and was moved to ${moved}; restore tasks.json from a backup before continuing`
+      );
+    });
+  }
+
+  if (!data && !warnedMissing && (await fs.pathExists(QUARANTINE_DIR))) {
+    const quarantined = await fs.readdir(QUARANTINE_DIR);
+    if (quarantined.length > 0) {
+      warnedMissing = true;
+      console.error(
+        `Warning: ${TASKS_FILE} is missing and ${QUARANTINE_DIR} holds ${quarantined.length} unreadable file(s); starting with no tasks. Restore tasks.json from a backup to get them back.`
+      );
+    }
+  }
+  return data;
+}
+
+/**
+ * Load tasks from JSON file
+ */
+async function loadTasks(): Promise<TaskStorage> {
+  const data = await readStorageFile();
+  if (!data) {
+    return emptyStorage();
+  }
+
+  // Older files must go through migrate() (which backs them up) first
+  const version = data.schemaVersion ?? 0;
+  if (version !== SCHEMA_VERSION) {
+    throw new Error(
+      `${TASKS_FILE} has schema version ${version} but ${SCHEMA_VERSION} is required; restart the server or run it with --migrate`
+    );
+  }
+  return data;
+}
+
+/**
+ * Write a file through a temporary file and a rename, so that a crash
+ * leaves either the old or the new contents
+ */
+async function writeFileAtomic(file: string, content: string): Promise<void> {
+  const temp = `${file}.${process.pid}.tmp`;
+  const fd = await fs.open(temp, "w");
+  try {
+    await fs.writeFile(fd, content);
+    await fs.fsync(fd);
+  } finally {
+    await fs.close(fd);
+  }
+  await fs.rename(temp, file);
+
+  // Make the rename itself durable (Windows can't open directories)
+  if (process.platform !== "win32") {
+    const dir = await fs.open(path.dirname(file), "r");
+    try {
+      await fs.fsync(dir);
+    } finally {
+      await fs.close(dir);
+    }
+  }
 }
 
 /**
  * Save tasks to JSON file
  */
-export async function saveTasks(storage: TaskStorage): Promise<void> {
+async function saveTasks(storage: TaskStorage): Promise<void> {
   storage.lastUpdated = new Date().toISOString();
-  await fs.writeJson(TASKS_FILE, storage, { spaces: 2 });
+  await writeFileAtomic(TASKS_FILE, JSON.stringify(storage, null, 2) + "\n");
+}
+
+/**
+ * Run a read-modify-write sequence while holding the data directory's
+ * lock (re-entrant, so it can wrap calls to the functions below)
+ */
+export function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  return lock.withLock(fn);
+}
+
+/**
+ * Check whether a task matches a filter
+ */
+function matchesFilter(task: Task, filter: TaskFilter): boolean {
+  if (filter.deleted !== "include") {
+    const wantTrashed = filter.deleted === "only";
+    if (Boolean(task.deletedAt) !== wantTrashed) return false;
+  }
+  if (filter.ids && !filter.ids.includes(task.id)) return false;
+  if (filter.workspaceId && task.workspaceId !== filter.workspaceId) {
+    return false;
+  }
+  if (filter.status && task.status !== filter.status) return false;
+  if (filter.priority && task.priority !== filter.priority) return false;
+  if (
+    filter.category &&
+    task.category?.toLowerCase() !== filter.category.toLowerCase()
+  ) {
+    return false;
+  }
+  if (filter.tagsAny && !filter.tagsAny.some((t) => task.tags?.includes(t))) {
+    return false;
+  }
+  if (filter.tagsAll && !filter.tagsAll.every((t) => task.tags?.includes(t))) {
+    return false;
+  }
+  if (
+    filter.parentId !== undefined &&
+    (task.parentId ?? null) !== filter.parentId
+  ) {
+    return false;
+  }
+  if (
+    filter.parentIds &&
+    !(task.parentId && filter.parentIds.includes(task.parentId))
+  ) {
+    return false;
+  }
+  if (filter.blockedBy && !task.blockedBy?.includes(filter.blockedBy)) {
+    return false;
+  }
+  if (filter.seriesId && task.seriesId !== filter.seriesId) {
+    return false;
+  }
+  if (filter.assignee && task.assignee !== filter.assignee) {
+    return false;
+  }
+  if (filter.query && !matchesQuery(task, filter.query)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Remove dependency links that point at tasks which no longer exist
+ */
+function pruneDependencies(storage: TaskStorage): void {
+  const ids = new Set(storage.tasks.map((t) => t.id));
+  for (const task of storage.tasks) {
+    if (task.blockedBy) {
+      task.blockedBy = task.blockedBy.filter((id) => ids.has(id));
+      if (task.blockedBy.length === 0) {
+        delete task.blockedBy;
+      }
+    }
+  }
+}
+
+/**
+ * The number the next new task gets: past every stored task and every
+ * number handed out before, including those of purged tasks
+ */
+function nextNumber(storage: TaskStorage): number {
+  return storage.tasks.reduce(
+    (max, t) => Math.max(max, (t.number ?? 0) + 1),
+    storage.nextTaskNumber ?? 1
+  );
+}
+
+/**
+ * Give tasks without a number the next ones in sequence, never reusing the
+ * number of a task that has been purged
+ */
+function assignNumbers(storage: TaskStorage, tasks: Task[]): void {
+  let next = nextNumber(storage);
+  for (const task of tasks) {
+    task.number ??= next;
+    next = Math.max(next, task.number + 1);
+  }
+  storage.nextTaskNumber = next;
+}
+
+/**
+ * The number the next new task gets
+ */
+export async function nextTaskNumber(): Promise<number> {
+  return nextNumber(await loadTasks());
+}
+
+/**
+ * Make sure new tasks get numbers from `next` on, at least
+ */
+export async function reserveTaskNumbers(next: number): Promise<void> {
+  return withLock(async () => {
+    const storage = await loadTasks();
+    storage.nextTaskNumber = Math.max(nextNumber(storage), next);
+    await saveTasks(storage);
+  });
+}
+
+/**
+ * Find a task by key, full ID or ID prefix (throws if a prefix is ambiguous)
+ */
+export async function getTask(
+  ref: string,
+  filter: TaskFilter = {}
+): Promise<Task | undefined> {
+  const storage = await loadTasks();
+  const number = parseTaskKey(ref);
+  const candidates = storage.tasks.filter(
+    (t) =>
+      (number !== undefined ? t.number === number : t.id.startsWith(ref)) &&
+      matchesFilter(t, filter)
+  );
+  return pickTask(ref, candidates);
+}
+
+/**
+ * Query tasks matching a filter, optionally sorted and paged
+ */
+export async function queryTasks(
+  filter: TaskFilter = {},
+  options: QueryOptions = {}
+): Promise<Task[]> {
+  const storage = await loadTasks();
+  const tasks = storage.tasks.filter((t) => matchesFilter(t, filter));
+  return paginate(tasks, options, (t) => t);
+}
+
+/**
+ * Count tasks matching a filter
+ */
+export async function countTasks(filter: TaskFilter = {}): Promise<number> {
+  const storage = await loadTasks();
+  return storage.tasks.reduce(
+    (count, t) => (matchesFilter(t, filter) ? count + 1 : count),
+    0
+  );
+}
+
+/**
+ * Count tasks matching a filter by status
+ */
+export async function countByStatus(
+  filter: TaskFilter = {}
+): Promise<Record<Status, number>> {
+  const storage = await loadTasks();
+  const counts: Record<Status, number> = {
+    pending: 0,
+    in_progress: 0,
+    completed: 0,
+  };
+  for (const task of storage.tasks) {
+    if (matchesFilter(task, filter)) counts[task.status]++;
+  }
+  return counts;
 }
 
 /**
- * Format a task for display
+ * Rank tasks matching any phrase and the filter with BM25
  */
-export function formatTask(task: Task): string {
-  const statusEmoji =
-    task.status === "completed"
-      ? "✅"
-      : task.status === "in_progress"
-        ? "⏳"
-        : "📋";
+export async function searchTasks(
+  phrases: string[],
+  filter: TaskFilter = {},
+  options: QueryOptions = {}
+): Promise<SearchPage> {
+  const storage = await loadTasks();
+  const allowed = storage.tasks.filter((t) => matchesFilter(t, filter));
 
-  const priorityEmoji: Record<Priority, string> = {
-    high: "🔴",
-    medium: "🟡",
-    low: "🟢",
+  // Corpus statistics cover every task, as with the SQLite FTS index
+  const index = buildSearchIndex(storage.tasks);
+  const results = rankTasks(index, phrases, new Set(allowed.map((t) => t.id)));
+  return {
+    results: paginate(results, options, (r) => r.task),
+    total: results.length,
   };
+}
+
+/**
+ * Copy of a task without empty text fields, which the SQLite backend stores
+ * as NULL and so reads back as missing
+ */
+function withoutEmptyFields(task: Task): Task {
+  return Object.fromEntries(
+    Object.entries(task).filter(([, value]) => value !== "")
+  ) as unknown as Task;
+}
+
+/**
+ * Append a new task
+ */
+export async function insertTask(task: Task): Promise<void> {
+  return withLock(async () => {
+    const storage = await loadTasks();
+    assignNumbers(storage, [task]);
+    storage.tasks.push(withoutEmptyFields(task));
+    await saveTasks(storage);
+  });
+}
+
+/**
+ * Add several new tasks in a single write
+ */
+export async function insertTasks(tasks: Task[]): Promise<void> {
+  return withLock(async () => {
+    const storage = await loadTasks();
+    assignNumbers(storage, tasks);
+    storage.tasks.push(...tasks.map(withoutEmptyFields));
+    await saveTasks(storage);
+  });
+}
+
+/**
+ * Replace an existing task
+ */
+export async function updateTask(task: Task): Promise<void> {
+  await updateTasks([task]);
+}
+
+/**
+ * Replace several existing tasks in a single write
+ */
+export async function updateTasks(tasks: Task[]): Promise<void> {
+  return withLock(async () => {
+    const storage = await loadTasks();
+    const updates = new Map(tasks.map((t) => [t.id, withoutEmptyFields(t)]));
+    storage.tasks = storage.tasks.map((t) => updates.get(t.id) ?? t);
+    await saveTasks(storage);
+  });
+}
+
+/**
+ * Delete a task by full ID
+ */
+export async function deleteTask(taskId: string): Promise<boolean> {
+  return withLock(async () => {
+    const storage = await loadTasks();
+    const originalCount = storage.tasks.length;
+    storage.tasks = storage.tasks.filter((t) => t.id !== taskId);
+
+    if (storage.tasks.length === originalCount) {
+      return false;
+    }
+
+    pruneDependencies(storage);
+    await saveTasks(storage);
+    return true;
+  });
+}
+
+/**
+ * Delete every task matching a filter
+ */
+export async function deleteTasks(filter: TaskFilter): Promise<number> {
+  return withLock(async () => {
+    const storage = await loadTasks();
+    const originalCount = storage.tasks.length;
+    storage.tasks = storage.tasks.filter((t) => !matchesFilter(t, filter));
+    const removedCount = originalCount - storage.tasks.length;
+
+    if (removedCount > 0) {
+      pruneDependencies(storage);
+      await saveTasks(storage);
+    }
+    return removedCount;
+  });
+}
+
+/**
+ * Find a workspace by ID
+ */
+export async function getWorkspace(id: string): Promise<Workspace | undefined> {
+  const storage = await loadTasks();
+  return storage.workspaces!.find((w) => w.id === id);
+}
+
+/**
+ * List all workspaces
+ */
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const storage = await loadTasks();
+  return storage.workspaces!;
+}
 
-  let result = `${statusEmoji} Task #${task.id.substring(0, 8)}: ${task.title}\n`;
-  result += `   ${priorityEmoji[task.priority]} Priority: ${task.priority}\n`;
+/**
+ * Register a new workspace
+ */
+export async function insertWorkspace(workspace: Workspace): Promise<void> {
+  return withLock(async () => {
+    const storage = await loadTasks();
+    storage.workspaces!.push(workspace);
+    await saveTasks(storage);
+  });
+}
+
+/**
+ * Compare strings by code unit, as SQLite's ORDER BY does
+ */
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
 
-  if (task.description) {
-    result += `   Description: ${task.description}\n`;
+/**
+ * Check whether a time entry matches a filter
+ */
+function matchesTimeFilter(entry: TimeEntry, filter: TimeEntryFilter): boolean {
+  if (filter.workspaceId && entry.workspaceId !== filter.workspaceId) {
+    return false;
+  }
+  if (filter.taskIds && !filter.taskIds.includes(entry.taskId)) {
+    return false;
   }
-  if (task.category) {
-    result += `   Category: ${task.category}\n`;
+  if (filter.userId && entry.userId !== filter.userId) return false;
+  if (
+    filter.running !== undefined &&
+    (entry.endedAt === undefined) !== filter.running
+  ) {
+    return false;
   }
-  if (task.dueDate) {
-    result += `   Due: ${task.dueDate}\n`;
+  return true;
+}
+
+/**
+ * List time entries matching a filter, oldest first
+ */
+export async function queryTimeEntries(
+  filter: TimeEntryFilter = {}
+): Promise<TimeEntry[]> {
+  const storage = await loadTasks();
+  return storage
+    .timeEntries!.filter((e) => matchesTimeFilter(e, filter))
+    .sort(
+      (a, b) => compareText(a.startedAt, b.startedAt) || compareText(a.id, b.id)
+    );
+}
+
+/**
+ * Add time entries in a single write
+ */
+export async function insertTimeEntries(entries: TimeEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  return withLock(async () => {
+    const storage = await loadTasks();
+    storage.timeEntries!.push(...entries);
+    await saveTasks(storage);
+  });
+}
+
+/**
+ * Replace an existing time entry
+ */
+export async function updateTimeEntry(entry: TimeEntry): Promise<void> {
+  return withLock(async () => {
+    const storage = await loadTasks();
+    storage.timeEntries = storage.timeEntries!.map((e) =>
+      e.id === entry.id ? entry : e
+    );
+    await saveTasks(storage);
+  });
+}
+
+/**
+ * List sent reminders, optionally only those for some tasks, oldest first
+ */
+export async function querySentReminders(
+  taskIds?: string[]
+): Promise<SentReminder[]> {
+  const storage = await loadTasks();
+  return storage
+    .sentReminders!.filter((r) => !taskIds || taskIds.includes(r.taskId))
+    .sort(
+      (a, b) => compareText(a.sentAt, b.sentAt) || compareText(a.key, b.key)
+    );
+}
+
+/**
+ * Record sent reminders in a single write
+ */
+export async function insertSentReminders(
+  reminders: SentReminder[]
+): Promise<void> {
+  if (reminders.length === 0) return;
+  return withLock(async () => {
+    const storage = await loadTasks();
+    storage.sentReminders!.push(...reminders);
+    await saveTasks(storage);
+  });
+}
+
+/**
+ * Forget sent reminders by key
+ */
+export async function deleteSentReminders(keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+  return withLock(async () => {
+    const storage = await loadTasks();
+    const forgotten = new Set(keys);
+    storage.sentReminders = storage.sentReminders!.filter(
+      (r) => !forgotten.has(r.key)
+    );
+    await saveTasks(storage);
+  });
+}
+
+/**
+ * Files holding this backend's data
+ */
+export function dataFiles(): string[] {
+  return [TASKS_FILE, HISTORY_FILE];
+}
+
+/**
+ * Compare the tasks file's schemaVersion with the latest migration (a
+ * missing file is created at the latest version)
+ */
+export async function schemaStatus(): Promise<SchemaStatus> {
+  const data = await readStorageFile();
+  const version = data ? (data.schemaVersion ?? 0) : SCHEMA_VERSION;
+  return describeSchema("file", TASKS_FILE, version, FILE_MIGRATIONS);
+}
+
+/**
+ * Apply pending migrations in memory and write the file once, after
+ * copying it to the backups directory
+ */
+export async function migrate(): Promise<MigrationResult> {
+  const current = await schemaStatus();
+  assertSupported(current);
+  if (current.pending.length === 0) {
+    return { applied: [] };
   }
 
-  result += `   Status: ${task.status}\n`;
-  result += `   Created: ${new Date(task.createdAt).toLocaleString()}\n`;
+  return withLock(async () => {
+    const status = await schemaStatus();
+    assertSupported(status);
+    const pending = pendingMigrations(FILE_MIGRATIONS, status.version);
+    if (pending.length === 0) {
+      return { applied: [] };
+    }
+
+    const backup = backupPath(TASKS_FILE, status.version);
+    await fs.copy(TASKS_FILE, backup);
+
+    const storage = (await readStorageFile())!;
+    for (const step of pending) {
+      step.up(storage);
+      storage.schemaVersion = step.version;
+    }
+    await saveTasks(storage);
+
+    return { applied: status.pending, backup };
+  });
+}
 
-  if (task.completedAt) {
-    result += `   Completed: ${new Date(task.completedAt).toLocaleString()}\n`;
+/**
+ * Append entries to the JSONL history log
+ */
+export async function appendHistory(entries: HistoryEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  return withLock(async () => {
+    const lines = entries.map((e) => JSON.stringify(e) + "\n").join("");
+    await fs.appendFile(HISTORY_FILE, lines);
+  });
+}
+
+/**
+ * Read history entries for a task (full ID or prefix), oldest first
+ */
+export async function getHistory(
+  taskIdPrefix: string,
+  workspaceId?: string
+): Promise<HistoryEntry[]> {
+  if (!(await fs.pathExists(HISTORY_FILE))) {
+    return [];
   }
 
-  return result;
+  // A crash during an append can leave a partial last line, which is skipped
+  const content = await fs.readFile(HISTORY_FILE, "utf-8");
+  return content
+    .split("\n")
+    .filter((line) => line.trim())
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as HistoryEntry];
+      } catch {
+        return [];
+      }
+    })
+    .filter(
+      (e) =>
+        e.taskId.startsWith(taskIdPrefix) &&
+        (!workspaceId || e.workspaceId === workspaceId)
+    );
 }
@@ -0,0 +1,68 @@
+/**
+ * Task references: full IDs, ID prefixes and keys such as TASK-42
+ *
+ * Every task gets a sequential number when it is first stored, shown as its
+ * key. Tools accept either the key or (a prefix of) the ID; a prefix that
+ * matches several tasks is rejected with the candidates instead of acting
+ * on whichever comes first.
+ */
+
+import type { Task } from "./types.js";
+
+// Prefix of task keys (TASK-1, TASK-2, ...)
+export const TASK_KEY_PREFIX = "TASK";
+
+// Keys are matched case-insensitively
+const TASK_KEY_PATTERN = new RegExp(`^${TASK_KEY_PREFIX}-(\\d+)$`, "i");
+
+// Candidates listed when a prefix is ambiguous
+export const MAX_CANDIDATES = 10;
+
+/**
+ * Format a task number as its key
+ */
+export function formatTaskKey(number: number): string {
+  return `${TASK_KEY_PREFIX}-${number}`;
+}
+
+/**
+ * Extract the task number from a key, or undefined if ref isn't a key
+ */
+export function parseTaskKey(ref: string): number | undefined {
+  const match = ref.trim().match(TASK_KEY_PATTERN);
+  return match ? parseInt(match[1]!, 10) : undefined;
+}
+
+/**
+ * Thrown when a task reference matches more than one task
+ */
+export class AmbiguousTaskIdError extends Error {
+  constructor(
+    readonly ref: string,
+    readonly candidates: Task[]
+  ) {
+    const list = candidates
+      .map((t) => {
+        const key =
+          t.number !== undefined ? `${formatTaskKey(t.number)} ` : "";
+        return `  - ${key}#${t.id}: ${t.title}`;
+      })
+      .join("\n");
+    super(
+      `Task ID ${ref} is ambiguous; it matches:\n${list}\nUse more characters of the ID or the task key.`
+    );
+    this.name = "AmbiguousTaskIdError";
+  }
+}
+
+/**
+ * Choose the task a reference means among the tasks it matches: an exact
+ * ID wins, otherwise the match must be unique
+ */
+export function pickTask(ref: string, candidates: Task[]): Task | undefined {
+  const exact = candidates.find((t) => t.id === ref);
+  if (exact || candidates.length <= 1) {
+    return exact ?? candidates[0];
+  }
+  throw new AmbiguousTaskIdError(ref, candidates.slice(0, MAX_CANDIDATES));
+}
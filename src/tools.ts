@@ -1,118 +1,2405 @@
 import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
 import {
   Task,
+  TaskRepository,
+  TaskFilter,
+  Session,
+  HistoryEntry,
+  UndoOperation,
+  TimeEntry,
+  SearchPage,
   Priority,
   Status,
   CreateTaskSchema,
   ListTasksSchema,
   UpdateTaskSchema,
+  BulkUpdateSchema,
+  CompleteTaskSchema,
+  DeleteTaskSchema,
+  AddSubtaskSchema,
+  MoveTaskSchema,
+  DependencySchema,
+  NextActionsSchema,
+  WorkspaceSchema,
+  AssignTaskSchema,
+  TaskHistorySchema,
   TaskIdSchema,
+  TagsSchema,
+  RenameTagSchema,
+  ListFilterSchema,
+  ExportSchema,
+  ImportSchema,
+  ImportTaskSchema,
+  UndoSchema,
   SearchSchema,
+  StartTimerSchema,
+  StopTimerSchema,
+  LogTimeSchema,
+  SnoozeReminderSchema,
 } from "./types.js";
-import { loadTasks, saveTasks, formatTask } from "./storage-router.js";
+import {
+  getRepository,
+  workspaces,
+  history,
+  timeEntries,
+} from "./storage-router.js";
+import {
+  formatTask,
+  formatHistoryEntry,
+  formatMinutes,
+  taskLabel,
+} from "./format.js";
+import { anchorRule, nextOccurrence, shiftDate } from "./recurrence.js";
+import { parseQuery, searchPhrases } from "./query.js";
+import { serializeTasks, parseTasks, TRANSFER_MIME_TYPES } from "./transfer.js";
+import { decodeCursor, encodeCursor, queryFingerprint } from "./pagination.js";
+import { parseTaskKey } from "./task-keys.js";
+import { computeTaskStats, todayDate } from "./stats.js";
+import { TRASH_RETENTION_DAYS, isExpired } from "./trash.js";
+
+// Sort order for priorities (lower sorts first)
+const priorityOrder: Record<Priority, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+// Number of tool calls each session can undo
+const MAX_UNDO_STEPS = 50;
+
+// Minutes snooze_reminder waits unless told otherwise
+const DEFAULT_SNOOZE_MINUTES = 60;
+
+/**
+ * Open the session's workspace, recording mutations under the given tool
+ *
+ * All changes made through the repository during one tool call form a
+ * single entry on the session's undo stack.
+ */
+function openRepository(session: Session, tool: string): TaskRepository {
+  const operation: UndoOperation = { entries: [], versions: {} };
+  return getRepository(session.workspaceId, {
+    actor: session.userId,
+    tool,
+    onRecord: (entries, versions) => {
+      if (operation.entries.length === 0) {
+        session.undoStack.push(operation);
+        if (session.undoStack.length > MAX_UNDO_STEPS) {
+          session.undoStack.shift();
+        }
+        session.redoStack.length = 0;
+      }
+      operation.entries.push(...entries);
+
+      // Keep the version each task had before its first change in the call
+      for (const [taskId, change] of Object.entries(versions)) {
+        const before = operation.versions[taskId]?.before;
+        operation.versions[taskId] = {
+          before:
+            before !== undefined
+              ? before
+              : recordedVersion(session, taskId, change.before),
+          after: change.after,
+        };
+      }
+    },
+  });
+}
+
+/**
+ * Open a repository whose changes go into the task history but not on the
+ * session's undo stack
+ */
+function openHistoryOnlyRepository(
+  session: Session,
+  tool: string
+): TaskRepository {
+  return getRepository(session.workspaceId, { actor: session.userId, tool });
+}
+
+/**
+ * The recorded version whose contents a task version holds: versions
+ * written by undo/redo stand for the version they restored
+ */
+function recordedVersion(
+  session: Session,
+  taskId: string,
+  version: number | null
+): number | null {
+  if (version === null) return null;
+  const replayed = session.replayedVersions.get(taskId);
+  return replayed?.has(version) ? replayed.get(version)! : version;
+}
+
+/**
+ * Compare tasks by priority, then by due date (tasks without one last)
+ */
+function compareTasks(a: Task, b: Task): number {
+  const priorityDiff = priorityOrder[a.priority] - priorityOrder[b.priority];
+  if (priorityDiff !== 0) return priorityDiff;
+
+  const aDate = a.dueDate || "9999-99-99";
+  const bDate = b.dueDate || "9999-99-99";
+  return aDate.localeCompare(bDate);
+}
+
+/**
+ * Deduplicate and sort tags, dropping the list entirely when it is empty
+ */
+function normalizeTags(tags: string[] | undefined): string[] | undefined {
+  const unique = [...new Set(tags ?? [])].sort();
+  return unique.length > 0 ? unique : undefined;
+}
+
+/**
+ * Build a new pending task from validated create arguments
+ */
+function buildTask(
+  fields: z.infer<typeof CreateTaskSchema>,
+  session: Session,
+  parentId?: string
+): Task {
+  const id = uuidv4();
+  return {
+    id,
+    workspaceId: session.workspaceId,
+    title: fields.title,
+    description: fields.description,
+    priority: fields.priority as Priority,
+    category: fields.category,
+    tags: normalizeTags(fields.tags),
+    dueDate: fields.dueDate,
+    status: "pending",
+    createdAt: new Date().toISOString(),
+    parentId,
+    recurrence: fields.recurrence,
+    seriesId: fields.recurrence ? id : undefined,
+    occurrence: fields.recurrence ? 1 : undefined,
+    createdBy: session.userId,
+    version: 1,
+    estimateMinutes: fields.estimateMinutes,
+    remindAt: fields.remindAt,
+  };
+}
+
+/**
+ * Build the next occurrence of a completed recurring task, if the series
+ * continues, the occurrence doesn't exist yet and its parent is still open
+ */
+async function buildNextOccurrence(
+  repository: TaskRepository,
+  task: Task
+): Promise<Task | undefined> {
+  if (!task.recurrence) {
+    return undefined;
+  }
+
+  const occurrence = task.occurrence ?? 1;
+  const seriesId = task.seriesId ?? task.id;
+  const fromDate =
+    task.dueDate ??
+    (task.completedAt ?? new Date().toISOString()).split("T")[0]!;
+
+  // Reopening and re-completing an occurrence must not schedule it twice
+  const existing = await repository.queryTasks({
+    seriesId,
+    deleted: "include",
+  });
+  if (existing.some((t) => (t.occurrence ?? 1) > occurrence)) {
+    return undefined;
+  }
+
+  // Subtasks of a completed parent end with it, as open tasks can't go there
+  const parent = task.parentId
+    ? await repository.getTask(task.parentId)
+    : undefined;
+  if (parent?.status === "completed") {
+    return undefined;
+  }
+
+  // Monthly series keep to the day of the month of their first occurrence
+  const first = existing.find((t) => (t.occurrence ?? 1) === 1);
+  const recurrence = anchorRule(task.recurrence, first?.dueDate ?? fromDate);
+  const dueDate = nextOccurrence(recurrence, fromDate, occurrence);
+  if (!dueDate) {
+    return undefined;
+  }
+
+  const next: Task = {
+    id: uuidv4(),
+    workspaceId: task.workspaceId,
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    category: task.category,
+    tags: task.tags,
+    dueDate,
+    status: "pending",
+    createdAt: new Date().toISOString(),
+    parentId: task.parentId,
+    recurrence,
+    seriesId,
+    occurrence: occurrence + 1,
+    createdBy: task.createdBy,
+    assignee: task.assignee,
+    version: 1,
+    estimateMinutes: task.estimateMinutes,
+    remindAt: task.remindAt,
+  };
+  return next;
+}
+
+/**
+ * Create the next occurrence of a completed recurring task, if there is one
+ */
+async function scheduleNextOccurrence(
+  repository: TaskRepository,
+  task: Task
+): Promise<Task | undefined> {
+  const next = await buildNextOccurrence(repository, task);
+  if (next) {
+    await repository.insertTask(next);
+  }
+  return next;
+}
+
+/**
+ * Describe a newly scheduled occurrence for tool output
+ */
+function formatNextOccurrence(next: Task): string {
+  return `\n🔁 Next occurrence scheduled for ${next.dueDate} (#${next.id.substring(0, 8)}).`;
+}
+
+/**
+ * Get the tasks blocking each of several tasks that are not completed yet,
+ * keyed by task ID
+ */
+async function getOpenBlockers(
+  repository: TaskRepository,
+  tasks: Task[]
+): Promise<Map<string, Task[]>> {
+  const ids = [...new Set(tasks.flatMap((t) => t.blockedBy ?? []))];
+  const blockers = ids.length > 0 ? await repository.queryTasks({ ids }) : [];
+  const open = new Map(
+    blockers.filter((b) => b.status !== "completed").map((b) => [b.id, b])
+  );
+
+  return new Map(
+    tasks.map((task) => [
+      task.id,
+      (task.blockedBy ?? []).flatMap((id) => open.get(id) ?? []),
+    ])
+  );
+}
+
+/**
+ * Get the direct subtasks of several tasks, keyed by task ID
+ */
+async function getSubtasks(
+  repository: TaskRepository,
+  tasks: Task[]
+): Promise<Map<string, Task[]>> {
+  const subtasks = new Map(tasks.map((task) => [task.id, [] as Task[]]));
+  if (tasks.length > 0) {
+    const parentIds = tasks.map((t) => t.id);
+    for (const child of await repository.queryTasks({ parentIds })) {
+      subtasks.get(child.parentId!)!.push(child);
+    }
+  }
+  return subtasks;
+}
+
+/**
+ * Check whether a task is (transitively) blocked by another task
+ */
+async function dependsOn(
+  repository: TaskRepository,
+  taskId: string,
+  targetId: string
+): Promise<boolean> {
+  const visited = new Set<string>();
+  const stack = [taskId];
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === targetId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+
+    const task = await repository.getTask(id);
+    stack.push(...(task?.blockedBy ?? []));
+  }
+
+  return false;
+}
+
+/**
+ * Format a task together with its subtask roll-up, open blockers and
+ * logged time
+ */
+async function describeTask(
+  repository: TaskRepository,
+  task: Task
+): Promise<string> {
+  const subtasks = (await getSubtasks(repository, [task])).get(task.id);
+  const blockers = (await getOpenBlockers(repository, [task])).get(task.id);
+  const entries = await timeEntries.queryTimeEntries({ taskIds: [task.id] });
+  const loggedMinutes = entries.reduce((sum, e) => sum + e.minutes, 0);
+  return formatTask(task, { subtasks, blockers, loggedMinutes });
+}
+
+/**
+ * Error result for a write based on an outdated copy of a task, or undefined
+ * when the caller saw the current version (or didn't say which it saw)
+ */
+async function checkVersion(
+  repository: TaskRepository,
+  task: Task,
+  expectedVersion: number | undefined
+) {
+  if (expectedVersion === undefined || expectedVersion === task.version) {
+    return undefined;
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `❌ Version conflict: task #${task.id.substring(0, 8)} is at version ${task.version}, not ${expectedVersion}. It was changed since you last read it; review the current state and retry with expectedVersion ${task.version}.\n\n${await describeTask(repository, task)}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Collect every descendant of a task (children, grandchildren, ...)
+ */
+async function getDescendants(
+  repository: TaskRepository,
+  taskId: string
+): Promise<Task[]> {
+  const descendants: Task[] = [];
+  let parentIds = [taskId];
+
+  // One query per level of the tree
+  while (parentIds.length > 0) {
+    const children = await repository.queryTasks({ parentIds });
+    descendants.push(...children);
+    parentIds = children.map((c) => c.id);
+  }
+
+  return descendants;
+}
+
+/**
+ * Collect the descendants of a task that are not completed yet
+ */
+async function getOpenSubtasks(
+  repository: TaskRepository,
+  taskId: string
+): Promise<Task[]> {
+  return (await getDescendants(repository, taskId)).filter(
+    (t) => t.status !== "completed"
+  );
+}
+
+/**
+ * Refuse to leave an open task under a completed parent
+ */
+function completedParentError(parent: Task, action: string) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `❌ Parent task "${parent.title}" is completed. Reopen it before ${action}.`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * One "  - #xxxxxxxx: Title" line per task
+ */
+function formatTaskLines(tasks: Task[]): string {
+  return tasks
+    .map((t) => `  - #${t.id.substring(0, 8)}: ${t.title}`)
+    .join("\n");
+}
 
 /**
  * Create a new task
  */
-export async function createTask(args: unknown) {
+export async function createTask(args: unknown, session: Session) {
   // Validate input
   const validated = CreateTaskSchema.parse(args);
+  const repository = openRepository(session, "create_task");
+
+  // Create new task
+  const newTask = buildTask(validated, session);
+
+  // Add to storage
+  await repository.insertTask(newTask);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `✅ Task created successfully!\n\n${formatTask(newTask)}`,
+      },
+    ],
+    structuredContent: { task: newTask },
+  };
+}
+
+/**
+ * Offset of the requested page, from its cursor if one was given
+ */
+function pageOffset(
+  page: { cursor?: string; offset: number },
+  fingerprint: string
+): number {
+  return page.cursor ? decodeCursor(page.cursor, fingerprint) : page.offset;
+}
+
+/**
+ * Continuation token for the page after this one, if there is one
+ */
+function nextPageCursor(
+  offset: number,
+  count: number,
+  total: number,
+  fingerprint: string
+): string | undefined {
+  return offset + count < total
+    ? encodeCursor(offset + count, fingerprint)
+    : undefined;
+}
+
+/**
+ * Describe which part of the results a page shows, with the cursor for
+ * the next page (empty when everything fits on one page)
+ */
+function describePage(
+  offset: number,
+  count: number,
+  total: number,
+  nextCursor: string | undefined
+): string {
+  if (offset === 0 && count === total) {
+    return "";
+  }
+
+  let text = `\n📄 Showing ${offset + 1}-${offset + count} of ${total}.`;
+  if (nextCursor) {
+    text += ` For the next page, pass cursor "${nextCursor}".`;
+  }
+  return text + "\n";
+}
+
+/**
+ * Turn validated list filters into a repository filter
+ */
+function buildListFilter(
+  filters: z.infer<typeof ListFilterSchema>,
+  session: Session
+): TaskFilter {
+  return {
+    status: filters.status === "all" ? undefined : filters.status,
+    priority: filters.priority === "all" ? undefined : filters.priority,
+    category: filters.category,
+    tagsAny: filters.tagsAny,
+    tagsAll: filters.tagsAll,
+    assignee: filters.mine ? session.userId : filters.assignee,
+    query: filters.query ? parseQuery(filters.query) : undefined,
+  };
+}
+
+/**
+ * List tasks with optional filters, one page at a time
+ */
+export async function listTasks(args: unknown, session: Session) {
+  // Validate input
+  const validated = ListTasksSchema.parse(args || {});
+  const repository = openRepository(session, "list_tasks");
+
+  const { limit, offset, cursor, ...queryArgs } = validated;
+  const fingerprint = queryFingerprint(queryArgs);
+  const start = pageOffset(validated, fingerprint);
+
+  // Load one page of tasks matching the filters
+  const filter = buildListFilter(validated, session);
+  const tasks = await repository.queryTasks(filter, {
+    sortBy: validated.sortBy,
+    sortOrder: validated.sortOrder,
+    limit: validated.limit,
+    offset: start,
+  });
+  const total = await repository.countTasks(filter);
+  const nextCursor = nextPageCursor(start, tasks.length, total, fingerprint);
+
+  // Add summary
+  const counts = await repository.countByStatus();
+  const summary = {
+    pending: counts.pending,
+    inProgress: counts.in_progress,
+    completed: counts.completed,
+  };
+  const structuredContent = {
+    tasks,
+    total,
+    offset: start,
+    nextCursor,
+    summary,
+  };
+
+  if (tasks.length === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            total > 0
+              ? `No more tasks: all ${total} matching task(s) have been listed.`
+              : "No tasks found matching the criteria.",
+        },
+      ],
+      structuredContent,
+    };
+  }
+
+  // Format output as a tree; tasks whose parent isn't listed become roots
+  let result = `📋 Found ${total} task(s):\n\n`;
+  const listedIds = new Set(tasks.map((t) => t.id));
+  const subtasks = await getSubtasks(repository, tasks);
+  const blockers = await getOpenBlockers(repository, tasks);
+
+  const renderTree = (task: Task, depth: number) => {
+    result +=
+      formatTask(task, {
+        subtasks: subtasks.get(task.id),
+        blockers: blockers.get(task.id),
+        depth,
+      }) + "\n";
+
+    for (const child of tasks.filter((t) => t.parentId === task.id)) {
+      renderTree(child, depth + 1);
+    }
+  };
+
+  for (const task of tasks) {
+    if (!task.parentId || !listedIds.has(task.parentId)) {
+      renderTree(task, 0);
+    }
+  }
+
+  result += describePage(start, tasks.length, total, nextCursor);
+  result += `\n📊 Summary: ${summary.pending} pending | ${summary.inProgress} in progress | ${summary.completed} completed`;
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: result,
+      },
+    ],
+    structuredContent,
+  };
+}
+
+/**
+ * Update an existing task
+ */
+export async function updateTask(args: unknown, session: Session) {
+  // Validate input
+  const validated = UpdateTaskSchema.parse(args);
+  const repository = openRepository(session, "update_task");
+
+  // Find task by ID (partial match)
+  const task = await repository.getTask(validated.taskId);
+
+  if (!task) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Task with ID ${validated.taskId} not found.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const conflict = await checkVersion(
+    repository,
+    task,
+    validated.expectedVersion
+  );
+  if (conflict) {
+    return conflict;
+  }
+
+  const wasCompleted = task.status === "completed";
+
+  // Completing a parent goes through complete_task's subtask policy
+  if (validated.status === "completed" && !wasCompleted) {
+    const openSubtasks = await getOpenSubtasks(repository, task.id);
+    if (openSubtasks.length > 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `❌ Task has ${openSubtasks.length} open subtask(s):\n${formatTaskLines(openSubtasks)}\n\nUse complete_task to complete it, with subtaskPolicy "cascade" or "warn".`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  // Reopening a subtask goes through its parent
+  if (
+    wasCompleted &&
+    validated.status !== undefined &&
+    validated.status !== "completed"
+  ) {
+    const parent = task.parentId
+      ? await repository.getTask(task.parentId)
+      : undefined;
+    if (parent?.status === "completed") {
+      return completedParentError(parent, "reopening its subtasks");
+    }
+  }
+
+  // Update fields if provided
+  if (validated.title !== undefined) {
+    task.title = validated.title;
+  }
+  if (validated.description !== undefined) {
+    task.description = validated.description;
+  }
+  if (validated.priority !== undefined) {
+    task.priority = validated.priority as Priority;
+  }
+  if (validated.category !== undefined) {
+    task.category = validated.category;
+  }
+  if (validated.tags !== undefined) {
+    task.tags = normalizeTags(validated.tags);
+  }
+  if (validated.dueDate !== undefined) {
+    task.dueDate = validated.dueDate;
+  }
+  if (validated.status !== undefined) {
+    task.status = validated.status as Status;
+    if (validated.status === "completed" && !task.completedAt) {
+      task.completedAt = new Date().toISOString();
+    } else if (validated.status !== "completed") {
+      task.completedAt = undefined;
+    }
+  }
+  if (validated.recurrence === null) {
+    task.recurrence = undefined;
+  } else if (validated.recurrence !== undefined) {
+    task.recurrence = validated.recurrence;
+    task.seriesId ??= task.id;
+    task.occurrence ??= 1;
+  }
+  if (validated.estimateMinutes !== undefined) {
+    task.estimateMinutes = validated.estimateMinutes ?? undefined;
+  }
+  if (validated.remindAt !== undefined) {
+    task.remindAt = validated.remindAt ?? undefined;
+  }
+
+  await repository.updateTask(task);
+
+  let text = `✅ Task updated successfully!\n\n${await describeTask(repository, task)}`;
+  let next: Task | undefined;
+  if (task.status === "completed" && !wasCompleted) {
+    next = await scheduleNextOccurrence(repository, task);
+    if (next) {
+      text += formatNextOccurrence(next);
+    }
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+    ],
+    structuredContent: { task, nextOccurrence: next },
+  };
+}
+
+/**
+ * Apply one patch to many tasks in a single write, or preview it
+ */
+export async function bulkUpdate(args: unknown, session: Session) {
+  // Validate input
+  const validated = BulkUpdateSchema.parse(args);
+  const repository = openRepository(session, "bulk_update");
+
+  // Select tasks by ID or by filter
+  let tasks: Task[] = [];
+  const missing: string[] = [];
+  if (validated.taskIds) {
+    for (const taskId of new Set(validated.taskIds)) {
+      const task = await repository.getTask(taskId);
+      if (task) {
+        tasks.push(task);
+      } else {
+        missing.push(taskId);
+      }
+    }
+  } else {
+    tasks = await repository.queryTasks(validated.filter);
+  }
+
+  const missingNote =
+    missing.length > 0 ? `\n⚠️ Not found: ${missing.join(", ")}` : "";
+
+  if (tasks.length === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `No tasks matched the selection.${missingNote}`,
+        },
+      ],
+      structuredContent: {
+        dryRun: validated.dryRun,
+        tasks,
+        notFound: missing,
+        scheduled: [],
+      },
+    };
+  }
+
+  // Apply the patch
+  const { patch } = validated;
+  const now = new Date().toISOString();
+  const newlyCompleted: Task[] = [];
+  const reopened: Task[] = [];
+  for (const task of tasks) {
+    if (patch.status !== undefined && patch.status !== task.status) {
+      if (patch.status === "completed") {
+        task.completedAt = now;
+        newlyCompleted.push(task);
+      } else {
+        task.completedAt = undefined;
+        if (task.status === "completed") reopened.push(task);
+      }
+      task.status = patch.status as Status;
+    }
+    if (patch.priority !== undefined) {
+      task.priority = patch.priority as Priority;
+    }
+    if (patch.category !== undefined) {
+      task.category = patch.category;
+    }
+    if (patch.shiftDueDays !== undefined && task.dueDate) {
+      task.dueDate = shiftDate(task.dueDate, patch.shiftDueDays);
+    }
+  }
+
+  // Parents can only be completed together with all their open subtasks
+  const completing = new Set(newlyCompleted.map((t) => t.id));
+  const leftOpen = new Map<string, Task>();
+  for (const task of newlyCompleted) {
+    for (const subtask of await getOpenSubtasks(repository, task.id)) {
+      if (!completing.has(subtask.id)) {
+        leftOpen.set(subtask.id, subtask);
+      }
+    }
+  }
+  if (leftOpen.size > 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Completing these tasks would leave ${leftOpen.size} subtask(s) open:\n${formatTaskLines([...leftOpen.values()])}\n\nInclude them in the selection, or use complete_task with subtaskPolicy "cascade" or "warn".`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Reopened subtasks need their parent reopened in the same selection
+  const selected = new Map(tasks.map((t) => [t.id, t]));
+  const underCompleted: Task[] = [];
+  for (const task of reopened) {
+    if (!task.parentId) continue;
+    const parent =
+      selected.get(task.parentId) ?? (await repository.getTask(task.parentId));
+    if (parent?.status === "completed") {
+      underCompleted.push(task);
+    }
+  }
+  if (underCompleted.length > 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ These tasks would be reopened under a completed parent:\n${formatTaskLines(underCompleted)}\n\nInclude their parents in the selection, or reopen them first.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  if (validated.dryRun) {
+    let result = `🔍 Dry run: ${tasks.length} task(s) would be updated:\n\n`;
+    tasks.forEach((task) => {
+      result += formatTask(task) + "\n";
+    });
+    result += missingNote;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: result,
+        },
+      ],
+      structuredContent: {
+        dryRun: true,
+        tasks,
+        notFound: missing,
+        scheduled: [],
+      },
+    };
+  }
+
+  await repository.updateTasks(tasks);
+
+  // Keep recurring series going, as update_task does, in one write
+  const scheduled: Task[] = [];
+  for (const task of newlyCompleted) {
+    const next = await buildNextOccurrence(repository, task);
+    if (next) scheduled.push(next);
+  }
+  if (scheduled.length > 0) {
+    await repository.insertTasks(scheduled);
+  }
+
+  let result = `✅ Updated ${tasks.length} task(s):\n\n`;
+  tasks.forEach((task) => {
+    result += formatTask(task) + "\n";
+  });
+  scheduled.forEach((next) => {
+    result += formatNextOccurrence(next).trimStart() + "\n";
+  });
+  result += missingNote;
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: result,
+      },
+    ],
+    structuredContent: { dryRun: false, tasks, notFound: missing, scheduled },
+  };
+}
+
+/**
+ * Build the task a history entry leaves behind on one side of the change,
+ * or undefined if the task did not exist on that side
+ */
+function resolveEntry(
+  entry: HistoryEntry,
+  side: "before" | "after",
+  current: Task | undefined
+): Task | undefined {
+  const exists =
+    entry.action === "update" ||
+    (entry.action === "create" ? side === "after" : side === "before");
+  if (!exists) {
+    return undefined;
+  }
+
+  const task = { ...(entry.action === "update" ? current : {}) } as Record<
+    string,
+    unknown
+  >;
+  for (const [field, change] of Object.entries(entry.changes)) {
+    if (change[side] === undefined) {
+      delete task[field];
+    } else {
+      task[field] = change[side];
+    }
+  }
+  return task as unknown as Task;
+}
+
+// A task changed by someone else since an operation was done or undone
+interface ReplayConflict {
+  taskId: string;
+  task?: Task; // absent if the task no longer exists
+}
+
+/**
+ * Find tasks whose current version isn't the one the operation left (for
+ * undo) or found (for redo), meaning they were changed in between
+ */
+async function findReplayConflicts(
+  operation: UndoOperation,
+  side: "before" | "after",
+  session: Session
+): Promise<ReplayConflict[]> {
+  const conflicts: ReplayConflict[] = [];
+  for (const [taskId, versions] of Object.entries(operation.versions)) {
+    const expected = side === "before" ? versions.after : versions.before;
+    const { workspaceId } = operation.entries.find((e) => e.taskId === taskId)!;
+    const task = await getRepository(workspaceId).getTask(taskId, {
+      deleted: "include",
+    });
+    if (recordedVersion(session, taskId, task?.version ?? null) !== expected) {
+      conflicts.push({ taskId, task });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Reapply one side of a recorded operation, returning how many of its
+ * changes could be applied
+ */
+async function replayOperation(
+  operation: UndoOperation,
+  side: "before" | "after",
+  session: Session
+): Promise<number> {
+  const tool = side === "before" ? "undo" : "redo";
+  const entries =
+    side === "before" ? [...operation.entries].reverse() : operation.entries;
+  let applied = 0;
+
+  for (const entry of entries) {
+    const repository = getRepository(entry.workspaceId, {
+      actor: session.userId,
+      tool,
+    });
+    const current = await repository.getTask(entry.taskId, {
+      deleted: "include",
+    });
+
+    // Updates can't be replayed on tasks that have since been purged
+    if (entry.action === "update" && !current) {
+      continue;
+    }
+
+    // A task that didn't exist on this side goes to the trash rather than
+    // being deleted, so undo and redo never lose data
+    const target = resolveEntry(entry, side, current);
+    if (!target) {
+      if (current && !current.deletedAt) {
+        current.deletedAt = new Date().toISOString();
+        await repository.updateTask(current);
+      }
+    } else if (current) {
+      await repository.updateTask(target);
+    } else {
+      await repository.insertTask(target);
+    }
+    applied++;
+  }
+
+  // Remember which recorded version each task's new version restored
+  for (const [taskId, versions] of Object.entries(operation.versions)) {
+    const { workspaceId } = operation.entries.find((e) => e.taskId === taskId)!;
+    const task = await getRepository(workspaceId).getTask(taskId, {
+      deleted: "include",
+    });
+    const restored = side === "before" ? versions.before : versions.after;
+    if (!task) {
+      session.replayedVersions.delete(taskId);
+    } else {
+      if (!session.replayedVersions.has(taskId)) {
+        session.replayedVersions.set(taskId, new Map());
+      }
+      session.replayedVersions.get(taskId)!.set(task.version, restored);
+    }
+  }
+  return applied;
+}
+
+/**
+ * Explain why an operation can't be undone or redone without force
+ */
+function describeReplayConflicts(
+  action: "undo" | "redo",
+  tool: string,
+  conflicts: ReplayConflict[]
+): string {
+  const lines = conflicts
+    .map(({ taskId, task }) =>
+      task
+        ? `  - #${taskId.substring(0, 8)}: ${task.title} (now version ${task.version})`
+        : `  - #${taskId.substring(0, 8)}: no longer exists`
+    )
+    .join("\n");
+  return `❌ Can't ${action} ${tool}: ${conflicts.length} task(s) changed since:\n${lines}\n\nUse force: true to ${action} anyway and overwrite those changes.`;
+}
+
+/**
+ * Move a task to the trash, cascading to or re-parenting its subtasks
+ */
+export async function deleteTask(args: unknown, session: Session) {
+  // Validate input
+  const validated = DeleteTaskSchema.parse(args);
+  const repository = openRepository(session, "delete_task");
+
+  // Find task
+  const deletedTask = await repository.getTask(validated.taskId);
+
+  if (!deletedTask) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Task with ID ${validated.taskId} not found.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const conflict = await checkVersion(
+    repository,
+    deletedTask,
+    validated.expectedVersion
+  );
+  if (conflict) {
+    return conflict;
+  }
+
+  const deletedAt = new Date().toISOString();
+
+  // Handle subtasks before trashing the task itself
+  let subtaskNote = "";
+  let subtasks: Task[];
+  if (validated.subtaskPolicy === "cascade") {
+    subtasks = await getDescendants(repository, deletedTask.id);
+    subtasks.forEach((d) => (d.deletedAt = deletedAt));
+    await repository.updateTasks(subtasks);
+    if (subtasks.length > 0) {
+      subtaskNote = ` ${subtasks.length} subtask(s) also deleted.`;
+    }
+  } else {
+    subtasks = await repository.queryTasks({ parentId: deletedTask.id });
+    subtasks.forEach((c) => (c.parentId = deletedTask.parentId));
+    await repository.updateTasks(subtasks);
+    if (subtasks.length > 0) {
+      subtaskNote = ` ${subtasks.length} subtask(s) moved up a level.`;
+    }
+  }
+
+  // Move task to the trash
+  deletedTask.deletedAt = deletedAt;
+  await repository.updateTask(deletedTask);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `🗑️ Task "${deletedTask.title}" moved to the trash.${subtaskNote}\nUse restore_task or undo to bring it back.`,
+      },
+    ],
+    structuredContent: {
+      task: deletedTask,
+      subtaskPolicy: validated.subtaskPolicy,
+      subtasks,
+    },
+  };
+}
+
+/**
+ * Mark a task as completed, applying the policy for open subtasks
+ */
+export async function completeTask(args: unknown, session: Session) {
+  // Validate input
+  const validated = CompleteTaskSchema.parse(args);
+  const repository = openRepository(session, "complete_task");
+
+  // Find task
+  const task = await repository.getTask(validated.taskId);
+
+  if (!task) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Task with ID ${validated.taskId} not found.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const conflict = await checkVersion(
+    repository,
+    task,
+    validated.expectedVersion
+  );
+  if (conflict) {
+    return conflict;
+  }
+
+  // Completing again would move completedAt and schedule another occurrence
+  if (task.status === "completed") {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Task "${task.title}" is already completed.`,
+        },
+      ],
+      structuredContent: {
+        task,
+        subtasks: [],
+        openSubtasks: [],
+        nextOccurrences: [],
+        unblocked: [],
+      },
+    };
+  }
+
+  // Check for subtasks that are still open
+  const openSubtasks = await getOpenSubtasks(repository, task.id);
+  const openList = formatTaskLines(openSubtasks);
+
+  if (openSubtasks.length > 0 && validated.subtaskPolicy === "block") {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Task has ${openSubtasks.length} open subtask(s):\n${openList}\n\nComplete them first, or use subtaskPolicy "cascade" or "warn".`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Update status (cascading to open subtasks if requested)
+  const completedAt = new Date().toISOString();
+  const toComplete =
+    validated.subtaskPolicy === "cascade" ? [task, ...openSubtasks] : [task];
+  toComplete.forEach((t) => {
+    t.status = "completed";
+    t.completedAt = completedAt;
+  });
+  await repository.updateTasks(toComplete);
+
+  let text = `✅ Task completed!\n\n${await describeTask(repository, task)}`;
+  if (openSubtasks.length > 0) {
+    text +=
+      validated.subtaskPolicy === "cascade"
+        ? `\n✅ Also completed ${openSubtasks.length} subtask(s).`
+        : `\n⚠️ ${openSubtasks.length} subtask(s) still open:\n${openList}`;
+  }
+
+  // Schedule the next occurrence of any recurring task we just completed
+  const nextOccurrences: Task[] = [];
+  for (const completedTask of toComplete) {
+    const next = await scheduleNextOccurrence(repository, completedTask);
+    if (next) {
+      text += formatNextOccurrence(next);
+      nextOccurrences.push(next);
+    }
+  }
+
+  // Report tasks that no longer have any open blockers
+  const dependents = new Map<string, Task>();
+  for (const completedTask of toComplete) {
+    const blocked = await repository.queryTasks({
+      blockedBy: completedTask.id,
+    });
+    blocked.forEach((t) => dependents.set(t.id, t));
+  }
+  const openBlockers = await getOpenBlockers(repository, [
+    ...dependents.values(),
+  ]);
+  const unblocked = new Map(
+    [...dependents].filter(
+      ([id, dependent]) =>
+        dependent.status !== "completed" && openBlockers.get(id)!.length === 0
+    )
+  );
+  if (unblocked.size > 0) {
+    const unblockedList = formatTaskLines(Array.from(unblocked.values()));
+    text += `\n🔓 Unblocked ${unblocked.size} task(s):\n${unblockedList}`;
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+    ],
+    structuredContent: {
+      task,
+      subtasks: toComplete.slice(1),
+      openSubtasks: validated.subtaskPolicy === "warn" ? openSubtasks : [],
+      nextOccurrences,
+      unblocked: Array.from(unblocked.values()),
+    },
+  };
+}
+
+/**
+ * Create a subtask under an existing task
+ */
+export async function addSubtask(args: unknown, session: Session) {
+  // Validate input
+  const validated = AddSubtaskSchema.parse(args);
+  const repository = openRepository(session, "add_subtask");
+
+  // Find parent task
+  const parent = await repository.getTask(validated.parentId);
+
+  if (!parent) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Parent task with ID ${validated.parentId} not found.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  if (parent.status === "completed") {
+    return completedParentError(parent, "adding subtasks");
+  }
+
+  // Create subtask
+  const newTask = buildTask(validated, session, parent.id);
+  await repository.insertTask(newTask);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `✅ Subtask created under "${parent.title}"!\n\n${formatTask(newTask)}`,
+      },
+    ],
+    structuredContent: { task: newTask, parent },
+  };
+}
+
+/**
+ * Move a task under a new parent, or to the top level
+ */
+export async function moveTask(args: unknown, session: Session) {
+  // Validate input
+  const validated = MoveTaskSchema.parse(args);
+  const repository = openRepository(session, "move_task");
+
+  // Find task
+  const task = await repository.getTask(validated.taskId);
+
+  if (!task) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Task with ID ${validated.taskId} not found.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Find new parent (omitted means top level)
+  let parent: Task | undefined;
+  if (validated.parentId !== undefined) {
+    parent = await repository.getTask(validated.parentId);
+
+    if (!parent) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `❌ Parent task with ID ${validated.parentId} not found.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Walk up from the new parent to make sure we don't create a cycle
+    let ancestor: Task | undefined = parent;
+    while (ancestor) {
+      if (ancestor.id === task.id) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `❌ Cannot move a task under itself or one of its subtasks.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      ancestor = ancestor.parentId
+        ? await repository.getTask(ancestor.parentId)
+        : undefined;
+    }
+  }
+
+  if (parent?.status === "completed" && task.status !== "completed") {
+    return completedParentError(parent, "moving open tasks under it");
+  }
+
+  task.parentId = parent?.id;
+  await repository.updateTask(task);
+
+  const destination = parent ? `under "${parent.title}"` : "to the top level";
+  return {
+    content: [
+      {
+        type: "text",
+        text: `✅ Task moved ${destination}!\n\n${await describeTask(repository, task)}`,
+      },
+    ],
+    structuredContent: { task, parent },
+  };
+}
+
+/**
+ * Search tasks
+ */
+export async function searchTasks(args: unknown, session: Session) {
+  // Validate input
+  const validated = SearchSchema.parse(args);
+  const repository = openRepository(session, "search_tasks");
+
+  const { limit, offset, cursor, ...queryArgs } = validated;
+  const fingerprint = queryFingerprint(queryArgs);
+  const start = pageOffset(validated, fingerprint);
+
+  const query = parseQuery(validated.query);
+  const phrases = searchPhrases(query);
+  const options = {
+    sortBy: validated.sortBy === "relevance" ? undefined : validated.sortBy,
+    sortOrder: validated.sortOrder,
+    limit: validated.limit,
+    offset: start,
+  };
+
+  // Rank by relevance when the query has text terms
+  let page: SearchPage;
+  if (phrases.length > 0) {
+    page = await repository.searchTasks(phrases, { query }, options);
+  } else {
+    const tasks = await repository.queryTasks(
+      { query },
+      { ...options, sortBy: options.sortBy ?? "priority" }
+    );
+    page = {
+      results: tasks.map((task) => ({ task, score: 0 })),
+      total: await repository.countTasks({ query }),
+    };
+  }
+  const { results, total } = page;
+  const nextCursor = nextPageCursor(start, results.length, total, fingerprint);
+  const structuredContent = { results, total, offset: start, nextCursor };
+
+  if (results.length === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            total > 0
+              ? `No more tasks: all ${total} match(es) for "${validated.query}" have been listed.`
+              : `No tasks found matching "${validated.query}".`,
+        },
+      ],
+      structuredContent,
+    };
+  }
+
+  // Format results
+  let result = `🔍 Found ${total} task(s) matching "${validated.query}":\n\n`;
+  results.forEach(({ task, snippet }) => {
+    result += formatTask(task);
+    if (snippet) {
+      result += `   💬 ${snippet}\n`;
+    }
+    result += "\n";
+  });
+  result += describePage(start, results.length, total, nextCursor);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: result,
+      },
+    ],
+    structuredContent,
+  };
+}
+
+/**
+ * Get task statistics
+ */
+export async function getTaskStats(session: Session) {
+  const repository = openRepository(session, "get_task_stats");
+  const tasks = await repository.queryTasks();
+  const entries = await timeEntries.queryTimeEntries({
+    workspaceId: session.workspaceId,
+  });
+
+  const report = computeTaskStats(tasks, todayDate(), entries);
+  const {
+    total,
+    completionRate,
+    byStatus,
+    byPriority,
+    byCategory,
+    byTag,
+    overdue,
+    dueSoon,
+    recurringSeries,
+    timeLogged,
+    timeByCategory,
+    estimateAccuracy,
+  } = report;
+
+  if (total === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: "No tasks yet. Create your first task to get started!",
+        },
+      ],
+      structuredContent: report,
+    };
+  }
+
+  // Format output
+  let result = "📊 Task Manager Statistics\n";
+  result += "=".repeat(30) + "\n\n";
+  result += `📈 Total Tasks: ${total}\n`;
+  result += `✅ Completion Rate: ${completionRate.toFixed(1)}%\n\n`;
+
+  result += "Status Breakdown:\n";
+  result += `  📋 Pending: ${byStatus.pending}\n`;
+  result += `  ⏳ In Progress: ${byStatus.in_progress}\n`;
+  result += `  ✅ Completed: ${byStatus.completed}\n\n`;
+
+  result += "Priority Breakdown:\n";
+  result += `  🔴 High: ${byPriority.high}\n`;
+  result += `  🟡 Medium: ${byPriority.medium}\n`;
+  result += `  🟢 Low: ${byPriority.low}\n`;
+
+  const categories = Object.entries(byCategory);
+  if (categories.length > 0) {
+    result += "\nCategories:\n";
+    categories
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .forEach(([cat, count]) => {
+        result += `  📁 ${cat}: ${count}\n`;
+      });
+  }
+
+  const tags = Object.entries(byTag);
+  if (tags.length > 0) {
+    result += "\nTags:\n";
+    tags
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .forEach(([tag, count]) => {
+        result += `  🏷️ ${tag}: ${count}\n`;
+      });
+  }
+
+  if (overdue > 0) {
+    result += `\n⚠️ Overdue Tasks: ${overdue}\n`;
+  }
+  if (dueSoon > 0) {
+    result += `📅 Due Within 7 Days: ${dueSoon}\n`;
+  }
+
+  if (recurringSeries.length > 0) {
+    result += "\nRecurring Series:\n";
+    recurringSeries.forEach((s) => {
+      result += `  🔁 ${s.title}: ${s.currentStreak} on time in a row (best ${s.bestStreak}, ${s.onTime}/${s.completed} on time)\n`;
+    });
+  }
+
+  if (timeLogged > 0) {
+    result += `\n⏱️ Time Logged: ${formatMinutes(timeLogged)}\n`;
+    Object.entries(timeByCategory)
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .forEach(([cat, minutes]) => {
+        result += `  📁 ${cat}: ${formatMinutes(minutes)}\n`;
+      });
+  }
+  if (estimateAccuracy) {
+    const { ratio, loggedMinutes, estimatedMinutes } = estimateAccuracy;
+    result += `🎯 Estimate Accuracy: ${ratio.toFixed(2)}× (${formatMinutes(loggedMinutes)} logged vs ${formatMinutes(estimatedMinutes)} estimated over ${estimateAccuracy.tasks} completed task(s))\n`;
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: result,
+      },
+    ],
+    structuredContent: report,
+  };
+}
+
+/**
+ * Move all completed tasks to the trash
+ */
+export async function clearCompleted(session: Session) {
+  const repository = openRepository(session, "clear_completed");
+
+  // Trash completed tasks, keeping parents of open subtasks so those
+  // aren't left pointing into the trash
+  const deletedAt = new Date().toISOString();
+  const completed: Task[] = [];
+  const kept: Task[] = [];
+  for (const task of await repository.queryTasks({ status: "completed" })) {
+    if ((await getOpenSubtasks(repository, task.id)).length > 0) {
+      kept.push(task);
+    } else {
+      task.deletedAt = deletedAt;
+      completed.push(task);
+    }
+  }
+  await repository.updateTasks(completed);
+
+  const removedCount = completed.length;
+  const remainingCount = await repository.countTasks();
+
+  let message =
+    removedCount > 0
+      ? `🧹 Moved ${removedCount} completed task(s) to the trash. ${remainingCount} active task(s) remaining.`
+      : "No completed tasks to clear.";
+  if (kept.length > 0) {
+    message += `\n⚠️ Kept ${kept.length} completed task(s) with open subtasks:\n${formatTaskLines(kept)}`;
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: message,
+      },
+    ],
+    structuredContent: { tasks: completed, kept, remaining: remainingCount },
+  };
+}
+
+/**
+ * Mark a task as blocked by another task
+ */
+export async function addDependency(args: unknown, session: Session) {
+  // Validate input
+  const validated = DependencySchema.parse(args);
+  const repository = openRepository(session, "add_dependency");
+
+  // Find both tasks
+  const task = await repository.getTask(validated.taskId);
+  if (!task) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Task with ID ${validated.taskId} not found.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const blocker = await repository.getTask(validated.blockedById);
+  if (!blocker) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Task with ID ${validated.blockedById} not found.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  if (task.blockedBy?.includes(blocker.id)) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Task "${task.title}" is already blocked by "${blocker.title}".`,
+        },
+      ],
+      structuredContent: { task, blocker },
+    };
+  }
+
+  // Reject links that would make a task (indirectly) wait on itself
+  if (await dependsOn(repository, blocker.id, task.id)) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Cannot add dependency: "${blocker.title}" already depends on "${task.title}", which would create a cycle.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  task.blockedBy = [...(task.blockedBy ?? []), blocker.id];
+  await repository.updateTask(task);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `🔗 Task "${task.title}" is now blocked by "${blocker.title}".\n\n${await describeTask(repository, task)}`,
+      },
+    ],
+    structuredContent: { task, blocker },
+  };
+}
+
+/**
+ * Remove a blocking link between two tasks
+ */
+export async function removeDependency(args: unknown, session: Session) {
+  // Validate input
+  const validated = DependencySchema.parse(args);
+  const repository = openRepository(session, "remove_dependency");
+
+  // Find task
+  const task = await repository.getTask(validated.taskId);
+  if (!task) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Task with ID ${validated.taskId} not found.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const blocker = await repository.getTask(validated.blockedById, {
+    deleted: "include",
+  });
+  const blockerId = blocker && task.blockedBy?.find((id) => id === blocker.id);
+  if (!blockerId) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Task "${task.title}" is not blocked by ${validated.blockedById}.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  task.blockedBy = task.blockedBy!.filter((id) => id !== blockerId);
+  if (task.blockedBy.length === 0) {
+    task.blockedBy = undefined;
+  }
+  await repository.updateTask(task);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `✂️ Dependency removed.\n\n${await describeTask(repository, task)}`,
+      },
+    ],
+    structuredContent: { task, removedBlockerId: blockerId },
+  };
+}
+
+/**
+ * List unblocked, non-completed tasks in the order they should be tackled
+ */
+export async function getNextActions(args: unknown, session: Session) {
+  // Validate input
+  const validated = NextActionsSchema.parse(args || {});
+  const repository = openRepository(session, "get_next_actions");
+
+  // Load all tasks so blockers can be resolved without extra lookups
+  const allTasks = await repository.queryTasks();
+  const byId = new Map(allTasks.map((t) => [t.id, t]));
+
+  const isBlocked = (task: Task) =>
+    (task.blockedBy ?? []).some((id) => {
+      const blocker = byId.get(id);
+      return blocker !== undefined && blocker.status !== "completed";
+    });
+
+  let tasks = allTasks.filter(
+    (t) => t.status !== "completed" && !isBlocked(t)
+  );
+  if (validated.category) {
+    tasks = tasks.filter(
+      (t) => t.category?.toLowerCase() === validated.category?.toLowerCase()
+    );
+  }
+  tasks.sort(compareTasks);
+
+  if (validated.limit !== undefined) {
+    tasks = tasks.slice(0, validated.limit);
+  }
+
+  if (tasks.length === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: "No unblocked tasks to work on.",
+        },
+      ],
+      structuredContent: { tasks },
+    };
+  }
+
+  // Format output
+  let result = `🎯 Next ${tasks.length} action(s):\n\n`;
+  tasks.forEach((task) => {
+    result += formatTask(task) + "\n";
+  });
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: result,
+      },
+    ],
+    structuredContent: { tasks },
+  };
+}
+
+/**
+ * Create a new workspace
+ */
+export async function createWorkspace(args: unknown, session: Session) {
+  // Validate input
+  const validated = WorkspaceSchema.parse(args);
+
+  if (await workspaces.getWorkspace(validated.name)) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Workspace "${validated.name}" already exists.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const workspace = {
+    id: validated.name,
+    createdBy: session.userId,
+    createdAt: new Date().toISOString(),
+  };
+  await workspaces.insertWorkspace(workspace);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `✅ Workspace "${validated.name}" created. Use switch_workspace to start working in it.`,
+      },
+    ],
+    structuredContent: { workspace },
+  };
+}
+
+/**
+ * Switch the current session to another workspace
+ */
+export async function switchWorkspace(args: unknown, session: Session) {
+  // Validate input
+  const validated = WorkspaceSchema.parse(args);
+
+  const workspace = await workspaces.getWorkspace(validated.name);
+  if (!workspace) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Workspace "${validated.name}" not found.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  session.workspaceId = validated.name;
+  const taskCount = await getRepository(session.workspaceId).countTasks();
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `📂 Switched to workspace "${validated.name}" (${taskCount} task(s)).`,
+      },
+    ],
+    structuredContent: { workspace, taskCount },
+  };
+}
+
+/**
+ * List all workspaces, marking the current one
+ */
+export async function listWorkspaces(session: Session) {
+  const all = await workspaces.listWorkspaces();
+
+  const listed = [];
+  let result = `📂 ${all.length} workspace(s):\n\n`;
+  for (const workspace of all) {
+    const current = workspace.id === session.workspaceId;
+    const marker = current ? "👉" : "  ";
+    const taskCount = await getRepository(workspace.id).countTasks();
+    result += `${marker} ${workspace.id} - ${taskCount} task(s), created by ${workspace.createdBy}\n`;
+    listed.push({ ...workspace, taskCount, current });
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: result,
+      },
+    ],
+    structuredContent: { workspaces: listed },
+  };
+}
+
+/**
+ * Assign a task to a user, or clear its assignee
+ */
+export async function assignTask(args: unknown, session: Session) {
+  // Validate input
+  const validated = AssignTaskSchema.parse(args);
+  const repository = openRepository(session, "assign_task");
+
+  // Find task
+  const task = await repository.getTask(validated.taskId);
+
+  if (!task) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Task with ID ${validated.taskId} not found.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  task.assignee = validated.assignee;
+  await repository.updateTask(task);
+
+  const message = task.assignee
+    ? `👤 Task assigned to ${task.assignee}.`
+    : "👤 Task unassigned.";
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `${message}\n\n${await describeTask(repository, task)}`,
+      },
+    ],
+    structuredContent: { task },
+  };
+}
+
+/**
+ * Add tags to a task
+ */
+export async function addTags(args: unknown, session: Session) {
+  // Validate input
+  const validated = TagsSchema.parse(args);
+  const repository = openRepository(session, "add_tags");
+
+  // Find task
+  const task = await repository.getTask(validated.taskId);
+
+  if (!task) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Task with ID ${validated.taskId} not found.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const added = [...new Set(validated.tags)]
+    .filter((tag) => !task.tags?.includes(tag))
+    .sort();
+  if (added.length > 0) {
+    task.tags = normalizeTags([...(task.tags ?? []), ...added]);
+    await repository.updateTask(task);
+  }
+
+  const message =
+    added.length > 0
+      ? `🏷️ Added tag(s): ${added.join(", ")}`
+      : "🏷️ The task already has these tags.";
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `${message}\n\n${await describeTask(repository, task)}`,
+      },
+    ],
+    structuredContent: { task, added },
+  };
+}
+
+/**
+ * Remove tags from a task
+ */
+export async function removeTags(args: unknown, session: Session) {
+  // Validate input
+  const validated = TagsSchema.parse(args);
+  const repository = openRepository(session, "remove_tags");
+
+  // Find task
+  const task = await repository.getTask(validated.taskId);
+
+  if (!task) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Task with ID ${validated.taskId} not found.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const removed = (task.tags ?? []).filter((tag) =>
+    validated.tags.includes(tag)
+  );
+  if (removed.length > 0) {
+    task.tags = normalizeTags(
+      task.tags!.filter((tag) => !removed.includes(tag))
+    );
+    await repository.updateTask(task);
+  }
+
+  const message =
+    removed.length > 0
+      ? `🏷️ Removed tag(s): ${removed.join(", ")}`
+      : "🏷️ The task has none of these tags.";
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `${message}\n\n${await describeTask(repository, task)}`,
+      },
+    ],
+    structuredContent: { task, removed },
+  };
+}
+
+/**
+ * List every tag in the workspace with how many tasks use it
+ */
+export async function listTags(session: Session) {
+  const repository = openRepository(session, "list_tags");
+  const tasks = await repository.queryTasks();
+
+  // Count total and open tasks per tag
+  const counts = new Map<string, { count: number; open: number }>();
+  tasks.forEach((t) => {
+    t.tags?.forEach((tag) => {
+      const entry = counts.get(tag) ?? { count: 0, open: 0 };
+      entry.count++;
+      if (t.status !== "completed") entry.open++;
+      counts.set(tag, entry);
+    });
+  });
+
+  const tags = Array.from(counts.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([tag, entry]) => ({ tag, ...entry }));
+
+  if (tags.length === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: "No tags yet. Use add_tags to label tasks.",
+        },
+      ],
+      structuredContent: { tags },
+    };
+  }
+
+  // Format output
+  let result = `🏷️ ${tags.length} tag(s):\n\n`;
+  tags.forEach(({ tag, count, open }) => {
+    result += `  ${tag} - ${count} task(s), ${open} open\n`;
+  });
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: result,
+      },
+    ],
+    structuredContent: { tags },
+  };
+}
+
+/**
+ * Rename a tag on every task, merging it into the new name if that tag is
+ * already in use
+ */
+export async function renameTag(args: unknown, session: Session) {
+  // Validate input
+  const validated = RenameTagSchema.parse(args);
+  const repository = openRepository(session, "rename_tag");
+
+  if (validated.from === validated.to) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Tag "${validated.from}" already has that name.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Rewrite trashed tasks too, so restoring them doesn't bring the old tag back
+  const tasks = await repository.queryTasks({
+    tagsAny: [validated.from],
+    deleted: "include",
+  });
+
+  if (tasks.length === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ No tasks are tagged "${validated.from}".`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const merged =
+    (await repository.countTasks({
+      tagsAny: [validated.to],
+      deleted: "include",
+    })) > 0;
+
+  tasks.forEach((t) => {
+    t.tags = normalizeTags(
+      t.tags!.map((tag) => (tag === validated.from ? validated.to : tag))
+    );
+  });
+  await repository.updateTasks(tasks);
+
+  const verb = merged ? "Merged" : "Renamed";
+  return {
+    content: [
+      {
+        type: "text",
+        text: `🏷️ ${verb} tag "${validated.from}" into "${validated.to}" on ${tasks.length} task(s).`,
+      },
+    ],
+    structuredContent: {
+      from: validated.from,
+      to: validated.to,
+      merged,
+      tasks,
+    },
+  };
+}
+
+/**
+ * Export tasks matching the list filters as CSV, Markdown, todo.txt or
+ * iCalendar
+ */
+export async function exportTasks(args: unknown, session: Session) {
+  // Validate input
+  const validated = ExportSchema.parse(args);
+  const repository = openRepository(session, "export_tasks");
+
+  const tasks = await repository.queryTasks(
+    buildListFilter(validated, session),
+    { sortBy: "createdAt", sortOrder: "asc" }
+  );
+  const content = serializeTasks(tasks, validated.format);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: content,
+      },
+    ],
+    structuredContent: {
+      format: validated.format,
+      mimeType: TRANSFER_MIME_TYPES[validated.format],
+      count: tasks.length,
+      content,
+    },
+  };
+}
+
+/**
+ * Key used to detect imported tasks that already exist
+ */
+function duplicateKey(task: { title: string; dueDate?: string }): string {
+  return `${task.title.trim().toLowerCase()}|${task.dueDate ?? ""}`;
+}
+
+/**
+ * Import tasks from CSV, Markdown, todo.txt or iCalendar, skipping entries
+ * that fail validation or duplicate an existing task (same title and due
+ * date)
+ */
+export async function importTasks(args: unknown, session: Session) {
+  // Validate input
+  const validated = ImportSchema.parse(args);
+  const repository = openRepository(session, "import_tasks");
+
+  const rows = parseTasks(validated.content, validated.format);
+  if (rows.length === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ No tasks found in the ${validated.format} content.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const existing = await repository.queryTasks();
+  const seen = new Set(existing.map(duplicateKey));
+
+  const imported: Task[] = [];
+  const duplicates: { line: number; title: string; dueDate?: string }[] = [];
+  const errors: { line: number; message: string }[] = [];
+
+  for (const row of rows) {
+    if (row.error) {
+      errors.push({ line: row.line, message: row.error });
+      continue;
+    }
+
+    const parsed = ImportTaskSchema.safeParse(row.fields);
+    if (!parsed.success) {
+      const message = parsed.error.errors
+        .map((e) =>
+          e.path.length > 0 ? `${e.path.join(".")}: ${e.message}` : e.message
+        )
+        .join("; ");
+      errors.push({ line: row.line, message });
+      continue;
+    }
+
+    const fields = parsed.data;
+    const key = duplicateKey(fields);
+    if (seen.has(key)) {
+      duplicates.push({
+        line: row.line,
+        title: fields.title,
+        dueDate: fields.dueDate,
+      });
+      continue;
+    }
+    seen.add(key);
 
-  // Load existing tasks
-  const storage = await loadTasks();
+    const task = buildTask(fields, session);
+    task.status = fields.status as Status;
+    if (task.status === "completed") {
+      task.completedAt = fields.completedAt
+        ? new Date(fields.completedAt).toISOString()
+        : task.createdAt;
+    }
+    imported.push(task);
+  }
 
-  // Create new task
-  const newTask: Task = {
-    id: uuidv4(),
-    title: validated.title,
-    description: validated.description,
-    priority: validated.priority as Priority,
-    category: validated.category,
-    dueDate: validated.dueDate,
-    status: "pending",
-    createdAt: new Date().toISOString(),
-  };
+  if (!validated.dryRun && imported.length > 0) {
+    await repository.insertTasks(imported);
+  }
 
-  // Add to storage
-  storage.tasks.push(newTask);
-  await saveTasks(storage);
+  // Format report
+  let result = validated.dryRun
+    ? `🔍 Dry run: ${imported.length} task(s) would be imported.\n`
+    : `📥 Imported ${imported.length} task(s).\n`;
+  imported.forEach((task) => {
+    result += `  - #${task.id.substring(0, 8)}: ${task.title}\n`;
+  });
+  if (duplicates.length > 0) {
+    result += `\n⏭️ Skipped ${duplicates.length} duplicate(s):\n`;
+    duplicates.forEach((d) => {
+      const due = d.dueDate ? ` (due ${d.dueDate})` : "";
+      result += `  Line ${d.line}: ${d.title}${due}\n`;
+    });
+  }
+  if (errors.length > 0) {
+    result += `\n⚠️ ${errors.length} entry(ies) could not be imported:\n`;
+    errors.forEach((e) => {
+      result += `  Line ${e.line}: ${e.message}\n`;
+    });
+  }
 
   return {
     content: [
       {
         type: "text",
-        text: `✅ Task created successfully!\n\n${formatTask(newTask)}`,
+        text: result,
       },
     ],
+    structuredContent: {
+      dryRun: validated.dryRun,
+      imported,
+      duplicates,
+      errors,
+    },
   };
 }
 
 /**
- * List tasks with optional filters
+ * History of the task a reference resolves to, including tasks that have
+ * been purged (which only an ID prefix can still name)
  */
-export async function listTasks(args: unknown) {
-  // Validate input
-  const validated = ListTasksSchema.parse(args || {});
-
-  // Load tasks
-  const storage = await loadTasks();
-  let tasks = [...storage.tasks];
-
-  // Apply filters
-  if (validated.status !== "all") {
-    tasks = tasks.filter((t) => t.status === validated.status);
+export async function loadTaskHistory(
+  ref: string,
+  workspaceId: string
+): Promise<HistoryEntry[]> {
+  const task = await getRepository(workspaceId).getTask(ref, {
+    deleted: "include",
+  });
+  if (task) {
+    return history.getHistory(task.id, workspaceId);
   }
-  if (validated.priority !== "all") {
-    tasks = tasks.filter((t) => t.priority === validated.priority);
+  if (parseTaskKey(ref) !== undefined) {
+    return [];
   }
-  if (validated.category) {
-    tasks = tasks.filter(
-      (t) => t.category?.toLowerCase() === validated.category?.toLowerCase()
+
+  const entries = await history.getHistory(ref, workspaceId);
+  const taskIds = [...new Set(entries.map((e) => e.taskId))];
+  if (taskIds.length > 1) {
+    throw new Error(
+      `Task ID ${ref} is ambiguous; it matches the history of purged tasks ${taskIds.join(", ")}. Use more characters of the ID.`
     );
   }
+  return entries;
+}
 
-  if (tasks.length === 0) {
+/**
+ * Show the change history of a task (including deleted tasks)
+ */
+export async function getTaskHistory(args: unknown, session: Session) {
+  // Validate input
+  const validated = TaskHistorySchema.parse(args);
+
+  let entries = await loadTaskHistory(validated.taskId, session.workspaceId);
+
+  if (entries.length === 0) {
     return {
       content: [
         {
           type: "text",
-          text: "No tasks found matching the criteria.",
+          text: `No history found for task ${validated.taskId}.`,
         },
       ],
+      structuredContent: { entries },
     };
   }
 
-  // Sort by priority and due date
-  const priorityOrder: Record<Priority, number> = {
-    high: 0,
-    medium: 1,
-    low: 2,
+  if (validated.limit !== undefined) {
+    entries = entries.slice(-validated.limit);
+  }
+
+  // Format output
+  let result = `📜 History for task #${entries[0]!.taskId.substring(0, 8)} (${entries.length} change(s)):\n\n`;
+  entries.forEach((entry) => {
+    result += formatHistoryEntry(entry) + "\n";
+  });
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: result,
+      },
+    ],
+    structuredContent: { entries },
   };
+}
 
-  tasks.sort((a, b) => {
-    const priorityDiff = priorityOrder[a.priority] - priorityOrder[b.priority];
-    if (priorityDiff !== 0) return priorityDiff;
+/**
+ * List the tasks in the trash, leaving out those past the retention period
+ * that the purger hasn't removed yet
+ */
+export async function listTrash(session: Session) {
+  const repository = getRepository(session.workspaceId);
 
-    const aDate = a.dueDate || "9999-99-99";
-    const bDate = b.dueDate || "9999-99-99";
-    return aDate.localeCompare(bDate);
-  });
+  const trashed = (await repository.queryTasks({ deleted: "only" }))
+    .filter((t) => !isExpired(t))
+    .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
+
+  if (trashed.length === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: "🗑️ The trash is empty.",
+        },
+      ],
+      structuredContent: {
+        tasks: trashed,
+        retentionDays: TRASH_RETENTION_DAYS,
+      },
+    };
+  }
 
   // Format output
-  let result = `📋 Found ${tasks.length} task(s):\n\n`;
-  tasks.forEach((task) => {
+  let result = `🗑️ Trash (${trashed.length} task(s), kept for ${TRASH_RETENTION_DAYS} days):\n\n`;
+  trashed.forEach((task) => {
     result += formatTask(task) + "\n";
   });
 
-  // Add summary
-  const pending = storage.tasks.filter((t) => t.status === "pending").length;
-  const inProgress = storage.tasks.filter(
-    (t) => t.status === "in_progress"
-  ).length;
-  const completed = storage.tasks.filter((t) => t.status === "completed").length;
-
-  result += `\n📊 Summary: ${pending} pending | ${inProgress} in progress | ${completed} completed`;
-
   return {
     content: [
       {
@@ -120,325 +2407,472 @@ export async function listTasks(args: unknown) {
         text: result,
       },
     ],
+    structuredContent: {
+      tasks: trashed,
+      retentionDays: TRASH_RETENTION_DAYS,
+    },
   };
 }
 
 /**
- * Update an existing task
+ * Restore a task from the trash, along with subtasks deleted with it
  */
-export async function updateTask(args: unknown) {
+export async function restoreTask(args: unknown, session: Session) {
   // Validate input
-  const validated = UpdateTaskSchema.parse(args);
-
-  // Load tasks
-  const storage = await loadTasks();
+  const validated = TaskIdSchema.parse(args);
+  const repository = openRepository(session, "restore_task");
 
-  // Find task by ID (partial match)
-  const taskIndex = storage.tasks.findIndex((t) =>
-    t.id.startsWith(validated.taskId)
-  );
+  // Find task
+  const task = await repository.getTask(validated.taskId, { deleted: "only" });
 
-  if (taskIndex === -1) {
+  // Past the retention period a task is as good as purged
+  if (!task || isExpired(task)) {
     return {
       content: [
         {
           type: "text",
-          text: `❌ Task with ID ${validated.taskId} not found.`,
+          text: `❌ Task with ID ${validated.taskId} not found in the trash.`,
         },
       ],
+      isError: true,
     };
   }
 
-  const task = storage.tasks[taskIndex]!;
-
-  // Update fields if provided
-  if (validated.title !== undefined) {
-    task.title = validated.title;
-  }
-  if (validated.description !== undefined) {
-    task.description = validated.description;
-  }
-  if (validated.priority !== undefined) {
-    task.priority = validated.priority as Priority;
-  }
-  if (validated.category !== undefined) {
-    task.category = validated.category;
-  }
-  if (validated.dueDate !== undefined) {
-    task.dueDate = validated.dueDate;
+  // Subtasks trashed in the same delete share its timestamp
+  const trashed = await repository.queryTasks({ deleted: "only" });
+  const restored = [task];
+  for (let i = 0; i < restored.length; i++) {
+    const parentId = restored[i]!.id;
+    restored.push(
+      ...trashed.filter(
+        (t) => t.parentId === parentId && t.deletedAt === task.deletedAt
+      )
+    );
   }
-  if (validated.status !== undefined) {
-    task.status = validated.status as Status;
-    if (validated.status === "completed" && !task.completedAt) {
-      task.completedAt = new Date().toISOString();
-    } else if (validated.status !== "completed") {
-      task.completedAt = undefined;
+
+  // A subtask whose parent is still in the trash comes back at the top level
+  let parentNote = "";
+  if (task.parentId) {
+    const parent = await repository.getTask(task.parentId);
+    if (!parent) {
+      delete task.parentId;
+      parentNote =
+        "\nIts parent task is in the trash, so it was restored at the top level.";
     }
   }
 
-  await saveTasks(storage);
+  restored.forEach((t) => delete t.deletedAt);
+  await repository.updateTasks(restored);
+
+  const subtaskNote =
+    restored.length > 1
+      ? ` ${restored.length - 1} subtask(s) also restored.`
+      : "";
 
   return {
     content: [
       {
         type: "text",
-        text: `✅ Task updated successfully!\n\n${formatTask(task)}`,
+        text: `♻️ Task "${task.title}" restored.${subtaskNote}${parentNote}\n\n${formatTask(task)}`,
       },
     ],
+    structuredContent: { task, subtasks: restored.slice(1) },
   };
 }
 
 /**
- * Delete a task
+ * Revert the session's most recent mutating tool calls
  */
-export async function deleteTask(args: unknown) {
+export async function undo(args: unknown, session: Session) {
   // Validate input
-  const validated = TaskIdSchema.parse(args);
+  const validated = UndoSchema.parse(args);
 
-  // Load tasks
-  const storage = await loadTasks();
+  const reverted: { tool: string; changes: number }[] = [];
+  let conflictNote = "";
+  while (reverted.length < validated.steps && session.undoStack.length > 0) {
+    const operation = session.undoStack.at(-1)!;
+    const tool = operation.entries[0]!.tool;
 
-  // Find task index
-  const taskIndex = storage.tasks.findIndex((t) =>
-    t.id.startsWith(validated.taskId)
-  );
+    // Don't overwrite changes made since, unless forced
+    const conflicts = validated.force
+      ? []
+      : await findReplayConflicts(operation, "before", session);
+    if (conflicts.length > 0) {
+      conflictNote = describeReplayConflicts("undo", tool, conflicts);
+      break;
+    }
+
+    session.undoStack.pop();
+    const applied = await replayOperation(operation, "before", session);
+    session.redoStack.push(operation);
+    reverted.push({ tool, changes: applied });
+  }
 
-  if (taskIndex === -1) {
+  if (conflictNote && reverted.length === 0) {
     return {
       content: [
         {
           type: "text",
-          text: `❌ Task with ID ${validated.taskId} not found.`,
+          text: conflictNote,
         },
       ],
+      isError: true,
     };
   }
 
-  // Remove task
-  const deletedTask = storage.tasks.splice(taskIndex, 1)[0]!;
-  await saveTasks(storage);
+  if (reverted.length === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: "Nothing to undo in this session.",
+        },
+      ],
+      structuredContent: { operations: reverted },
+    };
+  }
 
+  const list = reverted
+    .map((op) => `  • ${op.tool} (${op.changes} change(s))`)
+    .join("\n");
   return {
     content: [
       {
         type: "text",
-        text: `🗑️ Task "${deletedTask.title}" deleted successfully.`,
+        text: `↩️ Undid ${reverted.length} operation(s):\n${list}${conflictNote ? `\n\n${conflictNote}` : ""}`,
       },
     ],
+    structuredContent: { operations: reverted },
   };
 }
 
 /**
- * Mark a task as completed
+ * Reapply operations reverted by undo
  */
-export async function completeTask(args: unknown) {
+export async function redo(args: unknown, session: Session) {
   // Validate input
-  const validated = TaskIdSchema.parse(args);
+  const validated = UndoSchema.parse(args);
 
-  // Load tasks
-  const storage = await loadTasks();
+  const reapplied: { tool: string; changes: number }[] = [];
+  let conflictNote = "";
+  while (reapplied.length < validated.steps && session.redoStack.length > 0) {
+    const operation = session.redoStack.at(-1)!;
+    const tool = operation.entries[0]!.tool;
 
-  // Find task
-  const task = storage.tasks.find((t) => t.id.startsWith(validated.taskId));
+    // Don't overwrite changes made since, unless forced
+    const conflicts = validated.force
+      ? []
+      : await findReplayConflicts(operation, "after", session);
+    if (conflicts.length > 0) {
+      conflictNote = describeReplayConflicts("redo", tool, conflicts);
+      break;
+    }
 
-  if (!task) {
+    session.redoStack.pop();
+    const applied = await replayOperation(operation, "after", session);
+    session.undoStack.push(operation);
+    reapplied.push({ tool, changes: applied });
+  }
+
+  if (conflictNote && reapplied.length === 0) {
     return {
       content: [
         {
           type: "text",
-          text: `❌ Task with ID ${validated.taskId} not found.`,
+          text: conflictNote,
         },
       ],
+      isError: true,
     };
   }
 
-  // Update status
-  task.status = "completed";
-  task.completedAt = new Date().toISOString();
-  await saveTasks(storage);
+  if (reapplied.length === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: "Nothing to redo in this session.",
+        },
+      ],
+      structuredContent: { operations: reapplied },
+    };
+  }
 
+  const list = reapplied
+    .map((op) => `  • ${op.tool} (${op.changes} change(s))`)
+    .join("\n");
   return {
     content: [
       {
         type: "text",
-        text: `✅ Task completed!\n\n${formatTask(task)}`,
+        text: `↪️ Redid ${reapplied.length} operation(s):\n${list}${conflictNote ? `\n\n${conflictNote}` : ""}`,
       },
     ],
+    structuredContent: { operations: reapplied },
   };
 }
 
 /**
- * Search tasks
+ * The caller's running timer, in any workspace
+ */
+async function findRunningTimer(
+  session: Session
+): Promise<TimeEntry | undefined> {
+  const [running] = await timeEntries.queryTimeEntries({
+    userId: session.userId,
+    running: true,
+  });
+  return running;
+}
+
+/**
+ * Start a timer on a task (one running timer per user)
  */
-export async function searchTasks(args: unknown) {
+export async function startTimer(args: unknown, session: Session) {
   // Validate input
-  const validated = SearchSchema.parse(args);
+  const validated = StartTimerSchema.parse(args);
+  const repository = openHistoryOnlyRepository(session, "start_timer");
 
-  // Load tasks
-  const storage = await loadTasks();
-  const query = validated.query.toLowerCase();
+  const task = await repository.getTask(validated.taskId);
 
-  // Search in title and description
-  const matchingTasks = storage.tasks.filter(
-    (t) =>
-      t.title.toLowerCase().includes(query) ||
-      (t.description && t.description.toLowerCase().includes(query))
-  );
+  if (!task) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Task with ID ${validated.taskId} not found.`,
+        },
+      ],
+      isError: true,
+    };
+  }
 
-  if (matchingTasks.length === 0) {
+  if (task.status === "completed") {
     return {
       content: [
         {
           type: "text",
-          text: `No tasks found matching "${validated.query}".`,
+          text: `❌ ${taskLabel(task)} is completed. Reopen it to keep working on it, or record time spent with log_time.`,
         },
       ],
+      isError: true,
     };
   }
 
-  // Format results
-  let result = `🔍 Found ${matchingTasks.length} task(s) matching "${validated.query}":\n\n`;
-  matchingTasks.forEach((task) => {
-    result += formatTask(task) + "\n";
-  });
+  const running = await findRunningTimer(session);
+  if (running) {
+    const runningTask = await getRepository(running.workspaceId).getTask(
+      running.taskId,
+      { deleted: "include" }
+    );
+    const label = runningTask
+      ? taskLabel(runningTask)
+      : `task #${running.taskId.substring(0, 8)}`;
+    const where =
+      running.workspaceId !== session.workspaceId
+        ? ` in workspace "${running.workspaceId}"`
+        : "";
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ You already have a timer running on ${label}${where} since ${new Date(running.startedAt).toLocaleString()}. Stop it with stop_timer first.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const entry: TimeEntry = {
+    id: uuidv4(),
+    taskId: task.id,
+    workspaceId: session.workspaceId,
+    userId: session.userId,
+    startedAt: new Date().toISOString(),
+    minutes: 0,
+    note: validated.note,
+  };
+  await timeEntries.insertTimeEntries([entry]);
+
+  // Starting work on a pending task puts it in progress
+  if (task.status === "pending") {
+    task.status = "in_progress";
+    await repository.updateTask(task);
+  }
 
   return {
     content: [
       {
         type: "text",
-        text: result,
+        text: `⏱️ Timer started on ${taskLabel(task)}.\n\n${await describeTask(repository, task)}`,
       },
     ],
+    structuredContent: { entry, task },
   };
 }
 
 /**
- * Get task statistics
+ * Stop the caller's running timer, logging the time on its task
  */
-export async function getTaskStats() {
-  const storage = await loadTasks();
-  const tasks = storage.tasks;
+export async function stopTimer(args: unknown, session: Session) {
+  // Validate input
+  const validated = StopTimerSchema.parse(args);
 
-  if (tasks.length === 0) {
+  const entry = await findRunningTimer(session);
+
+  if (!entry) {
     return {
       content: [
         {
           type: "text",
-          text: "No tasks yet. Create your first task to get started!",
+          text: "❌ You have no timer running. Start one with start_timer.",
         },
       ],
+      isError: true,
     };
   }
 
-  // Calculate statistics
-  const total = tasks.length;
-  const byStatus = {
-    pending: tasks.filter((t) => t.status === "pending").length,
-    in_progress: tasks.filter((t) => t.status === "in_progress").length,
-    completed: tasks.filter((t) => t.status === "completed").length,
-  };
-
-  const byPriority = {
-    high: tasks.filter((t) => t.priority === "high").length,
-    medium: tasks.filter((t) => t.priority === "medium").length,
-    low: tasks.filter((t) => t.priority === "low").length,
-  };
-
-  // Category counts
-  const categories = new Map<string, number>();
-  tasks.forEach((t) => {
-    if (t.category) {
-      categories.set(t.category, (categories.get(t.category) || 0) + 1);
-    }
-  });
-
-  // Check for overdue and upcoming tasks
-  const today = new Date().toISOString().split("T")[0]!;
-  const oneWeekFromNow = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
-    .toISOString()
-    .split("T")[0]!;
-
-  const overdue = tasks.filter(
-    (t) => t.status !== "completed" && t.dueDate && t.dueDate < today
-  ).length;
+  const endedAt = new Date();
+  entry.endedAt = endedAt.toISOString();
+  // Count a timer stopped within its first minute as one minute
+  entry.minutes = Math.max(
+    1,
+    Math.round((endedAt.getTime() - Date.parse(entry.startedAt)) / 60_000)
+  );
+  if (validated.note !== undefined) {
+    entry.note = validated.note;
+  }
+  await timeEntries.updateTimeEntry(entry);
 
-  const dueSoon = tasks.filter(
-    (t) =>
-      t.status !== "completed" &&
-      t.dueDate &&
-      t.dueDate >= today &&
-      t.dueDate <= oneWeekFromNow
-  ).length;
+  // The timer may have been started in another workspace
+  const repository = getRepository(entry.workspaceId);
+  const task = await repository.getTask(entry.taskId, { deleted: "include" });
 
-  const completionRate =
-    total > 0 ? ((byStatus.completed / total) * 100).toFixed(1) : "0";
+  let text = `⏹️ Timer stopped: ${formatMinutes(entry.minutes)} on ${task ? taskLabel(task) : `task #${entry.taskId.substring(0, 8)}`}.`;
+  if (task) {
+    text += `\n\n${await describeTask(repository, task)}`;
+  }
 
-  // Format output
-  let result = "📊 Task Manager Statistics\n";
-  result += "=".repeat(30) + "\n\n";
-  result += `📈 Total Tasks: ${total}\n`;
-  result += `✅ Completion Rate: ${completionRate}%\n\n`;
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+    ],
+    structuredContent: { entry, task },
+  };
+}
 
-  result += "Status Breakdown:\n";
-  result += `  📋 Pending: ${byStatus.pending}\n`;
-  result += `  ⏳ In Progress: ${byStatus.in_progress}\n`;
-  result += `  ✅ Completed: ${byStatus.completed}\n\n`;
+/**
+ * Record time spent on a task without a timer, ending now
+ */
+export async function logTime(args: unknown, session: Session) {
+  // Validate input
+  const validated = LogTimeSchema.parse(args);
+  const repository = openHistoryOnlyRepository(session, "log_time");
 
-  result += "Priority Breakdown:\n";
-  result += `  🔴 High: ${byPriority.high}\n`;
-  result += `  🟡 Medium: ${byPriority.medium}\n`;
-  result += `  🟢 Low: ${byPriority.low}\n`;
+  const task = await repository.getTask(validated.taskId);
 
-  if (categories.size > 0) {
-    result += "\nCategories:\n";
-    Array.from(categories.entries())
-      .sort((a, b) => a[0].localeCompare(b[0]))
-      .forEach(([cat, count]) => {
-        result += `  📁 ${cat}: ${count}\n`;
-      });
+  if (!task) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Task with ID ${validated.taskId} not found.`,
+        },
+      ],
+      isError: true,
+    };
   }
 
-  if (overdue > 0) {
-    result += `\n⚠️ Overdue Tasks: ${overdue}\n`;
-  }
-  if (dueSoon > 0) {
-    result += `📅 Due Within 7 Days: ${dueSoon}\n`;
-  }
+  const endedAt = new Date();
+  const entry: TimeEntry = {
+    id: uuidv4(),
+    taskId: task.id,
+    workspaceId: session.workspaceId,
+    userId: session.userId,
+    startedAt: new Date(
+      endedAt.getTime() - validated.minutes * 60_000
+    ).toISOString(),
+    endedAt: endedAt.toISOString(),
+    minutes: validated.minutes,
+    note: validated.note,
+  };
+  await timeEntries.insertTimeEntries([entry]);
 
   return {
     content: [
       {
         type: "text",
-        text: result,
+        text: `⏱️ Logged ${formatMinutes(entry.minutes)} on ${taskLabel(task)}.\n\n${await describeTask(repository, task)}`,
       },
     ],
+    structuredContent: { entry, task },
   };
 }
 
 /**
- * Clear completed tasks
+ * Hold a task's reminders until a later time, then remind again
  */
-export async function clearCompleted() {
-  const storage = await loadTasks();
-  const originalCount = storage.tasks.length;
+export async function snoozeReminder(args: unknown, session: Session) {
+  // Validate input
+  const validated = SnoozeReminderSchema.parse(args);
+  const repository = openRepository(session, "snooze_reminder");
 
-  // Filter out completed tasks
-  storage.tasks = storage.tasks.filter((t) => t.status !== "completed");
-  const removedCount = originalCount - storage.tasks.length;
+  const task = await repository.getTask(validated.taskId);
 
-  await saveTasks(storage);
+  if (!task) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Task with ID ${validated.taskId} not found.`,
+        },
+      ],
+      isError: true,
+    };
+  }
 
-  const message =
-    removedCount > 0
-      ? `🧹 Cleared ${removedCount} completed task(s). ${storage.tasks.length} active task(s) remaining.`
-      : "No completed tasks to clear.";
+  if (task.status === "completed") {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ ${taskLabel(task)} is completed, so there is nothing to remind about.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const until = validated.until
+    ? new Date(validated.until)
+    : new Date(
+        Date.now() + (validated.minutes ?? DEFAULT_SNOOZE_MINUTES) * 60_000
+      );
+  if (until.getTime() <= Date.now()) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Can't snooze until ${until.toLocaleString()}: that time has already passed.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  task.snoozedUntil = until.toISOString();
+  await repository.updateTask(task);
 
   return {
     content: [
       {
         type: "text",
-        text: message,
+        text: `💤 Reminders for ${taskLabel(task)} snoozed until ${until.toLocaleString()}.\n\n${await describeTask(repository, task)}`,
       },
     ],
+    structuredContent: { task },
   };
 }
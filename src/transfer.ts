@@ -0,0 +1,583 @@
+/**
+ * Converting tasks to and from other formats
+ *
+ * - csv: one row per task with a header row (tags separated by spaces)
+ * - markdown: GitHub-style checklist, metadata in "(key: value)" groups
+ * - todotxt: todo.txt lines; category is a +project, tags are @contexts
+ * - ical: iCalendar VTODO components; tags are CATEGORIES
+ *
+ * Parsers return raw fields for each task found, which import_tasks
+ * validates with ImportTaskSchema. Fields a format can't express (such as
+ * descriptions in todo.txt) are left out on export, and some values only
+ * survive a round trip as far as the format's syntax allows: spaces in a
+ * todo.txt +project become "-", and a Markdown "(category: ...)" ends at
+ * the first ")".
+ */
+
+import { Task, Priority, Status, TransferFormat } from "./types.js";
+
+// MIME type of each format, used by the export resources
+export const TRANSFER_MIME_TYPES: Record<TransferFormat, string> = {
+  csv: "text/csv",
+  markdown: "text/markdown",
+  todotxt: "text/plain",
+  ical: "text/calendar",
+};
+
+// A task read from an import, or the reason its entry couldn't be read
+export interface ImportRow {
+  line: number; // 1-based line where the entry starts
+  fields: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * Render tasks in one of the supported formats
+ */
+export function serializeTasks(tasks: Task[], format: TransferFormat): string {
+  switch (format) {
+    case "csv":
+      return toCsv(tasks);
+    case "markdown":
+      return toMarkdown(tasks);
+    case "todotxt":
+      return toTodoTxt(tasks);
+    case "ical":
+      return toICal(tasks);
+  }
+}
+
+/**
+ * Read the tasks in a document of one of the supported formats
+ */
+export function parseTasks(
+  content: string,
+  format: TransferFormat
+): ImportRow[] {
+  switch (format) {
+    case "csv":
+      return fromCsv(content);
+    case "markdown":
+      return fromMarkdown(content);
+    case "todotxt":
+      return fromTodoTxt(content);
+    case "ical":
+      return fromICal(content);
+  }
+}
+
+// --- CSV ---
+
+const CSV_COLUMNS = [
+  "id",
+  "title",
+  "description",
+  "status",
+  "priority",
+  "category",
+  "tags",
+  "dueDate",
+  "assignee",
+  "createdBy",
+  "createdAt",
+  "completedAt",
+] as const;
+
+// Columns read on import (matched case-insensitively), by header name
+const CSV_IMPORT_COLUMNS: Record<string, string> = {
+  title: "title",
+  description: "description",
+  status: "status",
+  priority: "priority",
+  category: "category",
+  tags: "tags",
+  duedate: "dueDate",
+  due: "dueDate",
+  completedat: "completedAt",
+};
+
+// Fields a spreadsheet would run as a formula, behind any "'" already
+// added to stop that (so the escape can be undone on import)
+const CSV_FORMULA = /^'*[=+\-@\t\r]/;
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break, and
+ * prefix it with "'" when a spreadsheet would read it as a formula
+ */
+function csvField(value: string): string {
+  const text = CSV_FORMULA.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(tasks: Task[]): string {
+  const rows = tasks.map((task) =>
+    CSV_COLUMNS.map((column) => {
+      const value = column === "tags" ? task.tags?.join(" ") : task[column];
+      return csvField(value ?? "");
+    }).join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+// One CSV record, or the unreadable rest of the file
+interface CsvRecord {
+  line: number;
+  fields: string[];
+  error?: string;
+}
+
+/**
+ * Split CSV text into records of fields, noting the line each starts on
+ */
+function splitCsv(content: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== "") {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]!;
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    const error = "Unterminated quoted field; the rest of the file was ignored";
+    records.push({ line: recordLine, fields: [], error });
+  } else if (field !== "" || fields.length > 0) {
+    endRecord();
+  }
+  return records;
+}
+
+function fromCsv(content: string): ImportRow[] {
+  const [header, ...rows] = splitCsv(content.replace(/^\uFEFF/, ""));
+  if (!header) {
+    return [];
+  }
+  const columns = header.fields.map(
+    (name) => CSV_IMPORT_COLUMNS[name.trim().toLowerCase()]
+  );
+  if (!columns.includes("title")) {
+    return [{ line: header.line, fields: {}, error: 'Missing "title" column' }];
+  }
+
+  return rows.map(({ line, fields: values, error }) => {
+    const fields: Record<string, unknown> = {};
+    if (error) {
+      return { line, fields, error };
+    }
+    columns.forEach((column, i) => {
+      let value = values[i]?.trim();
+      if (value?.startsWith("'") && CSV_FORMULA.test(value)) {
+        value = value.slice(1); // undo the export's formula escape
+      }
+      if (!column || !value) return;
+      if (column === "tags") {
+        fields.tags = value.split(/[\s;]+/).filter(Boolean);
+      } else if (column === "status" || column === "priority") {
+        fields[column] = value.toLowerCase().replace(/[\s-]+/g, "_");
+      } else {
+        fields[column] = value;
+      }
+    });
+    return { line, fields };
+  });
+}
+
+// --- Markdown checklist ---
+
+function toMarkdown(tasks: Task[]): string {
+  let result = "# Tasks\n\n";
+  for (const task of tasks) {
+    let item = `- [${task.status === "completed" ? "x" : " "}] ${task.title}`;
+    if (task.dueDate) item += ` (due: ${task.dueDate})`;
+    item += ` (priority: ${task.priority})`;
+    if (task.category) item += ` (category: ${task.category})`;
+    if (task.status === "in_progress") item += " (status: in_progress)";
+    task.tags?.forEach((tag) => (item += ` #${tag}`));
+    result += item + "\n";
+
+    // Description lines are indented under the item
+    task.description?.split("\n").forEach((line) => {
+      result += `  ${line}\n`;
+    });
+  }
+  return result;
+}
+
+function fromMarkdown(content: string): ImportRow[] {
+  const rows: ImportRow[] = [];
+  let current: ImportRow | undefined;
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    const item = text.match(/^\s*[-*+] \[([ xX])\]\s+(.*)$/);
+    if (item) {
+      const fields: Record<string, unknown> = {
+        status: item[1] === " " ? "pending" : "completed",
+      };
+      let title = item[2]!;
+
+      // Pull out "(key: value)" metadata and #tags
+      title = title.replace(
+        /\s*\((due|priority|category|status):\s*([^)]*)\)/gi,
+        (_, key: string, value: string) => {
+          const field = key.toLowerCase();
+          if (field === "due") {
+            fields.dueDate = value.trim();
+          } else {
+            fields[field] =
+              field === "category" ? value.trim() : value.trim().toLowerCase();
+          }
+          return "";
+        }
+      );
+      const tags: string[] = [];
+      // Tags start with a letter, so "#123" stays part of the title
+      title = title.replace(/(^|\s)#(\p{L}[^\s#]*)/gu, (_, _space, tag) => {
+        tags.push(tag);
+        return "";
+      });
+      if (tags.length > 0) fields.tags = tags;
+      fields.title = title.trim();
+
+      current = { line: index + 1, fields };
+      rows.push(current);
+    } else if (current && /^\s{2,}\S/.test(text)) {
+      // Indented text below an item is its description
+      const line = text.trim();
+      const description = current.fields.description as string | undefined;
+      current.fields.description = description
+        ? `${description}\n${line}`
+        : line;
+    } else if (text.trim() !== "") {
+      current = undefined;
+    }
+  });
+
+  return rows;
+}
+
+// --- todo.txt ---
+
+// todo.txt priority letters, highest first
+const TODO_PRIORITIES: Record<Priority, string> = {
+  high: "A",
+  medium: "B",
+  low: "C",
+};
+
+/**
+ * Map a todo.txt priority letter to a task priority (D and below are low)
+ */
+function fromTodoPriority(letter: string): Priority {
+  return letter === "A" ? "high" : letter === "B" ? "medium" : "low";
+}
+
+function toTodoTxt(tasks: Task[]): string {
+  return tasks
+    .map((task) => {
+      const parts: string[] = [];
+      const priority = TODO_PRIORITIES[task.priority];
+      if (task.status === "completed") {
+        parts.push("x");
+        if (task.completedAt) parts.push(task.completedAt.split("T")[0]!);
+      } else {
+        parts.push(`(${priority})`);
+      }
+      parts.push(task.createdAt.split("T")[0]!, task.title);
+      if (task.category) parts.push(`+${task.category.replace(/\s+/g, "-")}`);
+      task.tags?.forEach((tag) => parts.push(`@${tag}`));
+      if (task.dueDate) parts.push(`due:${task.dueDate}`);
+      if (task.status === "completed") parts.push(`pri:${priority}`);
+      return parts.join(" ") + "\n";
+    })
+    .join("");
+}
+
+function fromTodoTxt(content: string): ImportRow[] {
+  const rows: ImportRow[] = [];
+  const date = "(\\d{4}-\\d{2}-\\d{2})";
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    let rest = text.trim();
+    if (!rest) return;
+
+    const fields: Record<string, unknown> = { status: "pending" };
+    const done = rest.match(new RegExp(`^x\\s+(?:${date}\\s+)?`));
+    if (done) {
+      fields.status = "completed";
+      if (done[1]) fields.completedAt = done[1];
+      rest = rest.slice(done[0].length);
+    } else {
+      const priority = rest.match(/^\(([A-Z])\)\s+/);
+      if (priority) {
+        fields.priority = fromTodoPriority(priority[1]!);
+        rest = rest.slice(priority[0].length);
+      }
+    }
+    // Creation date: new tasks get the import time instead
+    rest = rest.replace(new RegExp(`^${date}\\s+`), "");
+
+    const title: string[] = [];
+    const tags: string[] = [];
+    for (const word of rest.split(/\s+/)) {
+      const keyValue = word.match(/^(due|pri):(\S+)$/);
+      if (word.length > 1 && word.startsWith("+") && !fields.category) {
+        fields.category = word.slice(1);
+      } else if (word.length > 1 && word.startsWith("@")) {
+        tags.push(word.slice(1));
+      } else if (keyValue?.[1] === "due") {
+        fields.dueDate = keyValue[2];
+      } else if (keyValue?.[1] === "pri" && /^[A-Z]$/.test(keyValue[2]!)) {
+        fields.priority = fromTodoPriority(keyValue[2]!);
+      } else {
+        title.push(word);
+      }
+    }
+    if (tags.length > 0) fields.tags = tags;
+    fields.title = title.join(" ");
+
+    rows.push({ line: index + 1, fields });
+  });
+
+  return rows;
+}
+
+// --- iCalendar ---
+
+// VTODO STATUS values for each task status
+const ICAL_STATUSES: Record<Status, string> = {
+  pending: "NEEDS-ACTION",
+  in_progress: "IN-PROCESS",
+  completed: "COMPLETED",
+};
+
+// VTODO PRIORITY values (1 is highest, 9 lowest)
+const ICAL_PRIORITIES: Record<Priority, number> = {
+  high: 1,
+  medium: 5,
+  low: 9,
+};
+
+/**
+ * Escape text for an iCalendar property value
+ */
+function icalText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Format an ISO timestamp as an iCalendar UTC date-time
+ */
+function icalDateTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+}
+
+/**
+ * Fold a content line to at most 75 octets, as RFC 5545 requires
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let part = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char);
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = "";
+      size = 0;
+    }
+    part += char;
+    size += charSize;
+  }
+  parts.push(part);
+  return parts.join("\r\n ");
+}
+
+function toICal(tasks: Task[]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//task-manager-mcp-server//EN",
+  ];
+  const stamp = icalDateTime(new Date().toISOString());
+
+  for (const task of tasks) {
+    lines.push(
+      "BEGIN:VTODO",
+      `UID:${task.id}`,
+      `DTSTAMP:${stamp}`,
+      `CREATED:${icalDateTime(task.createdAt)}`,
+      `SUMMARY:${icalText(task.title)}`
+    );
+    if (task.description) {
+      lines.push(`DESCRIPTION:${icalText(task.description)}`);
+    }
+    if (task.dueDate) {
+      lines.push(`DUE;VALUE=DATE:${task.dueDate.replace(/-/g, "")}`);
+    }
+    lines.push(
+      `PRIORITY:${ICAL_PRIORITIES[task.priority]}`,
+      `STATUS:${ICAL_STATUSES[task.status]}`
+    );
+    if (task.completedAt) {
+      lines.push(`COMPLETED:${icalDateTime(task.completedAt)}`);
+    }
+    if (task.category) {
+      lines.push(`X-TASK-CATEGORY:${icalText(task.category)}`);
+    }
+    if (task.tags) {
+      lines.push(`CATEGORIES:${task.tags.map(icalText).join(",")}`);
+    }
+    lines.push("END:VTODO");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Undo iCalendar text escaping
+ */
+function unescapeICal(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+/**
+ * Convert an iCalendar DATE or DATE-TIME value to YYYY-MM-DD or an ISO
+ * timestamp
+ */
+function fromICalDate(value: string, dateOnly: boolean): string {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2}))?/
+  );
+  if (!match) return value;
+  const [, year, month, day, hour, minute, second] = match;
+  if (dateOnly || !hour) {
+    return `${year}-${month}-${day}`;
+  }
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}Z`;
+}
+
+function fromICal(content: string): ImportRow[] {
+  const rows: ImportRow[] = [];
+  let current: ImportRow | undefined;
+
+  // Unfold continuation lines, remembering where each logical line started
+  const lines: { line: number; text: string }[] = [];
+  content.split(/\r?\n/).forEach((text, index) => {
+    const last = lines[lines.length - 1];
+    if (last && /^[ \t]/.test(text)) {
+      last.text += text.slice(1);
+    } else {
+      lines.push({ line: index + 1, text });
+    }
+  });
+
+  for (const { line, text } of lines) {
+    const property = text.match(/^([A-Za-z-]+)((?:;[^:]*)?):(.*)$/);
+    if (!property) continue;
+    const name = property[1]!.toUpperCase();
+    const value = property[3]!;
+
+    if (name === "BEGIN" && value.toUpperCase() === "VTODO") {
+      current = { line, fields: { status: "pending" } };
+      continue;
+    }
+    if (!current) continue;
+
+    const fields = current.fields;
+    switch (name) {
+      case "END":
+        if (value.toUpperCase() === "VTODO") {
+          rows.push(current);
+          current = undefined;
+        }
+        break;
+      case "SUMMARY":
+        fields.title = unescapeICal(value).trim();
+        break;
+      case "DESCRIPTION":
+        fields.description = unescapeICal(value);
+        break;
+      case "DUE":
+        fields.dueDate = fromICalDate(value, true);
+        break;
+      case "COMPLETED":
+        fields.completedAt = fromICalDate(value, false);
+        break;
+      case "PRIORITY": {
+        const priority = parseInt(value, 10);
+        if (priority >= 1 && priority <= 4) fields.priority = "high";
+        else if (priority >= 6 && priority <= 9) fields.priority = "low";
+        break;
+      }
+      case "STATUS": {
+        const status = value.toUpperCase();
+        if (status === "CANCELLED") {
+          current.error = "Cancelled to-dos are not imported";
+        }
+        fields.status =
+          status === "COMPLETED"
+            ? "completed"
+            : status === "IN-PROCESS"
+              ? "in_progress"
+              : "pending";
+        break;
+      }
+      case "X-TASK-CATEGORY":
+        fields.category = unescapeICal(value);
+        break;
+      case "CATEGORIES": {
+        // Values are comma-separated; spaces aren't allowed in tags
+        const tags = value
+          .split(/(?<!\\),/)
+          .map((tag) => unescapeICal(tag).trim().replace(/\s+/g, "-"))
+          .filter(Boolean);
+        fields.tags = [...((fields.tags as string[]) ?? []), ...tags];
+        break;
+      }
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,86 @@
+/**
+ * Trash retention
+ *
+ * Deleted tasks stay in the trash for TRASH_RETENTION_DAYS. Once that has
+ * passed they no longer show up in list_trash and can't be restored, and
+ * the purger deletes them for good: at startup and then every
+ * TRASH_PURGE_INTERVAL_SECONDS, across all workspaces. Each purge is
+ * recorded in the task history with the tool "purge" but never goes on a
+ * session's undo stack. The purger also prunes sent reminders that can't
+ * come due again.
+ */
+
+import { Task } from "./types.js";
+import { getRepository, workspaces, storageLock } from "./storage-router.js";
+import { pruneSentReminders } from "./reminders.js";
+
+// Days a task stays in the trash before it is purged for good
+export const TRASH_RETENTION_DAYS = parseInt(
+  process.env.TRASH_RETENTION_DAYS || "30",
+  10
+);
+
+// Seconds between purges (0 only purges at startup)
+const TRASH_PURGE_INTERVAL_SECONDS = parseInt(
+  process.env.TRASH_PURGE_INTERVAL_SECONDS || "3600",
+  10
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a trashed task is past the retention period
+ */
+export function isExpired(task: Task, now = new Date()): boolean {
+  return (
+    task.deletedAt !== undefined &&
+    Date.parse(task.deletedAt) < now.getTime() - TRASH_RETENTION_DAYS * DAY_MS
+  );
+}
+
+/**
+ * Permanently remove tasks that have been in the trash longer than the
+ * retention period, returning how many were removed
+ */
+export async function purgeExpiredTrash(now = new Date()): Promise<number> {
+  return storageLock.withLock(async () => {
+    let purged = 0;
+    for (const { id } of await workspaces.listWorkspaces()) {
+      const repository = getRepository(id, { actor: "system", tool: "purge" });
+      const trashed = await repository.queryTasks({ deleted: "only" });
+      for (const task of trashed.filter((t) => isExpired(t, now))) {
+        if (await repository.deleteTask(task.id)) {
+          purged++;
+        }
+      }
+    }
+    return purged;
+  });
+}
+
+/**
+ * Purge expired trash (and stale sent reminders) now and then every
+ * TRASH_PURGE_INTERVAL_SECONDS, calling onPurge after each purge that
+ * removed tasks
+ */
+export async function startTrashPurger(
+  onPurge: () => Promise<void>
+): Promise<void> {
+  const purge = async () => {
+    try {
+      const purged = await purgeExpiredTrash();
+      if (purged > 0) {
+        console.error(`Purged ${purged} task(s) from the trash`);
+        await onPurge();
+      }
+      await pruneSentReminders();
+    } catch (error) {
+      console.error("Trash purge failed:", error);
+    }
+  };
+
+  await purge();
+  if (TRASH_PURGE_INTERVAL_SECONDS > 0) {
+    setInterval(purge, TRASH_PURGE_INTERVAL_SECONDS * 1000).unref();
+  }
+}
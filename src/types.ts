@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { QueryNode } from "./query.js";
 
 // Task priority levels
 export type Priority = "low" | "medium" | "high";
@@ -6,62 +7,713 @@ export type Priority = "low" | "medium" | "high";
 // Task status
 export type Status = "pending" | "in_progress" | "completed";
 
+// Weekday codes used by recurrence rules
+export type Weekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+// RRULE-style repeat schedule
+export interface RecurrenceRule {
+  frequency: "daily" | "weekly" | "monthly";
+  interval: number; // every N days/weeks/months
+  byWeekday?: Weekday[]; // daily/weekly only
+  until?: string; // ISO date string YYYY-MM-DD (inclusive)
+  count?: number; // total occurrences in the series
+  monthDay?: number; // monthly only: day the series started on (set when scheduling)
+}
+
+// Workspace every task belongs to unless another one is chosen
+export const DEFAULT_WORKSPACE = "default";
+
+// Workspace grouping a team's tasks
+export interface Workspace {
+  id: string; // short name, e.g. "default" or "platform-team"
+  createdBy: string;
+  createdAt: string; // ISO timestamp
+}
+
+// Access levels, from least to most privileged
+export type Role = "viewer" | "member" | "admin";
+
+// Authenticated caller
+export interface Identity {
+  userId: string;
+  role: Role;
+}
+
+// Per-connection state: who is calling and which workspace they are in
+export interface Session extends Identity {
+  workspaceId: string;
+  undoStack: UndoOperation[]; // changes made by each tool call, newest last
+  redoStack: UndoOperation[]; // operations reverted by undo, newest last
+  // Per task, versions written by undo/redo mapped to the recorded version
+  // whose contents they restored (null for a task they moved to the trash
+  // because it didn't exist yet)
+  replayedVersions: Map<string, Map<number, number | null>>;
+}
+
 // Main task interface
 export interface Task {
   id: string;
+  workspaceId: string;
   title: string;
   description?: string;
   priority: Priority;
   category?: string;
+  tags?: string[]; // lowercase labels, sorted
   dueDate?: string; // ISO date string YYYY-MM-DD
   status: Status;
   createdAt: string; // ISO timestamp
   completedAt?: string; // ISO timestamp
+  parentId?: string; // ID of the parent task for subtasks
+  blockedBy?: string[]; // IDs of tasks that must be completed first
+  recurrence?: RecurrenceRule;
+  seriesId?: string; // shared by every occurrence of a recurring task
+  occurrence?: number; // 1-based position within the series
+  createdBy?: string; // owner (user who created the task)
+  assignee?: string;
+  deletedAt?: string; // ISO timestamp; set while the task is in the trash
+  version: number; // starts at 1 and goes up with every write
+  number?: number; // sequential, assigned when first stored (key TASK-<n>)
+  estimateMinutes?: number; // expected effort
+  remindAt?: number[]; // days before the due date to remind (0 = on the day)
+  snoozedUntil?: string; // ISO timestamp; reminders wait until then
+}
+
+// Time spent on a task, from a timer or logged by hand
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  workspaceId: string;
+  userId: string; // who did the work
+  startedAt: string; // ISO timestamp
+  endedAt?: string; // ISO timestamp; absent while the timer is running
+  minutes: number; // 0 while the timer is running
+  note?: string;
 }
 
 // Storage structure
 export interface TaskStorage {
+  schemaVersion?: number; // absent in files written before migrations
   tasks: Task[];
+  workspaces?: Workspace[]; // absent in files written before workspaces
+  nextTaskNumber?: number; // number the next new task gets
+  timeEntries?: TimeEntry[]; // absent in files written before time tracking
+  sentReminders?: SentReminder[]; // absent in files written before reminders
   lastUpdated: string;
 }
 
+// Filters accepted by TaskRepository.queryTasks (omitted fields match everything)
+export interface TaskFilter {
+  ids?: string[]; // tasks with one of these full IDs
+  workspaceId?: string;
+  status?: Status;
+  priority?: Priority;
+  category?: string; // case-insensitive
+  tagsAny?: string[]; // tasks with at least one of these tags
+  tagsAll?: string[]; // tasks with every one of these tags
+  parentId?: string | null; // null matches top-level tasks only
+  parentIds?: string[]; // subtasks of any of these tasks
+  blockedBy?: string; // tasks that list this ID as a blocker
+  seriesId?: string; // occurrences of one recurring task
+  assignee?: string;
+  deleted?: "only" | "include"; // trashed tasks are excluded by default
+  query?: QueryNode; // parsed query language expression
+}
+
+// A reminder the scheduler has delivered (so it isn't sent again)
+export interface SentReminder {
+  key: string; // identifies the reminder, see reminders.ts
+  taskId: string;
+  workspaceId: string;
+  sentAt: string; // ISO timestamp
+}
+
+// Filters accepted by TimeEntryRepository.queryTimeEntries
+export interface TimeEntryFilter {
+  workspaceId?: string;
+  taskIds?: string[];
+  userId?: string;
+  running?: boolean; // only running (true) or only finished (false) timers
+}
+
+// Fields list and search results can be sorted by
+export const SORT_FIELDS = [
+  "priority",
+  "dueDate",
+  "createdAt",
+  "title",
+  "completedAt",
+] as const;
+export type SortField = (typeof SORT_FIELDS)[number];
+export type SortOrder = "asc" | "desc";
+
+// Sorting and paging for queries (unsorted results keep storage order)
+export interface QueryOptions {
+  sortBy?: SortField;
+  sortOrder?: SortOrder; // defaults to the field's natural order
+  limit?: number;
+  offset?: number;
+}
+
+// Storage backend contract implemented by storage.ts and storage-db.ts
+export interface TaskRepository {
+  /**
+   * Find a task by key (TASK-42), full ID or ID prefix, optionally restricted
+   * by a filter; throws AmbiguousTaskIdError if a prefix matches several
+   */
+  getTask(ref: string, filter?: TaskFilter): Promise<Task | undefined>;
+  queryTasks(filter?: TaskFilter, options?: QueryOptions): Promise<Task[]>;
+  countTasks(filter?: TaskFilter): Promise<number>;
+  /** Number of tasks matching the filter with each status, in one pass */
+  countByStatus(filter?: TaskFilter): Promise<Record<Status, number>>;
+  /** Tasks matching any phrase and the filter (by relevance unless sorted) */
+  searchTasks(
+    phrases: string[],
+    filter?: TaskFilter,
+    options?: QueryOptions
+  ): Promise<SearchPage>;
+  /** Insert a new task at version 1, numbering it if it has no number */
+  insertTask(task: Task): Promise<void>;
+  /** Insert several new tasks in a single write */
+  insertTasks(tasks: Task[]): Promise<void>;
+  /** Replace a task, setting task.version to the stored version plus one */
+  updateTask(task: Task): Promise<void>;
+  /** Update several tasks in a single write */
+  updateTasks(tasks: Task[]): Promise<void>;
+  deleteTask(taskId: string): Promise<boolean>;
+  /** Delete every task matching the filter, returning how many were removed */
+  deleteTasks(filter: TaskFilter): Promise<number>;
+}
+
+// A full-text search hit
+export interface SearchResult {
+  task: Task;
+  score: number; // BM25 relevance, higher is better
+  snippet?: string; // matching text with highlighted terms
+}
+
+// One page of search results
+export interface SearchPage {
+  results: SearchResult[];
+  total: number; // matches across all pages
+}
+
+// Workspace statistics returned by get_task_stats
+export interface TaskStatsReport {
+  total: number;
+  completionRate: number; // percentage of tasks completed, one decimal
+  byStatus: Record<Status, number>;
+  byPriority: Record<Priority, number>;
+  byCategory: Record<string, number>;
+  byTag: Record<string, number>;
+  overdue: number; // open tasks past their due date
+  dueSoon: number; // open tasks due within 7 days
+  recurringSeries: {
+    seriesId: string;
+    title: string; // title of the latest occurrence
+    currentStreak: number; // consecutive on-time completions, newest last
+    bestStreak: number;
+    onTime: number;
+    completed: number; // completed occurrences with a due date
+  }[];
+  timeLogged: number; // minutes logged on these tasks
+  timeByCategory: Record<string, number>; // minutes logged per category
+  // Logged against estimated time over completed tasks that have both
+  // (absent when there are none)
+  estimateAccuracy?: {
+    tasks: number;
+    estimatedMinutes: number;
+    loggedMinutes: number;
+    ratio: number; // logged ÷ estimated; above 1 means underestimated
+  };
+}
+
+// Who made a change and through which tool (recorded in task history)
+export interface AuditContext {
+  actor: string;
+  tool: string;
+  // Called after each write with the versions of the changed tasks
+  onRecord?: (
+    entries: HistoryEntry[],
+    versions: Record<string, VersionChange>
+  ) => void;
+}
+
+// A write to a workspace's tasks or time log, as seen by change listeners
+export interface StorageChange {
+  workspaceId: string;
+  tasks: Task[]; // changed tasks before and after the write (none for time)
+}
+
+// Version of a task before and after a change (null while it doesn't exist)
+export interface VersionChange {
+  before: number | null;
+  after: number | null;
+}
+
+// One tool call's changes, as kept for undo and redo
+export interface UndoOperation {
+  entries: HistoryEntry[];
+  versions: Record<string, VersionChange>; // by task ID
+}
+
+// Before/after values of one task field
+export interface FieldChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+// Immutable record of one task mutation
+export interface HistoryEntry {
+  taskId: string;
+  workspaceId: string;
+  timestamp: string; // ISO timestamp
+  tool: string;
+  actor: string;
+  action: "create" | "update" | "delete";
+  changes: Record<string, FieldChange>;
+}
+
+// Append-only change log implemented by storage.ts and storage-db.ts
+export interface HistoryRepository {
+  appendHistory(entries: HistoryEntry[]): Promise<void>;
+  /** Entries for a task (full ID or prefix), oldest first */
+  getHistory(
+    taskIdPrefix: string,
+    workspaceId?: string
+  ): Promise<HistoryEntry[]>;
+}
+
+// Time log implemented by storage.ts and storage-db.ts
+export interface TimeEntryRepository {
+  /** Entries matching the filter, oldest first and then by ID */
+  queryTimeEntries(filter?: TimeEntryFilter): Promise<TimeEntry[]>;
+  insertTimeEntries(entries: TimeEntry[]): Promise<void>;
+  /** Replace an entry (stopping its timer) */
+  updateTimeEntry(entry: TimeEntry): Promise<void>;
+}
+
+// Record of delivered reminders implemented by storage.ts and storage-db.ts
+export interface ReminderRepository {
+  /**
+   * Sent reminders, optionally only those for some tasks, oldest first and
+   * then by key
+   */
+  querySentReminders(taskIds?: string[]): Promise<SentReminder[]>;
+  insertSentReminders(reminders: SentReminder[]): Promise<void>;
+  /** Forget sent reminders by key, so they are sent again */
+  deleteSentReminders(keys: string[]): Promise<void>;
+}
+
+// Workspace registry implemented by storage.ts and storage-db.ts
+export interface WorkspaceRepository {
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  listWorkspaces(): Promise<Workspace[]>;
+  insertWorkspace(workspace: Workspace): Promise<void>;
+}
+
+// Exclusive access to stored data for one read-modify-write sequence
+export interface StorageLock {
+  /** Run fn while holding the lock (re-entrant) */
+  withLock<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+// One step of a storage backend's migrations
+export interface MigrationInfo {
+  version: number; // schema version after the step
+  description: string;
+}
+
+// Storage backends selectable with STORAGE_TYPE
+export type StorageBackend = "file" | "database";
+
+// Schema version of the stored data compared with this server's
+export interface SchemaStatus {
+  backend: StorageBackend;
+  location: string; // path of the data file
+  version: number; // 0 for data written before versioning
+  latestVersion: number;
+  pending: MigrationInfo[]; // steps still to apply, oldest first
+}
+
+// Outcome of bringing stored data up to date
+export interface MigrationResult {
+  applied: MigrationInfo[];
+  backup?: string; // copy of the data taken before the first step
+}
+
+// Schema versioning implemented by storage.ts and storage-db.ts
+export interface SchemaRepository {
+  schemaStatus(): Promise<SchemaStatus>;
+  /** Apply pending migrations, backing up existing data first */
+  migrate(): Promise<MigrationResult>;
+}
+
+// Record counts and checksums of one kind of data on both backends
+export interface CopyCheck {
+  source: number;
+  target: number;
+  sourceChecksum: string;
+  targetChecksum: string;
+}
+
+// Outcome of copying the dataset to the other backend (--migrate-storage)
+export interface StorageMigrationReport {
+  from: StorageBackend;
+  to: StorageBackend;
+  tasks: CopyCheck; // source counts only the tasks that were copied
+  workspaces: CopyCheck; // compared by ID
+  history: CopyCheck;
+  timeEntries: CopyCheck;
+  sentReminders: CopyCheck;
+  nextTaskNumber: { source: number; target: number }; // TASK-<n> counter
+  rejected: { id: string; reason: string }[]; // tasks the target refused
+  verified: boolean; // counts and checksums match
+  source: "removed" | "backed-up" | "kept"; // what happened to the source
+  backupFiles: string[]; // read-only copies of the source files
+}
+
+// Entry in the API keys file (AUTH_KEYS_FILE)
+export const ApiKeySchema = z.object({
+  key: z.string().min(16, "API keys must be at least 16 characters"),
+  user: z.string().min(1),
+  role: z.enum(["viewer", "member", "admin"]),
+});
+
 // Tool argument schemas using Zod
+export const RecurrenceSchema = z
+  .object({
+    frequency: z.enum(["daily", "weekly", "monthly"]),
+    interval: z.number().int().positive().default(1),
+    byWeekday: z
+      .array(z.enum(["MO", "TU", "WE", "TH", "FR", "SA", "SU"]))
+      .min(1)
+      .optional(),
+    until: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+      .optional(),
+    count: z.number().int().positive().optional(),
+  })
+  .refine((r) => !(r.byWeekday && r.frequency === "monthly"), {
+    message: "byWeekday is only supported for daily and weekly recurrence",
+  });
+
+// Tags are stored lowercase, so "Bug" and "bug" are the same tag
+export const TagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(
+    /^[^\s,]+$/,
+    "Tags must be non-empty and contain no spaces or commas"
+  );
+
+/**
+ * Schema for a task reference: a key such as TASK-42, a full ID or an ID
+ * prefix (one that several tasks share is rejected when it is looked up)
+ */
+function taskRef(label: string) {
+  return z.string().trim().min(1, `${label} is required`);
+}
+
+// A task as either backend stores it (checked when copying between them)
+export const StoredTaskSchema = z.object({
+  id: z.string().min(1),
+  workspaceId: z.string().min(1),
+  title: z.string(),
+  description: z.string().optional(),
+  priority: z.enum(["low", "medium", "high"]),
+  category: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  dueDate: z.string().optional(),
+  status: z.enum(["pending", "in_progress", "completed"]),
+  createdAt: z.string().min(1),
+  completedAt: z.string().optional(),
+  parentId: z.string().optional(),
+  blockedBy: z.array(z.string()).optional(),
+  recurrence: RecurrenceSchema.optional(),
+  seriesId: z.string().optional(),
+  occurrence: z.number().int().optional(),
+  createdBy: z.string().optional(),
+  assignee: z.string().optional(),
+  deletedAt: z.string().optional(),
+  version: z.number().int().min(1),
+  number: z.number().int().min(1).optional(),
+  estimateMinutes: z.number().int().min(1).optional(),
+  remindAt: z.array(z.number().int().min(0)).optional(),
+  snoozedUntil: z.string().optional(),
+});
+
+// Expected effort in minutes
+const EstimateSchema = z
+  .number()
+  .int("Estimate must be whole minutes")
+  .min(1, "Estimate must be at least 1 minute");
+
+// Days before the due date to send reminders
+const RemindAtSchema = z
+  .array(
+    z
+      .number()
+      .int("Reminder offsets must be whole days")
+      .min(0, "Reminder offsets can't be negative")
+      .max(365, "Reminder offsets can be at most 365 days")
+  )
+  .max(10, "At most 10 reminders per task");
+
 export const CreateTaskSchema = z.object({
   title: z.string().min(1, "Title is required"),
   description: z.string().optional(),
   priority: z.enum(["low", "medium", "high"]).default("medium"),
   category: z.string().optional(),
+  tags: z.array(TagSchema).optional(),
   dueDate: z
     .string()
     .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
     .optional(),
+  recurrence: RecurrenceSchema.optional(),
+  estimateMinutes: EstimateSchema.optional(),
+  remindAt: RemindAtSchema.optional(),
+});
+
+// Page size used when a list tool call doesn't set a limit
+export const DEFAULT_PAGE_SIZE = 50;
+
+// Paging and sorting arguments shared by list_tasks and search_tasks
+export const PaginationSchema = z.object({
+  limit: z.number().int().min(1).max(500).default(DEFAULT_PAGE_SIZE),
+  offset: z.number().int().min(0).default(0),
+  cursor: z.string().optional(), // continuation token, overrides offset
+  sortBy: z.enum(SORT_FIELDS).default("priority"),
+  sortOrder: z.enum(["asc", "desc"]).optional(),
 });
 
-export const ListTasksSchema = z.object({
+// Filters shared by list_tasks and export_tasks
+export const ListFilterSchema = z.object({
   status: z
     .enum(["pending", "in_progress", "completed", "all"])
     .default("all"),
   priority: z.enum(["low", "medium", "high", "all"]).default("all"),
   category: z.string().optional(),
+  tagsAny: z.array(TagSchema).nonempty().optional(),
+  tagsAll: z.array(TagSchema).nonempty().optional(),
+  assignee: z.string().optional(),
+  mine: z.boolean().default(false), // only tasks assigned to the caller
+  query: z.string().optional(), // query language, see query.ts
 });
 
+export const ListTasksSchema = ListFilterSchema.merge(PaginationSchema);
+
+// Version the caller last saw; the change is refused if the task moved on
+export const ExpectedVersionSchema = z.number().int().min(1).optional();
+
 export const UpdateTaskSchema = z.object({
-  taskId: z.string().min(8, "Task ID must be at least 8 characters"),
+  taskId: taskRef("Task ID"),
   title: z.string().optional(),
   description: z.string().optional(),
   priority: z.enum(["low", "medium", "high"]).optional(),
   category: z.string().optional(),
+  tags: z.array(TagSchema).optional(), // replaces the task's tags
   dueDate: z
     .string()
     .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
     .optional(),
   status: z.enum(["pending", "in_progress", "completed"]).optional(),
+  recurrence: RecurrenceSchema.nullable().optional(), // null stops repeating
+  estimateMinutes: EstimateSchema.nullable().optional(), // null removes it
+  remindAt: RemindAtSchema.nullable().optional(), // null restores the default
+  expectedVersion: ExpectedVersionSchema,
 });
 
+export const BulkUpdateSchema = z
+  .object({
+    taskIds: z.array(taskRef("Task ID")).nonempty().optional(),
+    filter: z
+      .object({
+        status: z.enum(["pending", "in_progress", "completed"]).optional(),
+        priority: z.enum(["low", "medium", "high"]).optional(),
+        category: z.string().optional(),
+      })
+      .optional(),
+    patch: z
+      .object({
+        status: z.enum(["pending", "in_progress", "completed"]).optional(),
+        priority: z.enum(["low", "medium", "high"]).optional(),
+        category: z.string().optional(),
+        shiftDueDays: z.number().int().optional(), // move due dates by N days
+      })
+      .refine((patch) => Object.values(patch).some((v) => v !== undefined), {
+        message: "Patch must change at least one field",
+      }),
+    dryRun: z.boolean().default(false),
+  })
+  .refine(
+    (args) => (args.taskIds === undefined) !== (args.filter === undefined),
+    { message: "Select tasks with either taskIds or filter" }
+  );
+
 export const TaskIdSchema = z.object({
-  taskId: z.string().min(8, "Task ID must be at least 8 characters"),
+  taskId: taskRef("Task ID"),
+});
+
+export const CompleteTaskSchema = TaskIdSchema.extend({
+  subtaskPolicy: z.enum(["block", "cascade", "warn"]).default("block"),
+  expectedVersion: ExpectedVersionSchema,
+});
+
+export const DeleteTaskSchema = TaskIdSchema.extend({
+  subtaskPolicy: z.enum(["cascade", "reparent"]).default("reparent"),
+  expectedVersion: ExpectedVersionSchema,
+});
+
+export const AddSubtaskSchema = CreateTaskSchema.extend({
+  parentId: taskRef("Parent ID"),
+});
+
+export const MoveTaskSchema = z.object({
+  taskId: taskRef("Task ID"),
+  parentId: taskRef("Parent ID").optional(),
+});
+
+export const DependencySchema = z.object({
+  taskId: taskRef("Task ID"),
+  blockedById: taskRef("Blocking task ID"),
+});
+
+export const NextActionsSchema = z.object({
+  category: z.string().optional(),
+  limit: z.number().int().positive().optional(),
+});
+
+export const WorkspaceSchema = z.object({
+  name: z
+    .string()
+    .regex(
+      /^[a-z0-9][a-z0-9_-]*$/,
+      "Workspace name must be lowercase letters, digits, '-' or '_'"
+    ),
+});
+
+export const AssignTaskSchema = z.object({
+  taskId: taskRef("Task ID"),
+  assignee: z.string().min(1).optional(), // omit to unassign
+});
+
+export const TaskHistorySchema = z.object({
+  taskId: taskRef("Task ID"),
+  limit: z.number().int().positive().optional(),
+});
+
+export const TagsSchema = z.object({
+  taskId: taskRef("Task ID"),
+  tags: z.array(TagSchema).nonempty("At least one tag is required"),
+});
+
+export const RenameTagSchema = z.object({
+  from: TagSchema,
+  to: TagSchema, // merged into if another task already uses it
+});
+
+// File formats supported by export_tasks and import_tasks (see transfer.ts)
+export const TRANSFER_FORMATS = ["csv", "markdown", "todotxt", "ical"] as const;
+export type TransferFormat = (typeof TRANSFER_FORMATS)[number];
+
+export const ExportSchema = ListFilterSchema.extend({
+  format: z.enum(TRANSFER_FORMATS),
+});
+
+export const ImportSchema = z.object({
+  format: z.enum(TRANSFER_FORMATS),
+  content: z.string().min(1, "Content to import is required"),
+  dryRun: z.boolean().default(false),
+});
+
+// One imported task: the create_task fields plus its completion state
+export const ImportTaskSchema = CreateTaskSchema.extend({
+  status: z.enum(["pending", "in_progress", "completed"]).default("pending"),
+  completedAt: z
+    .string()
+    .refine((value) => !isNaN(Date.parse(value)), "Invalid completion date")
+    .optional(),
+});
+
+export const StartTimerSchema = z.object({
+  taskId: taskRef("Task ID"),
+  note: z.string().optional(),
+});
+
+export const StopTimerSchema = z.object({
+  note: z.string().optional(), // replaces the note given when starting
+});
+
+export const LogTimeSchema = z.object({
+  taskId: taskRef("Task ID"),
+  minutes: z
+    .number()
+    .int("Time must be whole minutes")
+    .min(1, "Time must be at least 1 minute")
+    .max(24 * 60, "Log at most 24 hours at once"),
+  note: z.string().optional(),
 });
 
-export const SearchSchema = z.object({
-  query: z.string().min(1, "Search query is required"),
+export const SnoozeReminderSchema = z
+  .object({
+    taskId: taskRef("Task ID"),
+    minutes: z
+      .number()
+      .int("Snooze must be whole minutes")
+      .min(1, "Snooze for at least 1 minute")
+      .max(30 * 24 * 60, "Snooze for at most 30 days")
+      .optional(),
+    until: z
+      .string()
+      .refine((value) => !isNaN(Date.parse(value)), "Invalid date and time")
+      .optional(),
+  })
+  .refine((args) => args.minutes === undefined || args.until === undefined, {
+    message: "Give either minutes or until, not both",
+  });
+
+export const UndoSchema = z.object({
+  steps: z.number().int().positive().default(1),
+  force: z.boolean().default(false),
+});
+
+export const SearchSchema = z
+  .object({
+    query: z.string().min(1, "Search query is required"),
+  })
+  .merge(PaginationSchema)
+  .extend({
+    sortBy: z.enum(["relevance", ...SORT_FIELDS]).default("relevance"),
+  });
+
+// Arguments of the built-in prompts (see prompts.ts); MCP passes prompt
+// arguments as strings
+const PromptDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+export const DailyPlanPromptSchema = z.object({
+  category: z.string().optional(),
+  date: PromptDateSchema.optional(), // defaults to today
+});
+
+export const StandupPromptSchema = z.object({
+  category: z.string().optional(),
+  since: PromptDateSchema.optional(), // defaults to yesterday
+});
+
+export const WeeklyReviewPromptSchema = z
+  .object({
+    category: z.string().optional(),
+    from: PromptDateSchema.optional(), // defaults to six days before `to`
+    to: PromptDateSchema.optional(), // defaults to today
+  })
+  .refine((args) => !args.from || !args.to || args.from <= args.to, {
+    message: "from must not be after to",
+  });
+
+export const TriageInboxPromptSchema = z.object({
+  limit: z.coerce.number().int().positive().optional(),
 });
@@ -0,0 +1,41 @@
+/**
+ * API keys and roles
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import fs from "fs-extra";
+import { makeDataDir, startServer } from "./helpers.js";
+
+// A member whose key contains the AUTH_KEYS separator
+const MEMBER_KEY = "s3cr3t:key:for:bob";
+
+describe("authentication", () => {
+  it("reads keys containing colons and keeps bulk tools for admins", async () => {
+    const dataDir = await makeDataDir();
+    try {
+      const server = await startServer("file", dataDir, {
+        AUTH_KEYS: `${MEMBER_KEY}:bob:member`,
+        TASK_API_KEY: MEMBER_KEY,
+      });
+      try {
+        const created = await server.call("create_task", { title: "Mine" });
+        assert.equal(created.isError, false, created.text);
+
+        for (const [name, args] of [
+          ["bulk_update", { taskIds: ["TASK-1"], status: "completed" }],
+          ["rename_tag", { from: "a", to: "b" }],
+          ["import_tasks", { format: "csv", data: "title\r\nNew\r\n" }],
+        ] as const) {
+          const result = await server.call(name, args);
+          assert.equal(result.isError, true, name);
+          assert.match(result.text, /requires the admin role/);
+        }
+      } finally {
+        await server.close();
+      }
+    } finally {
+      await fs.remove(dataDir);
+    }
+  });
+});
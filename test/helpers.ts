@@ -0,0 +1,164 @@
+/**
+ * Helpers for tests that run the server as a child process and talk to it
+ * over stdio, like an MCP client would
+ *
+ * Storage backends read DATA_DIR and STORAGE_TYPE when they are loaded, so
+ * every server gets its own process and data directory.
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { execFile } from "child_process";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { promisify } from "util";
+
+const ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), "..");
+const SERVER = path.join(ROOT, "src", "index.ts");
+
+export type StorageType = "file" | "db";
+export const STORAGE_TYPES: StorageType[] = ["file", "db"];
+
+export interface ToolResult {
+  text: string;
+  isError: boolean;
+  structured: unknown;
+}
+
+export interface TestServer {
+  call(name: string, args?: Record<string, unknown>): Promise<ToolResult>;
+  subscribe(uri: string): Promise<void>;
+  updated: string[]; // URIs from notifications/resources/updated, in order
+  close(): Promise<void>;
+}
+
+/**
+ * Create an empty data directory under the system temp directory
+ */
+export function makeDataDir(): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), "task-manager-test-"));
+}
+
+/**
+ * Environment for a server process on a data directory
+ */
+function serverEnv(
+  storageType: StorageType,
+  dataDir: string,
+  env: Record<string, string>
+): Record<string, string> {
+  // Keep the caller's auth settings out of the server
+  const inherited = { ...process.env } as Record<string, string>;
+  delete inherited.AUTH_KEYS;
+  delete inherited.AUTH_KEYS_FILE;
+  delete inherited.TASK_API_KEY;
+
+  return {
+    ...inherited,
+    DATA_DIR: dataDir,
+    STORAGE_TYPE: storageType,
+    TRANSPORT: "stdio",
+    TASK_USER: "tester",
+    REMINDER_INTERVAL_SECONDS: "0",
+    ...env,
+  };
+}
+
+/**
+ * Run the server's command line on a data directory (for --migrate and
+ * the like), returning its exit code and output
+ */
+export async function runCommand(
+  storageType: StorageType,
+  dataDir: string,
+  args: string[]
+): Promise<{ code: number; stdout: string }> {
+  try {
+    const { stdout } = await promisify(execFile)(
+      process.execPath,
+      ["--import", "tsx", SERVER, ...args],
+      { cwd: ROOT, env: serverEnv(storageType, dataDir, {}) }
+    );
+    return { code: 0, stdout };
+  } catch (error) {
+    const { code, stdout } = error as { code: number; stdout: string };
+    return { code, stdout };
+  }
+}
+
+/**
+ * Start a server on a data directory and connect a client to it
+ */
+export async function startServer(
+  storageType: StorageType,
+  dataDir: string,
+  env: Record<string, string> = {}
+): Promise<TestServer> {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ["--import", "tsx", SERVER],
+    cwd: ROOT,
+    env: serverEnv(storageType, dataDir, env),
+    stderr: "ignore",
+  });
+  const client = new Client({ name: "task-manager-test", version: "1.0.0" });
+  const updated: string[] = [];
+  client.setNotificationHandler(
+    ResourceUpdatedNotificationSchema,
+    async (notification) => {
+      updated.push(notification.params.uri);
+    }
+  );
+  // The SDK leaves a request's timeout running when the connection closes
+  // under it, so a server that exits at startup would hold the test process
+  // open; aborting the initialize request clears it
+  const initialize = new AbortController();
+  try {
+    await client.connect(transport, { signal: initialize.signal });
+  } catch (error) {
+    initialize.abort();
+    await client.close();
+    throw error;
+  }
+
+  return {
+    async call(name, args = {}) {
+      const result = (await client.callTool({ name, arguments: args })) as {
+        content: { type: string; text: string }[];
+        isError?: boolean;
+        structuredContent?: unknown;
+      };
+      return {
+        text: result.content[0]?.text ?? "",
+        isError: result.isError ?? false,
+        structured: result.structuredContent,
+      };
+    },
+    async subscribe(uri) {
+      await client.subscribeResource({ uri });
+    },
+    updated,
+    close: () => client.close(),
+  };
+}
+
+/**
+ * Start a server on a fresh data directory, run a function against it and
+ * clean up afterwards
+ */
+export async function withServer<T>(
+  storageType: StorageType,
+  fn: (server: TestServer, dataDir: string) => Promise<T>
+): Promise<T> {
+  const dataDir = await makeDataDir();
+  const server = await startServer(storageType, dataDir);
+  try {
+    return await fn(server, dataDir);
+  } finally {
+    await server.close();
+    await fs.remove(dataDir);
+  }
+}
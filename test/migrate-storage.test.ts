@@ -0,0 +1,161 @@
+/**
+ * Copying data between the file and SQLite backends (--migrate-storage)
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import fs from "fs-extra";
+import path from "path";
+import { Task } from "../src/types.js";
+import { makeDataDir, runCommand, startServer } from "./helpers.js";
+
+// Everything in the trash is past retention at once
+const EXPIRE_AT_ONCE = { TRASH_RETENTION_DAYS: "0" };
+
+describe("migrate-storage", () => {
+  it("keeps task numbers of purged tasks used", async () => {
+    const dataDir = await makeDataDir();
+    try {
+      const file = await startServer("file", dataDir, EXPIRE_AT_ONCE);
+      try {
+        await file.call("create_task", { title: "First" });
+        await file.call("create_task", { title: "Purged" });
+        await file.call("delete_task", { taskId: "TASK-2" });
+      } finally {
+        await file.close();
+      }
+      // Restarting purges the expired trash
+      await (await startServer("file", dataDir, EXPIRE_AT_ONCE)).close();
+
+      const { code, stdout } = await runCommand("file", dataDir, [
+        "--migrate-storage",
+        "db",
+      ]);
+      assert.equal(code, 0, stdout);
+
+      // The source stays behind as a backup by default
+      assert.equal(
+        await fs.pathExists(path.join(dataDir, "tasks.json")),
+        false
+      );
+      const backups = await fs.readdir(path.join(dataDir, "backups"));
+      assert.ok(backups.some((name) => name.startsWith("tasks.v")));
+
+      const db = await startServer("db", dataDir);
+      try {
+        const created = await db.call("create_task", { title: "Next" });
+        assert.equal((created.structured as { task: Task }).task.number, 3);
+      } finally {
+        await db.close();
+      }
+    } finally {
+      await fs.remove(dataDir);
+    }
+  });
+
+  it("only deletes the source when asked to", async () => {
+    const dataDir = await makeDataDir();
+    try {
+      const db = await startServer("db", dataDir);
+      try {
+        await db.call("create_task", { title: "Copied" });
+      } finally {
+        await db.close();
+      }
+
+      const { code, stdout } = await runCommand("db", dataDir, [
+        "--migrate-storage",
+        "file",
+        "--remove-source",
+      ]);
+      assert.equal(code, 0, stdout);
+      assert.equal(await fs.pathExists(path.join(dataDir, "tasks.db")), false);
+      assert.equal(await fs.pathExists(path.join(dataDir, "backups")), false);
+
+      const file = await startServer("file", dataDir);
+      try {
+        const listed = await file.call("list_tasks");
+        assert.match(listed.text, /Copied/);
+      } finally {
+        await file.close();
+      }
+    } finally {
+      await fs.remove(dataDir);
+    }
+  });
+
+  it("verifies time entries started at the same moment", async () => {
+    const dataDir = await makeDataDir();
+    try {
+      const file = await startServer("file", dataDir);
+      let task: Task;
+      try {
+        const created = await file.call("create_task", { title: "Timed" });
+        task = (created.structured as { task: Task }).task;
+      } finally {
+        await file.close();
+      }
+
+      // Stored in the opposite order of their IDs
+      const tasksFile = path.join(dataDir, "tasks.json");
+      const storage = await fs.readJson(tasksFile);
+      storage.timeEntries = ["b", "a"].map((id) => ({
+        id,
+        taskId: task.id,
+        workspaceId: task.workspaceId,
+        userId: "alice",
+        startedAt: "2025-01-01T09:00:00.000Z",
+        endedAt: "2025-01-01T10:00:00.000Z",
+        minutes: 60,
+      }));
+      await fs.writeJson(tasksFile, storage);
+
+      const { code, stdout } = await runCommand("file", dataDir, [
+        "--migrate-storage",
+        "db",
+      ]);
+      assert.equal(code, 0, stdout);
+      assert.match(stdout, /✅ Time entries: 2 → 2/);
+    } finally {
+      await fs.remove(dataDir);
+    }
+  });
+
+  it("empties the target again when the copy is incomplete", async () => {
+    const dataDir = await makeDataDir();
+    try {
+      const file = await startServer("file", dataDir);
+      try {
+        await file.call("create_task", { title: "Fine" });
+        await file.call("create_task", { title: "Broken" });
+      } finally {
+        await file.close();
+      }
+
+      // A priority the database refuses
+      const tasksFile = path.join(dataDir, "tasks.json");
+      const storage = await fs.readJson(tasksFile);
+      storage.tasks[1].priority = "urgent";
+      await fs.writeJson(tasksFile, storage);
+
+      const failed = await runCommand("file", dataDir, [
+        "--migrate-storage",
+        "db",
+      ]);
+      assert.equal(failed.code, 1, failed.stdout);
+      assert.match(failed.stdout, /1 task\(s\) rejected/);
+
+      // Fixing the source is enough to run it again
+      storage.tasks[1].priority = "high";
+      await fs.writeJson(tasksFile, storage);
+      const retried = await runCommand("file", dataDir, [
+        "--migrate-storage",
+        "db",
+      ]);
+      assert.equal(retried.code, 0, retried.stdout);
+      assert.match(retried.stdout, /✅ Tasks: 2 → 2/);
+    } finally {
+      await fs.remove(dataDir);
+    }
+  });
+});
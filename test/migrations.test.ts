@@ -0,0 +1,219 @@
+/**
+ * Upgrading data written before schema versioning, on both backends
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import Database from "better-sqlite3";
+import fs from "fs-extra";
+import path from "path";
+import {
+  DB_MIGRATIONS,
+  FILE_MIGRATIONS,
+  latestVersion,
+} from "../src/migrations.js";
+import { Task } from "../src/types.js";
+import { StorageType, makeDataDir, startServer } from "./helpers.js";
+
+// Tasks as the first release stored them (no workspace, version or number)
+const LEGACY_TASKS = [
+  {
+    id: "6f1c2a4e-0b7d-4c55-9a51-2d7e3f0a9b11",
+    title: "Running the weekly backups",
+    priority: "high",
+    category: "ops",
+    status: "pending",
+    createdAt: "2024-03-01T09:00:00.000Z",
+  },
+  {
+    id: "1a9e8d7c-3b2f-4e10-8c6d-5f4a3b2c1d00",
+    title: "Renew certificates",
+    description: "Expires next month",
+    priority: "medium",
+    status: "completed",
+    createdAt: "2024-03-02T09:00:00.000Z",
+    completedAt: "2024-03-05T12:00:00.000Z",
+  },
+];
+
+/**
+ * Write the legacy tasks as the first release's tasks.json
+ */
+async function writeLegacyFile(dataDir: string): Promise<void> {
+  await fs.writeJson(path.join(dataDir, "tasks.json"), {
+    tasks: LEGACY_TASKS,
+    lastUpdated: "2024-03-05T12:00:00.000Z",
+  });
+}
+
+/**
+ * Write the legacy tasks as the first release's tasks.db
+ */
+function writeLegacyDatabase(dataDir: string): void {
+  const db = new Database(path.join(dataDir, "tasks.db"));
+  db.exec(`
+    CREATE TABLE tasks (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      description TEXT,
+      priority TEXT NOT NULL CHECK(priority IN ('low', 'medium', 'high')),
+      category TEXT,
+      dueDate TEXT,
+      status TEXT NOT NULL CHECK(status IN ('pending', 'in_progress', 'completed')),
+      createdAt TEXT NOT NULL,
+      completedAt TEXT
+    );
+    CREATE INDEX idx_status ON tasks(status);
+    CREATE INDEX idx_priority ON tasks(priority);
+  `);
+  const insert = db.prepare(`
+    INSERT INTO tasks (id, title, description, priority, category, status,
+      createdAt, completedAt)
+    VALUES (@id, @title, @description, @priority, @category, @status,
+      @createdAt, @completedAt)
+  `);
+  for (const task of LEGACY_TASKS) {
+    insert.run({
+      description: null,
+      category: null,
+      completedAt: null,
+      ...task,
+    });
+  }
+  db.close();
+}
+
+/**
+ * Schema version recorded in a data directory
+ */
+async function storedVersion(
+  storageType: StorageType,
+  dataDir: string
+): Promise<number> {
+  if (storageType === "file") {
+    const data = await fs.readJson(path.join(dataDir, "tasks.json"));
+    return data.schemaVersion;
+  }
+  const db = new Database(path.join(dataDir, "tasks.db"), { readonly: true });
+  try {
+    return db.pragma("user_version", { simple: true }) as number;
+  } finally {
+    db.close();
+  }
+}
+
+const BACKENDS = [
+  {
+    storageType: "file" as const,
+    migrations: FILE_MIGRATIONS,
+    writeLegacy: writeLegacyFile,
+  },
+  {
+    storageType: "db" as const,
+    migrations: DB_MIGRATIONS,
+    writeLegacy: async (dataDir: string) => writeLegacyDatabase(dataDir),
+  },
+];
+
+for (const { storageType, migrations, writeLegacy } of BACKENDS) {
+  describe(`migrations (${storageType} storage)`, () => {
+    it("upgrades unversioned data at startup and backs it up", async () => {
+      const dataDir = await makeDataDir();
+      try {
+        await writeLegacy(dataDir);
+        const server = await startServer(storageType, dataDir);
+        try {
+          const list = await server.call("list_tasks", {
+            sortBy: "createdAt",
+            sortOrder: "asc",
+          });
+          const { tasks } = list.structured as { tasks: Task[] };
+          assert.deepEqual(
+            tasks.map((t) => [t.number, t.title, t.version, t.workspaceId]),
+            [
+              [1, "Running the weekly backups", 1, "default"],
+              [2, "Renew certificates", 1, "default"],
+            ]
+          );
+
+          // Older tasks are searchable, stemmed like new ones
+          const search = await server.call("search_tasks", { query: "run" });
+          const { results } = search.structured as {
+            results: { task: Task }[];
+          };
+          assert.deepEqual(
+            results.map((r) => r.task.title),
+            ["Running the weekly backups"]
+          );
+
+          // New tasks continue the numbering
+          const created = await server.call("create_task", { title: "Next" });
+          const { task } = created.structured as { task: Task };
+          assert.equal(task.number, 3);
+        } finally {
+          await server.close();
+        }
+
+        assert.equal(
+          await storedVersion(storageType, dataDir),
+          latestVersion(migrations)
+        );
+        const backups = await fs.readdir(path.join(dataDir, "backups"));
+        assert.equal(backups.length, 1);
+        assert.match(backups[0]!, /^tasks\.v0\./);
+      } finally {
+        await fs.remove(dataDir);
+      }
+    });
+  });
+}
+
+describe("migrations (newer data)", () => {
+  it("refuses to start on data from a newer server", async () => {
+    const dataDir = await makeDataDir();
+    await fs.writeJson(path.join(dataDir, "tasks.json"), {
+      tasks: [],
+      lastUpdated: "2024-03-05T12:00:00.000Z",
+      schemaVersion: latestVersion(FILE_MIGRATIONS) + 1,
+    });
+    try {
+      // A server that does start is closed, so the test fails instead of
+      // hanging
+      await assert.rejects(
+        startServer("file", dataDir).then((server) => server.close())
+      );
+    } finally {
+      await fs.remove(dataDir);
+    }
+  });
+});
+
+describe("migrations (search index)", () => {
+  it("only turns on stemming in the step that added it", async () => {
+    const dataDir = await makeDataDir();
+    try {
+      writeLegacyDatabase(dataDir);
+      const db = new Database(path.join(dataDir, "tasks.db"));
+      try {
+        const indexSql = () =>
+          (
+            db
+              .prepare("SELECT sql FROM sqlite_master WHERE name = 'tasks_fts'")
+              .get() as { sql: string }
+          ).sql;
+
+        DB_MIGRATIONS[0]!.up(db);
+        assert.doesNotMatch(indexSql(), /porter/);
+
+        for (const step of DB_MIGRATIONS.slice(1)) {
+          step.up(db);
+        }
+        assert.match(indexSql(), /porter/);
+      } finally {
+        db.close();
+      }
+    } finally {
+      await fs.remove(dataDir);
+    }
+  });
+});
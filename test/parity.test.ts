@@ -0,0 +1,183 @@
+/**
+ * Backend parity: the same tool calls give the same results with file and
+ * SQLite storage
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { StorageType, TestServer, withServer } from "./helpers.js";
+
+// Fields that differ between runs (timestamps), left out of comparisons
+const VOLATILE_FIELDS = new Set([
+  "createdAt",
+  "updatedAt",
+  "completedAt",
+  "deletedAt",
+  "startedAt",
+  "endedAt",
+]);
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Replace task IDs with their TASK-<n> keys, mask other IDs and drop
+ * timestamps, so results from separate runs can be compared
+ */
+function normalize(value: unknown, keys: Map<string, string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => normalize(item, keys));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([field]) => !VOLATILE_FIELDS.has(field))
+        .map(([field, item]) => [field, normalize(item, keys)])
+    );
+  }
+  if (typeof value === "string") {
+    return keys.get(value) ?? (UUID.test(value) ? "<id>" : value);
+  }
+  if (typeof value === "number") {
+    // Scores are computed in SQL on one side and in JavaScript on the other
+    return Number(value.toFixed(6));
+  }
+  return value;
+}
+
+/**
+ * Record the key of every task found in a result
+ */
+function collectKeys(value: unknown, keys: Map<string, string>): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectKeys(item, keys));
+  } else if (value && typeof value === "object") {
+    const { id, number } = value as { id?: unknown; number?: unknown };
+    if (typeof id === "string" && typeof number === "number") {
+      keys.set(id, `TASK-${number}`);
+    }
+    Object.values(value).forEach((item) => collectKeys(item, keys));
+  }
+}
+
+/**
+ * Search results keyed by task, so ties in score may come back in either
+ * order
+ */
+function byTask(results: { task: { number: number } }[]) {
+  return [...results].sort((a, b) => a.task.number - b.task.number);
+}
+
+/**
+ * Run the same calls against a server and return its normalized results
+ */
+async function runScenario(server: TestServer): Promise<unknown[]> {
+  const results: unknown[] = [];
+  const record = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await server.call(name, args);
+    assert.equal(result.isError, false, `${name} failed: ${result.text}`);
+    results.push({ name, args, result: result.structured });
+    return result.structured;
+  };
+
+  await record("create_task", {
+    title: "Run the nightly backups",
+    description: "Backups keep running late on the staging server",
+    priority: "high",
+    category: "ops",
+    tags: ["infra"],
+  });
+  await record("create_task", {
+    title: "Agreed pricing with vendor",
+    priority: "low",
+    category: "sales",
+  });
+  await record("create_task", {
+    title: "Login page redesign",
+    description: "Users logging in on mobile fail",
+    category: "web",
+    tags: ["ui", "infra"],
+    dueDate: "2030-01-15",
+  });
+  await record("create_task", {
+    title: "Café menu",
+    description: "Naïve résumé parsing",
+    category: "Web",
+  });
+  await record("create_task", {
+    title: "Йогурт и Ελληνικές σημειώσεις",
+    description: "किताब पढ़ना",
+    category: "intl",
+  });
+  await record("create_task", {
+    title: "Running shoes for the team run",
+    description: "Run, run, run",
+    category: "ops",
+  });
+  await record("add_subtask", { parentId: "TASK-1", title: "Rotate keys" });
+  await record("add_dependency", { taskId: "TASK-3", blockedById: "TASK-1" });
+  await record("update_task", { taskId: "TASK-2", status: "in_progress" });
+  await record("complete_task", { taskId: "TASK-7" });
+  await record("log_time", { taskId: "TASK-1", minutes: 45 });
+  await record("create_task", { title: "Uncategorized", category: "" });
+
+  for (const query of [
+    "running",
+    "run",
+    "agreed",
+    "log",
+    '"keep running"',
+    "cafe",
+    "resume",
+    "backup category:ops",
+    "run OR pricing",
+    "run -shoes",
+    "иогурт",
+    "ελληνικες",
+    "σημειώσεις",
+    "किताब",
+  ]) {
+    const search = (await record("search_tasks", { query })) as {
+      results: { task: { number: number } }[];
+    };
+    search.results = byTask(search.results);
+  }
+
+  await record("list_tasks", { sortBy: "title" });
+  await record("list_tasks", { category: "web", sortBy: "title" });
+  await record("list_tasks", { query: "tag:infra", sortBy: "title" });
+  await record("list_tasks", { query: "category:none", sortBy: "title" });
+  await record("list_tasks", {
+    query: "priority:>=medium due:none",
+    sortBy: "title",
+  });
+  const page = (await record("list_tasks", { sortBy: "title", limit: 2 })) as {
+    nextCursor: string;
+  };
+  await record("list_tasks", { sortBy: "title", cursor: page.nextCursor });
+  await record("get_task_stats");
+  await record("get_next_actions");
+
+  await record("delete_task", { taskId: "TASK-4" });
+  await record("trash");
+  await record("clear_completed");
+  await record("list_tasks", { status: "all", sortBy: "title" });
+
+  // Keys come from every result, so an ID seen before its task still maps
+  const keys = new Map<string, string>();
+  collectKeys(results, keys);
+  return results.map((result) => normalize(result, keys));
+}
+
+describe("backend parity", () => {
+  it("gives the same results with file and SQLite storage", async () => {
+    const runs = new Map<StorageType, unknown[]>();
+    for (const storageType of ["file", "db"] as const) {
+      runs.set(storageType, await withServer(storageType, runScenario));
+    }
+
+    const file = runs.get("file")!;
+    const db = runs.get("db")!;
+    assert.equal(file.length, db.length);
+    file.forEach((result, i) => assert.deepEqual(db[i], result));
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Next-occurrence dates for recurrence rules
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { anchorRule, nextOccurrence } from "../src/recurrence.js";
+import { RecurrenceRule } from "../src/types.js";
+
+/**
+ * Due dates of the occurrences after the first, scheduled one by one the
+ * way completing each occurrence does
+ */
+function series(rule: RecurrenceRule, start: string, length: number) {
+  const anchored = anchorRule(rule, start);
+  const dates: string[] = [];
+  let date = start;
+  for (let occurrence = 1; occurrence < length; occurrence++) {
+    const next = nextOccurrence(anchored, date, occurrence);
+    if (!next) break;
+    dates.push(next);
+    date = next;
+  }
+  return dates;
+}
+
+describe("nextOccurrence", () => {
+  it("keeps monthly series on their first day of the month", () => {
+    const rule: RecurrenceRule = { frequency: "monthly", interval: 1 };
+    assert.deepEqual(series(rule, "2025-01-31", 5), [
+      "2025-02-28",
+      "2025-03-31",
+      "2025-04-30",
+      "2025-05-31",
+    ]);
+  });
+
+  it("counts monthly intervals from the previous occurrence", () => {
+    const rule: RecurrenceRule = { frequency: "monthly", interval: 3 };
+    assert.deepEqual(series(rule, "2024-11-30", 4), [
+      "2025-02-28",
+      "2025-05-30",
+      "2025-08-30",
+    ]);
+  });
+
+  it("walks weekdays within active weeks", () => {
+    const rule: RecurrenceRule = {
+      frequency: "weekly",
+      interval: 2,
+      byWeekday: ["MO", "TH"],
+    };
+    // 2025-01-06 is a Monday
+    assert.deepEqual(series(rule, "2025-01-06", 4), [
+      "2025-01-09",
+      "2025-01-20",
+      "2025-01-23",
+    ]);
+  });
+
+  it("ends series at count and until", () => {
+    const counted: RecurrenceRule = {
+      frequency: "daily",
+      interval: 1,
+      count: 3,
+    };
+    assert.deepEqual(series(counted, "2025-01-01", 10), [
+      "2025-01-02",
+      "2025-01-03",
+    ]);
+
+    const until: RecurrenceRule = {
+      frequency: "weekly",
+      interval: 1,
+      until: "2025-01-20",
+    };
+    assert.deepEqual(series(until, "2025-01-01", 10), [
+      "2025-01-08",
+      "2025-01-15",
+    ]);
+  });
+});
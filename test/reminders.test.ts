@@ -0,0 +1,110 @@
+/**
+ * Reminder delivery to a webhook, on both storage backends
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import fs from "fs-extra";
+import http from "http";
+import { AddressInfo } from "net";
+import { STORAGE_TYPES, makeDataDir, startServer } from "./helpers.js";
+
+/**
+ * Start a webhook that answers each POST with the next status in a list
+ * (the last one repeating), recording the bodies it receives
+ */
+async function startWebhook(statuses: number[]) {
+  const bodies: unknown[] = [];
+  const server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      bodies.push(JSON.parse(body));
+      response.statusCode = statuses[bodies.length - 1] ?? statuses.at(-1)!;
+      response.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/`,
+    bodies,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+/**
+ * Wait until a condition holds, checking every 100 ms
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 10_000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}
+
+for (const storageType of STORAGE_TYPES) {
+  describe(`reminders (${storageType} storage)`, () => {
+    it("sends a reminder again until the webhook accepts it", async () => {
+      const webhook = await startWebhook([500, 200]);
+      const dataDir = await makeDataDir();
+      const server = await startServer(storageType, dataDir, {
+        REMINDER_INTERVAL_SECONDS: "1",
+        REMINDER_WEBHOOK_URL: webhook.url,
+      });
+      try {
+        await server.call("create_task", {
+          title: "Overdue",
+          dueDate: "2020-01-01",
+        });
+
+        await waitFor(() => webhook.bodies.length >= 2);
+        // Give a third, wrong, delivery the time to happen
+        await new Promise((resolve) => setTimeout(resolve, 1500));
+        assert.deepEqual(
+          webhook.bodies.map((body) => (body as { kind: string }).kind),
+          ["overdue", "overdue"]
+        );
+      } finally {
+        await server.close();
+        await webhook.close();
+        await fs.remove(dataDir);
+      }
+    });
+
+    it("forgets sent reminders of completed tasks", async () => {
+      const webhook = await startWebhook([200]);
+      const dataDir = await makeDataDir();
+      const server = await startServer(storageType, dataDir, {
+        REMINDER_INTERVAL_SECONDS: "1",
+        REMINDER_WEBHOOK_URL: webhook.url,
+        TRASH_PURGE_INTERVAL_SECONDS: "1",
+      });
+      try {
+        await server.call("create_task", {
+          title: "Overdue",
+          dueDate: "2020-01-01",
+        });
+        await waitFor(() => webhook.bodies.length >= 1);
+
+        await server.call("complete_task", { taskId: "TASK-1" });
+        // Let the purger prune the sent reminder
+        await new Promise((resolve) => setTimeout(resolve, 1500));
+
+        // So reopening the task reminds about it again
+        await server.call("update_task", {
+          taskId: "TASK-1",
+          status: "pending",
+        });
+        await waitFor(() => webhook.bodies.length >= 2);
+      } finally {
+        await server.close();
+        await webhook.close();
+        await fs.remove(dataDir);
+      }
+    });
+  });
+}
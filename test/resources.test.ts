@@ -0,0 +1,71 @@
+/**
+ * Resource subscriptions on both storage backends
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { STORAGE_TYPES, TestServer, withServer } from "./helpers.js";
+
+/**
+ * Wait until the server has notified about a resource
+ */
+async function waitForUpdate(server: TestServer, uri: string): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (server.updated.includes(uri)) return;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  assert.fail(`No notification for ${uri}`);
+}
+
+for (const storageType of STORAGE_TYPES) {
+  describe(`resource subscriptions (${storageType} storage)`, () => {
+    it("only notifies about resources the changed tasks are in", async () => {
+      await withServer(storageType, async (server) => {
+        await server.call("create_task", { title: "Water", category: "home" });
+        await server.call("create_task", { title: "Report", category: "work" });
+
+        await server.subscribe("tasks://category/home");
+        await server.subscribe("tasks://task/TASK-2");
+        await server.subscribe("tasks://status/completed");
+        await server.subscribe("tasks://stats");
+        // Subscribed last, so it is checked after the others
+        await server.subscribe("tasks://list");
+
+        await server.call("complete_task", { taskId: "TASK-2" });
+        await waitForUpdate(server, "tasks://list");
+        assert.deepEqual(server.updated, [
+          "tasks://task/TASK-2",
+          "tasks://status/completed",
+          "tasks://stats",
+          "tasks://list",
+        ]);
+
+        // Logging time only changes the statistics
+        server.updated.length = 0;
+        await server.call("log_time", { taskId: "TASK-1", minutes: 30 });
+        await waitForUpdate(server, "tasks://stats");
+        await server.call("update_task", {
+          taskId: "TASK-2",
+          title: "Final report",
+        });
+        await waitForUpdate(server, "tasks://list");
+        assert.deepEqual(server.updated, [
+          "tasks://stats",
+          "tasks://task/TASK-2",
+          "tasks://status/completed",
+          "tasks://list",
+        ]);
+      });
+    });
+
+    it("rejects malformed URIs and keeps notifying others", async () => {
+      await withServer(storageType, async (server) => {
+        await assert.rejects(server.subscribe("tasks://%ZZ/history"));
+        await server.subscribe("tasks://list");
+
+        await server.call("create_task", { title: "Water" });
+        await waitForUpdate(server, "tasks://list");
+      });
+    });
+  });
+}
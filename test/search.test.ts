@@ -0,0 +1,164 @@
+/**
+ * The in-memory search index against SQLite's FTS5 over the same corpus
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import Database from "better-sqlite3";
+import {
+  SEARCH_COLUMNS,
+  SEARCH_WEIGHTS,
+  buildSearchIndex,
+  phraseTokens,
+  rankTasks,
+} from "../src/search.js";
+import { Task } from "../src/types.js";
+
+// Title, description and category of each document: mixed scripts,
+// diacritics, case folds, punctuation, digits and symbols
+const CORPUS: [string, string, string][] = [
+  ["Run the nightly backups", "Backups keep running late", "ops"],
+  ["Running shoes for the team run", "Run, run, run!", "ops"],
+  ["Login page redesign", "Users logging in on mobile fail", "web"],
+  ["Café menu", "Naïve résumé parsing; coöperate", "Web"],
+  ["Йогурт и Ελληνικές σημειώσεις", "किताब पढ़ना", "intl"],
+  ["STRASSE vs Straße", "ſtraße ΣΊΣΥΦΟΣ µ-meter", "de"],
+  ["e-mail/IMAP sync (v2.1)", "don't re-send 3rd-party mails", "mail"],
+  ["東京 meeting 会議", "emoji 🎉 party — “quoted” text", "jp"],
+  ["Ångström unit Øresund", "ﬁle ligature, Œuvre, Ærø", "units"],
+  ["x2 2024s a1b2c3", "the agreed pricing was agreed", "sales"],
+  ["Ünïcödé ÀÉÎÕÜ ąęłńśźż", "Ιωάννης ἄνθρωπος ῥήτωρ", "misc"],
+  ["Tab\tseparated\nlines", "under_score and dots.in.words", "misc"],
+];
+
+// Queries run on both sides; the last term is a prefix
+const QUERIES = [
+  "run",
+  "running",
+  "backup",
+  "log",
+  "keep running",
+  "cafe",
+  "resume",
+  "cooperate",
+  "strasse",
+  "straße",
+  "σισυφος",
+  "μ",
+  "иогурт",
+  "ελληνικες",
+  "किताब",
+  "mail",
+  "re send",
+  "v2 1",
+  "東京",
+  "angstrom",
+  "oresund",
+  "file",
+  "oeuvre",
+  "unicode",
+  "ιωαννης",
+  "ανθρωπος",
+  "agree",
+  "2024",
+  "under",
+  "dots in",
+];
+
+/**
+ * A task holding one document of the corpus
+ */
+function task(
+  [title, description, category]: [string, string, string],
+  index: number
+): Task {
+  return {
+    id: `task-${String(index + 1).padStart(2, "0")}`,
+    workspaceId: "default",
+    title,
+    description,
+    category,
+    priority: "medium",
+    status: "pending",
+    createdAt: "2025-01-01T09:00:00.000Z",
+    version: 1,
+  };
+}
+
+/**
+ * An FTS5 table with the same columns and tokenizer as tasks_fts, holding
+ * the corpus with rowids starting at 1
+ */
+function sqliteIndex(): Database.Database {
+  const db = new Database(":memory:");
+  db.exec(`
+    CREATE VIRTUAL TABLE docs USING fts5(
+      ${SEARCH_COLUMNS.join(", ")},
+      tokenize = 'porter unicode61 remove_diacritics 2'
+    );
+    CREATE VIRTUAL TABLE terms USING fts5vocab(docs, 'instance');
+  `);
+  const insert = db.prepare(
+    `INSERT INTO docs (rowid, ${SEARCH_COLUMNS.join(", ")}) VALUES (?, ?, ?, ?)`
+  );
+  CORPUS.forEach((doc, i) => insert.run(i + 1, ...doc));
+  return db;
+}
+
+describe("search index", () => {
+  const tasks = CORPUS.map(task);
+  const index = buildSearchIndex(tasks);
+
+  it("splits and folds text into the terms FTS5 indexes", () => {
+    const db = sqliteIndex();
+    try {
+      const rows = db
+        .prepare("SELECT doc, col, term FROM terms ORDER BY doc, col, offset")
+        .all() as { doc: number; col: string; term: string }[];
+
+      for (const [i, doc] of index.docs.entries()) {
+        SEARCH_COLUMNS.forEach((column, c) => {
+          assert.deepEqual(
+            doc.columns[c]!.map((token) => token.term),
+            rows
+              .filter((row) => row.doc === i + 1 && row.col === column)
+              .map((row) => row.term),
+            `${column} of "${CORPUS[i]![0]}"`
+          );
+        });
+      }
+    } finally {
+      db.close();
+    }
+  });
+
+  it("matches and scores queries like FTS5", () => {
+    const db = sqliteIndex();
+    try {
+      const allowed = new Set(tasks.map((t) => t.id));
+      const search = db.prepare(`
+        SELECT rowid, bm25(docs, ${SEARCH_WEIGHTS.join(", ")}) AS score
+        FROM docs WHERE docs MATCH ? ORDER BY rowid
+      `);
+
+      for (const query of QUERIES) {
+        const expected = (
+          search.all(`"${phraseTokens(query).join(" ")}"*`) as {
+            rowid: number;
+            score: number;
+          }[]
+        ).map((row) => [
+          tasks[row.rowid - 1]!.id,
+          // bm25() is negative, lower is better
+          Number((-row.score).toFixed(6)),
+        ]);
+        const actual = rankTasks(index, [query], allowed)
+          .map((result) => [result.task.id, Number(result.score.toFixed(6))])
+          .sort(([a], [b]) => String(a).localeCompare(String(b)));
+        assert.deepEqual(actual, expected, query);
+      }
+    } finally {
+      db.close();
+    }
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * The in-memory stemmer against SQLite's FTS5 porter tokenizer
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import Database from "better-sqlite3";
+import { stem } from "../src/stemmer.js";
+
+// Words exercising every step of the algorithm, plus tokens FTS5 leaves
+// alone (shorter than 3 or longer than 64 bytes) and multi-byte letters,
+// all already lowercased as search.ts passes them to stem()
+const WORDS = [
+  ...["caresses", "ponies", "ties", "caress", "cats", "ies", "gas"],
+  ...["feed", "agreed", "plastered", "bled", "motoring", "sing"],
+  ...["conflated", "troubled", "sized", "hopping", "tanned", "falling"],
+  ...["hissing", "fizzed", "failing", "filing", "happy", "sky", "yelling"],
+  ...["relational", "conditional", "rational", "valenci", "hesitanci"],
+  ...["digitizer", "conformabli", "radicalli", "differentli", "vileli"],
+  ...["analogousli", "vietnamization", "predication", "operator"],
+  ...["feudalism", "decisiveness", "hopefulness", "callousness"],
+  ...["formaliti", "sensitiviti", "sensibiliti", "archaeologi"],
+  ...["triplicate", "formative", "formalize", "electriciti", "electrical"],
+  ...["hopeful", "goodness", "revival", "allowance", "inference"],
+  ...["airliner", "gyroscopic", "adjustable", "defensible", "irritant"],
+  ...["replacement", "adjustment", "dependent", "adoption", "homologou"],
+  ...["communism", "activate", "angulariti", "homologous", "effective"],
+  ...["bowdlerize", "probate", "rate", "cease", "controll", "roll"],
+  ...["running", "runs", "run", "login", "logging", "syzygy", "yyy"],
+  ...["ab", "a1b2c3s", "2024s", "straße", "ελληνικά", "задачи", "taches"],
+  "ta".repeat(30) + "ping",
+  "ta".repeat(30) + "pping",
+];
+
+/**
+ * Terms SQLite's porter tokenizer produces for each word
+ */
+function sqliteStems(words: string[]): string[] {
+  const db = new Database(":memory:");
+  try {
+    db.exec(`
+      CREATE VIRTUAL TABLE words USING fts5(
+        word,
+        tokenize = 'porter unicode61 remove_diacritics 2'
+      );
+      CREATE VIRTUAL TABLE terms USING fts5vocab(words, 'instance');
+    `);
+    const insert = db.prepare("INSERT INTO words (rowid, word) VALUES (?, ?)");
+    words.forEach((word, i) => insert.run(i + 1, word));
+
+    const rows = db
+      .prepare("SELECT doc, term FROM terms ORDER BY doc")
+      .all() as { doc: number; term: string }[];
+    return rows.map((row) => row.term);
+  } finally {
+    db.close();
+  }
+}
+
+describe("stem", () => {
+  it("matches SQLite's porter tokenizer", () => {
+    assert.deepEqual(WORDS.map(stem), sqliteStems(WORDS));
+  });
+
+  it("reduces forms of a word to the same term", () => {
+    assert.equal(stem("running"), "run");
+    assert.equal(stem("runs"), "run");
+    assert.equal(stem("run"), "run");
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Storage files on disk: recovering from a corrupt tasks.json and closing
+ * SQLite on shutdown
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import fs from "fs-extra";
+import path from "path";
+import { Task } from "../src/types.js";
+import { makeDataDir, startServer } from "./helpers.js";
+
+describe("file storage", () => {
+  it("quarantines a corrupt tasks file, then starts empty", async () => {
+    const dataDir = await makeDataDir();
+    await fs.writeFile(path.join(dataDir, "tasks.json"), '{"tasks": [');
+    try {
+      // A server that does start is closed, so the test fails instead of
+      // hanging
+      await assert.rejects(
+        startServer("file", dataDir).then((server) => server.close())
+      );
+      const quarantined = await fs.readdir(path.join(dataDir, "quarantine"));
+      assert.equal(quarantined.length, 1);
+
+      const server = await startServer("file", dataDir);
+      try {
+        const { structured } = await server.call("list_tasks");
+        assert.deepEqual((structured as { tasks: Task[] }).tasks, []);
+      } finally {
+        await server.close();
+      }
+    } finally {
+      await fs.remove(dataDir);
+    }
+  });
+});
+
+describe("database storage", () => {
+  it("checkpoints the write-ahead log when the server stops", async () => {
+    const dataDir = await makeDataDir();
+    try {
+      const server = await startServer("db", dataDir);
+      try {
+        await server.call("create_task", { title: "Kept" });
+        assert.ok(await fs.pathExists(path.join(dataDir, "tasks.db-wal")));
+      } finally {
+        await server.close();
+      }
+
+      // The process exits shortly after the client disconnects
+      const wal = path.join(dataDir, "tasks.db-wal");
+      for (let attempt = 0; attempt < 100; attempt++) {
+        if (!(await fs.pathExists(wal))) break;
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      assert.equal(await fs.pathExists(wal), false);
+    } finally {
+      await fs.remove(dataDir);
+    }
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Subtasks of completed parents on both storage backends
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Task } from "../src/types.js";
+import { STORAGE_TYPES, withServer } from "./helpers.js";
+
+for (const storageType of STORAGE_TYPES) {
+  describe(`subtasks (${storageType} storage)`, () => {
+    it("keeps open tasks out of completed parents", () =>
+      withServer(storageType, async (server) => {
+        await server.call("create_task", { title: "Release" });
+        await server.call("add_subtask", { parentId: "TASK-1", title: "Tag" });
+        await server.call("create_task", { title: "Loose end" });
+        await server.call("complete_task", {
+          taskId: "TASK-1",
+          subtaskPolicy: "cascade",
+        });
+
+        const added = await server.call("add_subtask", {
+          parentId: "TASK-1",
+          title: "Announce",
+        });
+        assert.equal(added.isError, true);
+        assert.match(added.text, /is completed/);
+
+        const moved = await server.call("move_task", {
+          taskId: "TASK-3",
+          parentId: "TASK-1",
+        });
+        assert.equal(moved.isError, true);
+        assert.match(moved.text, /is completed/);
+
+        const reopened = await server.call("update_task", {
+          taskId: "TASK-2",
+          status: "pending",
+        });
+        assert.equal(reopened.isError, true);
+        assert.match(reopened.text, /is completed/);
+
+        const bulkChild = await server.call("bulk_update", {
+          taskIds: ["TASK-2"],
+          patch: { status: "pending" },
+        });
+        assert.equal(bulkChild.isError, true);
+        assert.match(bulkChild.text, /under a completed parent/);
+
+        // Reopening the parent along with the child is fine
+        const bulkBoth = await server.call("bulk_update", {
+          taskIds: ["TASK-1", "TASK-2"],
+          patch: { status: "pending" },
+        });
+        assert.equal(bulkBoth.isError, false, bulkBoth.text);
+      }));
+
+    it("ends recurring subtasks with their parent", () =>
+      withServer(storageType, async (server) => {
+        await server.call("create_task", { title: "Sprint" });
+        await server.call("add_subtask", {
+          parentId: "TASK-1",
+          title: "Standup",
+          dueDate: "2025-03-03",
+          recurrence: { frequency: "daily" },
+        });
+
+        const completed = await server.call("complete_task", {
+          taskId: "TASK-1",
+          subtaskPolicy: "cascade",
+        });
+        assert.equal(completed.isError, false, completed.text);
+        assert.deepEqual(
+          (completed.structured as { nextOccurrences: Task[] }).nextOccurrences,
+          []
+        );
+
+        const { structured } = await server.call("list_tasks", {
+          status: "pending",
+        });
+        assert.deepEqual((structured as { tasks: Task[] }).tasks, []);
+      }));
+  });
+}
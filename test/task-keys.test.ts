@@ -0,0 +1,58 @@
+/**
+ * Referring to tasks by short ID prefixes
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import fs from "fs-extra";
+import path from "path";
+import { makeDataDir, startServer } from "./helpers.js";
+
+// Two tasks whose IDs share their first two characters
+const TASKS = [
+  {
+    id: "ab1c2a4e-0b7d-4c55-9a51-2d7e3f0a9b11",
+    title: "Write the report",
+    priority: "medium",
+    status: "pending",
+    createdAt: "2024-03-01T09:00:00.000Z",
+  },
+  {
+    id: "ab9e8d7c-3b2f-4e10-8c6d-5f4a3b2c1d00",
+    title: "Send the report",
+    priority: "medium",
+    status: "pending",
+    createdAt: "2024-03-02T09:00:00.000Z",
+  },
+];
+
+describe("task references", () => {
+  it("accepts any prefix that only one task starts with", async () => {
+    const dataDir = await makeDataDir();
+    await fs.writeJson(path.join(dataDir, "tasks.json"), {
+      tasks: TASKS,
+      lastUpdated: "2024-03-02T09:00:00.000Z",
+    });
+    try {
+      const server = await startServer("file", dataDir);
+      try {
+        const completed = await server.call("complete_task", {
+          taskId: "ab1",
+        });
+        assert.equal(completed.isError, false, completed.text);
+        assert.match(completed.text, /Write the report/);
+
+        const ambiguous = await server.call("complete_task", { taskId: "ab" });
+        assert.equal(ambiguous.isError, true);
+        assert.match(ambiguous.text, /ambiguous/);
+
+        const empty = await server.call("complete_task", { taskId: " " });
+        assert.equal(empty.isError, true);
+      } finally {
+        await server.close();
+      }
+    } finally {
+      await fs.remove(dataDir);
+    }
+  });
+});
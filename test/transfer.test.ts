@@ -0,0 +1,49 @@
+/**
+ * Export and import round trips
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseTasks, serializeTasks } from "../src/transfer.js";
+import { Task } from "../src/types.js";
+
+/**
+ * A stored task with the given title
+ */
+function task(title: string): Task {
+  return {
+    id: "6f1c2a4e-0b7d-4c55-9a51-2d7e3f0a9b11",
+    workspaceId: "default",
+    title,
+    priority: "medium",
+    status: "pending",
+    createdAt: "2025-01-01T09:00:00.000Z",
+    version: 1,
+  };
+}
+
+describe("csv", () => {
+  it("keeps spreadsheets from running fields as formulas", () => {
+    const csv = serializeTasks(
+      [task('=HYPERLINK("http://example.com")'), task("@SUM(A1)")],
+      "csv"
+    );
+    const rows = csv.split("\r\n");
+    assert.match(rows[1]!, /,"'=HYPERLINK\(""http:\/\/example\.com""\)",/);
+    assert.match(rows[2]!, /,'@SUM\(A1\),/);
+  });
+
+  it("reads escaped fields back unchanged", () => {
+    const titles = ["=1+1", "-5 degrees", "'=already quoted", "Plain"];
+    const csv = serializeTasks(titles.map(task), "csv");
+    assert.deepEqual(
+      parseTasks(csv, "csv").map((row) => row.fields.title),
+      titles
+    );
+  });
+
+  it("leaves formulas in imported files alone", () => {
+    const rows = parseTasks("title\r\n=1+1\r\n", "csv");
+    assert.equal(rows[0]?.fields.title, "=1+1");
+  });
+});
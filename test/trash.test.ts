@@ -0,0 +1,66 @@
+/**
+ * Trash retention on both storage backends
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import fs from "fs-extra";
+import { STORAGE_TYPES, makeDataDir, startServer } from "./helpers.js";
+
+// Everything in the trash is past retention at once
+const EXPIRE_AT_ONCE = {
+  TRASH_RETENTION_DAYS: "0",
+  TRASH_PURGE_INTERVAL_SECONDS: "0",
+};
+
+for (const storageType of STORAGE_TYPES) {
+  describe(`trash retention (${storageType} storage)`, () => {
+    it("hides expired tasks and purges them at startup", async () => {
+      const dataDir = await makeDataDir();
+      try {
+        const first = await startServer(storageType, dataDir, EXPIRE_AT_ONCE);
+        let id: string;
+        try {
+          const created = await first.call("create_task", { title: "Old" });
+          id = (created.structured as { task: { id: string } }).task.id;
+          await first.call("create_task", { title: "Other" });
+          await first.call("delete_task", { taskId: "TASK-1" });
+
+          // Deleting another task leaves the expired one alone
+          await first.call("delete_task", { taskId: "TASK-2" });
+          const history = await first.call("get_task_history", {
+            taskId: id,
+          });
+          assert.equal(history.text.includes("purge"), false);
+
+          const trash = await first.call("trash");
+          assert.deepEqual(
+            (trash.structured as { tasks: unknown[] }).tasks,
+            []
+          );
+          const restored = await first.call("restore_task", {
+            taskId: "TASK-1",
+          });
+          assert.equal(restored.isError, true);
+        } finally {
+          await first.close();
+        }
+
+        const second = await startServer(storageType, dataDir, EXPIRE_AT_ONCE);
+        try {
+          const history = await second.call("get_task_history", {
+            taskId: id,
+          });
+          const entries = (
+            history.structured as { entries: { tool: string }[] }
+          ).entries;
+          assert.equal(entries.at(-1)?.tool, "purge");
+        } finally {
+          await second.close();
+        }
+      } finally {
+        await fs.remove(dataDir);
+      }
+    });
+  });
+}
@@ -0,0 +1,128 @@
+/**
+ * Undo and redo on both storage backends
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import fs from "fs-extra";
+import { Task } from "../src/types.js";
+import {
+  STORAGE_TYPES,
+  TestServer,
+  ToolResult,
+  makeDataDir,
+  startServer,
+  withServer,
+} from "./helpers.js";
+
+/**
+ * Titles of the tasks in the current workspace, in alphabetical order
+ */
+async function titles(server: TestServer): Promise<string[]> {
+  const { structured } = await server.call("list_tasks", { sortBy: "title" });
+  return (structured as { tasks: Task[] }).tasks.map((t) => t.title);
+}
+
+/**
+ * Operations an undo or redo call reports
+ */
+function operations(result: ToolResult): unknown[] {
+  return (result.structured as { operations: unknown[] }).operations;
+}
+
+for (const storageType of STORAGE_TYPES) {
+  describe(`undo and redo (${storageType} storage)`, () => {
+    it("reverts and reapplies operations in order", () =>
+      withServer(storageType, async (server) => {
+        await server.call("create_task", { title: "Draft" });
+        await server.call("update_task", { taskId: "TASK-1", title: "Final" });
+        await server.call("create_task", { title: "Second" });
+
+        const undone = await server.call("undo", { steps: 2 });
+        assert.deepEqual(operations(undone), [
+          { tool: "create_task", changes: 1 },
+          { tool: "update_task", changes: 1 },
+        ]);
+        assert.deepEqual(await titles(server), ["Draft"]);
+
+        await server.call("undo");
+        assert.deepEqual(await titles(server), []);
+
+        await server.call("redo", { steps: 3 });
+        assert.deepEqual(await titles(server), ["Final", "Second"]);
+
+        const nothing = await server.call("redo");
+        assert.deepEqual(operations(nothing), []);
+      }));
+
+    it("refuses to overwrite changes made by another session", async () => {
+      const dataDir = await makeDataDir();
+      const first = await startServer(storageType, dataDir);
+      const second = await startServer(storageType, dataDir);
+      try {
+        await first.call("create_task", { title: "Original" });
+        await first.call("update_task", { taskId: "TASK-1", title: "Mine" });
+        await second.call("update_task", {
+          taskId: "TASK-1",
+          title: "Theirs",
+        });
+
+        const refused = await first.call("undo");
+        assert.equal(refused.isError, true);
+        assert.match(refused.text, /changed since/);
+        assert.deepEqual(await titles(first), ["Theirs"]);
+
+        const forced = await first.call("undo", { force: true });
+        assert.equal(forced.isError, false);
+        assert.deepEqual(await titles(first), ["Original"]);
+      } finally {
+        await first.close();
+        await second.close();
+        await fs.remove(dataDir);
+      }
+    });
+
+    it("moves tasks it removes to the trash", () =>
+      withServer(storageType, async (server) => {
+        await server.call("create_task", { title: "Undone" });
+        await server.call("undo");
+
+        const trash = await server.call("trash");
+        const { tasks } = trash.structured as { tasks: Task[] };
+        assert.deepEqual(
+          tasks.map((t) => t.title),
+          ["Undone"]
+        );
+
+        await server.call("redo");
+        assert.deepEqual(await titles(server), ["Undone"]);
+        const empty = await server.call("trash");
+        assert.deepEqual((empty.structured as { tasks: Task[] }).tasks, []);
+      }));
+
+    it("redoes an operation after undoing it", () =>
+      withServer(storageType, async (server) => {
+        await server.call("create_task", { title: "Task" });
+        await server.call("complete_task", { taskId: "TASK-1" });
+        await server.call("undo");
+
+        // Versions written by the undo itself aren't treated as conflicts
+        const redone = await server.call("redo");
+        assert.equal(redone.isError, false);
+        const { structured } = await server.call("list_tasks");
+        const { tasks } = structured as { tasks: Task[] };
+        assert.equal(tasks[0]?.status, "completed");
+      }));
+
+    it("leaves time tracking off the undo stack", () =>
+      withServer(storageType, async (server) => {
+        await server.call("create_task", { title: "Timed" });
+        await server.call("log_time", { taskId: "TASK-1", minutes: 30 });
+
+        const undone = await server.call("undo");
+        assert.deepEqual(operations(undone), [
+          { tool: "create_task", changes: 1 },
+        ]);
+      }));
+  });
+}